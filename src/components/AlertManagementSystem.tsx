@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Bell, 
@@ -15,6 +15,13 @@ import {
   Volume2,
   VolumeX
 } from 'lucide-react';
+import { describeRuleBreach } from '../utils/alertRules';
+import { useAlertRules } from '../hooks/useAlertRules';
+import type { RuleBreach } from '../hooks/useAlertRules';
+import type { SensorParameter } from '../utils/sensorParameters';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import { InstrumentFaultNotices } from './InstrumentFaultNotices';
+import { AlertRulesEditor } from './AlertRulesEditor';
 
 export interface Contact {
   id: string;
@@ -29,8 +36,8 @@ export interface Contact {
 export interface AlertRule {
   id: string;
   name: string;
-  parameter: string;
-  threshold: number;
+  parameter: SensorParameter;
+  threshold: number; // In the parameter's registry unit
   operator: '>' | '<' | '=' | '>=';
   severity: 'low' | 'medium' | 'high' | 'critical';
   emailEnabled: boolean;
@@ -62,19 +69,24 @@ export interface Alert {
 interface AlertManagementSystemProps {
   onAlertTriggered: (alert: Alert) => void;
   currentZoneData?: Record<string, any>;
+  predictions?: Record<string, PredictionResult>; // Latest detector output per zone
 }
 
 export const AlertManagementSystem: React.FC<AlertManagementSystemProps> = ({
   onAlertTriggered,
-  currentZoneData
+  currentZoneData,
+  predictions
 }) => {
   const [activeTab, setActiveTab] = useState<'alerts' | 'rules' | 'contacts' | 'settings'>('alerts');
   const [contacts, setContacts] = useState<Contact[]>([]);
-  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
   const [activeAlerts, setActiveAlerts] = useState<Alert[]>([]);
   const [isAddingContact, setIsAddingContact] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
 
+  const sensorHealth = useMemo(() => predictions && Object.fromEntries(
+    Object.entries(predictions).map(([zoneId, prediction]) => [zoneId, prediction.sensorHealth])
+  ), [predictions]);
+
   // Initialize with default data
   useEffect(() => {
     const defaultContacts: Contact[] = [
@@ -107,102 +119,13 @@ export const AlertManagementSystem: React.FC<AlertManagementSystemProps> = ({
       }
     ];
 
-    const defaultRules: AlertRule[] = [
-      {
-        id: '1',
-        name: 'High Displacement Warning',
-        parameter: 'displacement',
-        threshold: 15,
-        operator: '>',
-        severity: 'high',
-        emailEnabled: true,
-        smsEnabled: true,
-        soundEnabled: true,
-        contacts: ['1', '2'],
-        cooldownMinutes: 30,
-        isActive: true
-      },
-      {
-        id: '2',
-        name: 'Critical Strain Alert',
-        parameter: 'strain',
-        threshold: 800,
-        operator: '>',
-        severity: 'critical',
-        emailEnabled: true,
-        smsEnabled: true,
-        soundEnabled: true,
-        contacts: ['1', '2', '3'],
-        cooldownMinutes: 15,
-        isActive: true
-      },
-      {
-        id: '3',
-        name: 'High Pore Pressure',
-        parameter: 'porePressure',
-        threshold: 500,
-        operator: '>',
-        severity: 'medium',
-        emailEnabled: true,
-        smsEnabled: false,
-        soundEnabled: false,
-        contacts: ['1'],
-        cooldownMinutes: 60,
-        isActive: true
-      }
-    ];
-
     setContacts(defaultContacts);
-    setAlertRules(defaultRules);
   }, []);
 
   // Monitor zone data for alert conditions
-  useEffect(() => {
-    if (!currentZoneData) return;
-
-    Object.entries(currentZoneData).forEach(([zoneId, zoneData]) => {
-      alertRules.forEach(rule => {
-        if (!rule.isActive) return;
-
-        const reading = zoneData.lastReading;
-        const paramValue = reading[rule.parameter];
-        
-        if (paramValue === undefined) return;
+  const { rules: alertRules, updateRule } = useAlertRules(currentZoneData, predictions, breach => triggerAlert(breach));
 
-        let conditionMet = false;
-        switch (rule.operator) {
-          case '>':
-            conditionMet = paramValue > rule.threshold;
-            break;
-          case '<':
-            conditionMet = paramValue < rule.threshold;
-            break;
-          case '>=':
-            conditionMet = paramValue >= rule.threshold;
-            break;
-          case '=':
-            conditionMet = Math.abs(paramValue - rule.threshold) < 0.01;
-            break;
-        }
-
-        if (conditionMet) {
-          // Check if we should trigger (considering cooldown)
-          const existingAlert = activeAlerts.find(
-            alert => alert.ruleId === rule.id && 
-                    alert.zoneId === zoneId && 
-                    !alert.resolved &&
-                    (Date.now() - alert.timestamp.getTime()) < (rule.cooldownMinutes * 60 * 1000)
-          );
-
-          if (!existingAlert) {
-            triggerAlert(rule, zoneId, zoneData.zoneName, paramValue);
-          }
-        }
-      });
-    });
-  }, [currentZoneData, alertRules, activeAlerts]);
-
-  const triggerAlert = (rule: AlertRule, zoneId: string, zoneName: string, value: number) => {
+  const triggerAlert = ({ rule, zoneId, zoneName, value, prediction }: RuleBreach) => {
     const alert: Alert = {
       id: Date.now().toString(),
       ruleId: rule.id,
@@ -210,7 +133,7 @@ export const AlertManagementSystem: React.FC<AlertManagementSystemProps> = ({
       zoneId,
       zoneName,
       severity: rule.severity,
-      message: `${rule.name}: ${rule.parameter} value ${value.toFixed(2)} ${rule.operator} ${rule.threshold}`,
+      message: describeRuleBreach(rule, value, prediction),
       timestamp: new Date(),
       acknowledged: false,
       resolved: false,
@@ -515,6 +438,14 @@ export const AlertManagementSystem: React.FC<AlertManagementSystemProps> = ({
       <div className="p-6">
         {activeTab === 'alerts' && (
           <div className="space-y-4">
+            {sensorHealth && Object.values(sensorHealth).some(report => report.faults.length > 0) && (
+              <InstrumentFaultNotices
+                sensorHealth={sensorHealth}
+                zoneNames={Object.fromEntries(
+                  Object.entries(currentZoneData ?? {}).map(([zoneId, zoneData]) => [zoneId, zoneData.zoneName])
+                )}
+              />
+            )}
             {activeAlerts.length === 0 ? (
               <div className="text-center py-12">
                 <Check className="w-12 h-12 text-safe-500 mx-auto mb-4" />
@@ -577,6 +508,13 @@ export const AlertManagementSystem: React.FC<AlertManagementSystemProps> = ({
           </div>
         )}
 
+        {activeTab === 'rules' && (
+          <div className="space-y-3">
+            <h4 className="text-lg font-medium">Alert Rules</h4>
+            <AlertRulesEditor rules={alertRules} onUpdateRule={updateRule} />
+          </div>
+        )}
+
         {activeTab === 'contacts' && (
           <div>
             <div className="flex justify-between items-center mb-6">
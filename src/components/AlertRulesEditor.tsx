@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+import type { AlertRule } from './AlertManagementSystem';
+
+interface AlertRulesEditorProps {
+  rules: AlertRule[];
+  onUpdateRule: (ruleId: string, changes: Partial<AlertRule>) => void;
+}
+
+const getSeverityColor = (severity: AlertRule['severity']) => {
+  switch (severity) {
+    case 'critical':
+      return 'text-danger-600 bg-danger-50 border-danger-200';
+    case 'high':
+      return 'text-warning-600 bg-warning-50 border-warning-200';
+    case 'medium':
+      return 'text-yellow-600 bg-yellow-50 border-yellow-200';
+    default:
+      return 'text-gray-600 bg-gray-50 border-gray-200';
+  }
+};
+
+// Threshold, operator and parameter of each live alert rule, in the
+// parameter's registry unit. A threshold is edited as a draft and reaches the
+// live rule on blur or Enter, so a cleared field never becomes a 0 threshold.
+export const AlertRulesEditor: React.FC<AlertRulesEditorProps> = ({ rules, onUpdateRule }) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({}); // By rule ID
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const commitThreshold = (ruleId: string) => {
+    const draft = drafts[ruleId];
+    if (draft === undefined) return;
+    const clear = <T,>(values: Record<string, T>) => {
+      const next = { ...values };
+      delete next[ruleId];
+      return next;
+    };
+    if (draft.trim() === '' || !Number.isFinite(Number(draft))) {
+      setFieldErrors(prev => ({ ...prev, [ruleId]: 'Enter a number' }));
+      return;
+    }
+    onUpdateRule(ruleId, { threshold: Number(draft) });
+    setDrafts(clear);
+    setFieldErrors(clear);
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule) => {
+        const { unit, typicalRange } = SENSOR_PARAMETER_REGISTRY[rule.parameter];
+        return (
+          <div key={rule.id} className={`p-4 border rounded-lg ${getSeverityColor(rule.severity)}`}>
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center space-x-3">
+                <h5 className="font-medium text-gray-900">{rule.name}</h5>
+                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600">
+                  {rule.severity.toUpperCase()}
+                </span>
+              </div>
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.isActive}
+                  onChange={(e) => onUpdateRule(rule.id, { isActive: e.target.checked })}
+                  className="rounded border-gray-300 text-navy-600 focus:ring-navy-500"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={rule.parameter}
+                onChange={(e) => onUpdateRule(rule.id, { parameter: e.target.value as SensorParameter })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-navy-500"
+              >
+                {SENSOR_PARAMETERS.map(parameter => (
+                  <option key={parameter} value={parameter}>
+                    {SENSOR_PARAMETER_REGISTRY[parameter].label} ({SENSOR_PARAMETER_REGISTRY[parameter].unit})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={rule.operator}
+                onChange={(e) => onUpdateRule(rule.id, { operator: e.target.value as AlertRule['operator'] })}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-navy-500"
+              >
+                {(['>', '>=', '<', '='] as const).map(operator => (
+                  <option key={operator} value={operator}>{operator}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                value={drafts[rule.id] ?? String(rule.threshold)}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [rule.id]: e.target.value }))}
+                onBlur={() => commitThreshold(rule.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitThreshold(rule.id);
+                }}
+                className={`w-28 px-3 py-2 border rounded-lg text-sm bg-white focus:ring-2 focus:ring-navy-500 ${
+                  fieldErrors[rule.id] ? 'border-danger-300' : 'border-gray-300'
+                }`}
+              />
+              <span className="text-sm text-gray-700">{unit}</span>
+              <span className="text-xs text-gray-500">
+                Typical {typicalRange.min}–{typicalRange.max} {unit}
+              </span>
+            </div>
+            {fieldErrors[rule.id] && <p className="text-xs text-danger-600 mt-1">{fieldErrors[rule.id]}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,416 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { History, Upload, AlertCircle, Plus, X } from 'lucide-react';
+import { useBacktest } from '../hooks/useBacktest';
+import { backtestInputFromDataset, parseBacktestFile, parseKnownEvents } from '../utils/backtest';
+import type { BacktestInput, KnownEvent } from '../utils/backtest';
+import { parseDetectorSnapshot } from '../utils/detectorSnapshot';
+import type { AlertRule } from './AlertManagementSystem';
+import type { ReplayDataset } from '../utils/historicalReplay';
+
+interface BacktestPanelProps {
+  datasets?: ReplayDataset[]; // Imported series that can be replayed
+  rules?: AlertRule[]; // The live rule set; the default rules when absent
+  exportDetectorState?: () => string; // The live detector's tuning, offered as the replay's starting point
+}
+
+const formatHours = (hours: number | null) => hours === null ? '—' : `${hours.toFixed(1)} h`;
+
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ datasets = [], rules, exportDetectorState }) => {
+  const { result, isRunning, error, start, cancel, clear } = useBacktest();
+  const [input, setInput] = useState<BacktestInput | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [events, setEvents] = useState<KnownEvent[]>([]);
+  const [eventDraft, setEventDraft] = useState({ zoneId: '', time: '', label: '' });
+  const [warningLevel, setWarningLevel] = useState<'medium' | 'high' | 'critical'>('high');
+  const [useLiveTuning, setUseLiveTuning] = useState(false);
+  const [selectedZone, setSelectedZone] = useState<string>('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const zoneIds = input ? Object.keys(input.series) : [];
+
+  const loadInput = (next: BacktestInput, name: string) => {
+    setInput(next);
+    setFileName(name);
+    setEvents(next.events ?? []);
+    setEventDraft({ zoneId: Object.keys(next.series)[0] ?? '', time: '', label: '' });
+    setSelectedZone(Object.keys(next.series)[0] ?? '');
+    setFormError(null);
+    clear();
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      loadInput(parseBacktestFile(JSON.parse(await file.text())), file.name);
+    } catch (err) {
+      setInput(null);
+      setFileName(null);
+      setFormError(err instanceof Error ? err.message : 'Could not read backtest file');
+    }
+    e.target.value = '';
+  };
+
+  const handleDatasetSelect = (datasetId: string) => {
+    const dataset = datasets.find(candidate => candidate.id === datasetId);
+    if (dataset) loadInput(backtestInputFromDataset(dataset), dataset.name);
+  };
+
+  // Imported events replace the list; events for zones the input lacks are
+  // kept, and simply never matched
+  const handleEventsFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setEvents(parseKnownEvents(JSON.parse(await file.text())).sort((a, b) => a.time - b.time));
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not read events file');
+    }
+    e.target.value = '';
+  };
+
+  const handleAddEvent = () => {
+    const time = new Date(eventDraft.time).getTime();
+    if (!eventDraft.zoneId || !Number.isFinite(time)) {
+      setFormError('Pick a zone and a date and time for the event');
+      return;
+    }
+    const event: KnownEvent = {
+      zoneId: eventDraft.zoneId,
+      time,
+      ...(eventDraft.label.trim() ? { label: eventDraft.label.trim() } : {})
+    };
+    setEvents(prev => [...prev, event].sort((a, b) => a.time - b.time));
+    setEventDraft({ ...eventDraft, time: '', label: '' });
+    setFormError(null);
+  };
+
+  const handleRun = () => {
+    if (!input) return;
+    try {
+      start(
+        { ...input, events, ...(rules ? { rules } : {}), warningLevel },
+        useLiveTuning && exportDetectorState ? parseDetectorSnapshot(JSON.parse(exportDetectorState())) : null
+      );
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not start the backtest');
+    }
+  };
+
+  const shownError = formError ?? error;
+
+  const zoneTimeline = useMemo(() => {
+    if (!result) return [];
+    return result.predictions
+      .filter(p => p.zoneId === selectedZone)
+      .map(p => ({ time: p.time, riskScore: p.riskScore }));
+  }, [result, selectedZone]);
+
+  const zoneAlerts = result?.alerts.filter(a => a.zoneId === selectedZone) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-navy-100 rounded-lg">
+          <History className="w-5 h-5 text-navy-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Backtesting</h2>
+          <p className="text-sm text-gray-600">
+            Replay recorded zone series through the detector and alert rules on simulated time
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
+          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm font-medium text-gray-700">
+            {fileName && input
+              ? `${fileName} (${zoneIds.length} zones)`
+              : 'Simulation recording or recorded series (JSON)'}
+          </p>
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleFileSelect}
+            className="hidden"
+            id="backtest-upload"
+          />
+          <label
+            htmlFor="backtest-upload"
+            className="inline-flex items-center mt-3 px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 cursor-pointer text-sm"
+          >
+            Choose File
+          </label>
+          {datasets.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleDatasetSelect(e.target.value)}
+              className="block w-full mt-3 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+            >
+              <option value="">…or replay an imported dataset</option>
+              {datasets.map(dataset => (
+                <option key={dataset.id} value={dataset.id}>
+                  {dataset.name} ({Object.keys(dataset.zones).length} zones, {dataset.readingCount.toLocaleString()} readings)
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Counts as a warning</label>
+            <select
+              value={warningLevel}
+              onChange={(e) => setWarningLevel(e.target.value as typeof warningLevel)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500"
+            >
+              <option value="medium">Medium or above</option>
+              <option value="high">High or above</option>
+              <option value="critical">Critical only</option>
+            </select>
+          </div>
+          {exportDetectorState && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={useLiveTuning}
+                disabled={isRunning}
+                onChange={(e) => setUseLiveTuning(e.target.checked)}
+              />
+              <span>Replay from the live detector's tuning</span>
+            </label>
+          )}
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={isRunning ? cancel : handleRun}
+            disabled={!input}
+            className={`w-full py-3 px-4 rounded-lg font-medium text-white disabled:bg-gray-300 disabled:text-gray-500 ${
+              isRunning ? 'bg-gray-700 hover:bg-gray-800' : 'bg-navy-600 hover:bg-navy-700'
+            }`}
+          >
+            {isRunning ? 'Replaying… (Cancel)' : 'Run Backtest'}
+          </motion.button>
+        </div>
+      </div>
+
+      {input && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-gray-900">Known Events ({events.length})</h3>
+            <input
+              type="file"
+              accept=".json"
+              onChange={handleEventsFileSelect}
+              className="hidden"
+              id="backtest-events-upload"
+            />
+            <label
+              htmlFor="backtest-events-upload"
+              className="flex items-center space-x-1 px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer"
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import events (JSON)</span>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mb-2">
+            Failures or rockfalls the replay should have warned of; lead times and missed events are scored against them
+          </p>
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            <select
+              value={eventDraft.zoneId}
+              onChange={(e) => setEventDraft({ ...eventDraft, zoneId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-navy-500"
+            >
+              {zoneIds.map(zoneId => (
+                <option key={zoneId} value={zoneId}>{zoneId}</option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={eventDraft.time}
+              onChange={(e) => setEventDraft({ ...eventDraft, time: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+            />
+            <input
+              type="text"
+              value={eventDraft.label}
+              placeholder="Label (optional)"
+              onChange={(e) => setEventDraft({ ...eventDraft, label: e.target.value })}
+              className="flex-1 min-w-32 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+            />
+            <button
+              onClick={handleAddEvent}
+              className="flex items-center space-x-1 px-3 py-2 text-sm text-white bg-navy-600 rounded-lg hover:bg-navy-700"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </div>
+          {events.length > 0 && (
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {events.map((event, index) => (
+                <div key={index} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                  <span>
+                    <span className="font-medium">{event.zoneId}</span>
+                    {' · '}{new Date(event.time).toLocaleString()}
+                    {event.label && <span className="text-gray-500"> · {event.label}</span>}
+                  </span>
+                  <button
+                    onClick={() => setEvents(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-danger-600"
+                    title="Remove event"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {shownError && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{shownError}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Replayed</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(result.summary.durationHours)}</p>
+              <p className="text-xs text-gray-500">{result.summary.readingCount.toLocaleString()} readings</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Alerts per Day</p>
+              <p className="text-2xl font-bold text-gray-900">{result.summary.alertsPerDay.toFixed(1)}</p>
+              <p className="text-xs text-gray-500">{result.summary.alertCount} alerts fired</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Known Events</p>
+              <p className="text-2xl font-bold text-gray-900">{result.summary.eventLeadTimes.length}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Missed Events</p>
+              <p className={`text-2xl font-bold ${result.summary.missedEvents > 0 ? 'text-danger-600' : 'text-safe-600'}`}>
+                {result.summary.missedEvents}
+              </p>
+            </div>
+          </div>
+
+          {result.summary.eventLeadTimes.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">First-Warning Lead Times</h3>
+              <table className="w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-gray-500">Zone</th>
+                    <th className="px-3 py-2 text-left text-gray-500">Event</th>
+                    <th className="px-3 py-2 text-left text-gray-500">First Warning</th>
+                    <th className="px-3 py-2 text-left text-gray-500">Lead Time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.summary.eventLeadTimes.map((lead, index) => (
+                    <tr key={index} className="border-t border-gray-200">
+                      <td className="px-3 py-2">{lead.event.zoneId}</td>
+                      <td className="px-3 py-2">{lead.event.label ?? new Date(lead.event.time).toLocaleString()}</td>
+                      <td className="px-3 py-2">
+                        {lead.firstWarningTime
+                          ? `${new Date(lead.firstWarningTime).toLocaleString()} (${lead.warnedBy})`
+                          : <span className="text-danger-600">Missed</span>}
+                      </td>
+                      <td className="px-3 py-2">{formatHours(lead.leadTimeHours)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Time at Each Risk Level</h3>
+            <table className="w-full text-sm border border-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-gray-500">Zone</th>
+                  <th className="px-3 py-2 text-left text-gray-500">Low</th>
+                  <th className="px-3 py-2 text-left text-gray-500">Medium</th>
+                  <th className="px-3 py-2 text-left text-gray-500">High</th>
+                  <th className="px-3 py-2 text-left text-gray-500">Critical</th>
+                  <th className="px-3 py-2 text-left text-gray-500">Alerts/Day</th>
+                </tr>
+              </thead>
+              <tbody>
+                {Object.entries(result.summary.hoursAtRiskLevel).map(([zoneId, hours]) => (
+                  <tr key={zoneId} className="border-t border-gray-200">
+                    <td className="px-3 py-2 font-medium">{zoneId}</td>
+                    <td className="px-3 py-2">{formatHours(hours.low)}</td>
+                    <td className="px-3 py-2">{formatHours(hours.medium)}</td>
+                    <td className="px-3 py-2">{formatHours(hours.high)}</td>
+                    <td className="px-3 py-2">{formatHours(hours.critical)}</td>
+                    <td className="px-3 py-2">{(result.summary.alertsPerDayByZone[zoneId] ?? 0).toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="font-semibold text-gray-900">Prediction Timeline</h3>
+              <select
+                value={selectedZone}
+                onChange={(e) => setSelectedZone(e.target.value)}
+                className="p-1 border border-gray-300 rounded-lg text-sm"
+              >
+                {Object.keys(result.summary.hoursAtRiskLevel).map(zoneId => (
+                  <option key={zoneId} value={zoneId}>{zoneId}</option>
+                ))}
+              </select>
+            </div>
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={zoneTimeline}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={t => new Date(t).toLocaleDateString()}
+                />
+                <YAxis domain={[0, 100]} />
+                <Tooltip labelFormatter={t => new Date(t as number).toLocaleString()} />
+                <Line type="monotone" dataKey="riskScore" stroke="#6366f1" dot={false} name="Risk Score" />
+              </LineChart>
+            </ResponsiveContainer>
+            <div className="mt-3 max-h-48 overflow-y-auto space-y-1">
+              {zoneAlerts.length === 0 ? (
+                <p className="text-sm text-gray-500">No alerts fired in this zone</p>
+              ) : (
+                zoneAlerts.map((alert, index) => (
+                  <div key={index} className="flex justify-between text-sm p-2 bg-gray-50 rounded">
+                    <span>{alert.ruleName} ({alert.value.toFixed(2)})</span>
+                    <span className="text-gray-500">{new Date(alert.time).toLocaleString()}</span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Target, Upload, CheckCircle, AlertCircle } from 'lucide-react';
+import type {
+  CalibrationOptions,
+  CalibrationReport,
+  DetectionModel,
+  RiskLevelThresholds
+} from '../hooks/useEnhancedRockfallDetector';
+import type { LabeledSequence } from '../utils/calibrationMetrics';
+
+interface CalibrationPanelProps {
+  models: DetectionModel[];
+  calibrationReport: CalibrationReport | null;
+  riskLevelThresholds: RiskLevelThresholds;
+  onCalibrate: (datasets: LabeledSequence[], options: CalibrationOptions) => void;
+  onApply: () => void;
+}
+
+const formatHours = (hours: number | null) => hours === null ? '—' : `${hours.toFixed(1)} h`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const isLabeledSequence = (value: unknown): value is LabeledSequence => {
+  const candidate = value as LabeledSequence;
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.outcome === 'boolean' &&
+    Array.isArray(candidate.readings) &&
+    candidate.readings.every(r => typeof r?.timestamp === 'number');
+};
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  models,
+  calibrationReport,
+  riskLevelThresholds,
+  onCalibrate,
+  onApply
+}) => {
+  const [datasets, setDatasets] = useState<LabeledSequence[]>([]);
+  const [datasetName, setDatasetName] = useState<string | null>(null);
+  const [targetRate, setTargetRate] = useState(5); // percent
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = JSON.parse(await file.text());
+      const sequences: unknown[] = Array.isArray(parsed) ? parsed : parsed.sequences;
+      if (!Array.isArray(sequences) || !sequences.every(isLabeledSequence)) {
+        throw new Error('Expected an array of { readings, outcome, eventTime? } sequences');
+      }
+      setDatasets(sequences);
+      setDatasetName(file.name);
+      setError(null);
+    } catch (err) {
+      setDatasets([]);
+      setDatasetName(null);
+      setError(err instanceof Error ? err.message : 'Could not read calibration file');
+    }
+  };
+
+  const runCalibration = () => {
+    setIsRunning(true);
+    // Let the button state render before the replay blocks the thread
+    setTimeout(() => {
+      try {
+        onCalibrate(datasets, { targetFalseAlarmRate: targetRate / 100 });
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Calibration failed');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const ensemble = calibrationReport?.ensemble;
+  const selected = ensemble?.selected;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-navy-100 rounded-lg">
+          <Target className="w-5 h-5 text-navy-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Model Calibration</h2>
+          <p className="text-sm text-gray-600">
+            Replay labeled reading sequences to measure detection skill and tune alarm thresholds
+          </p>
+        </div>
+      </div>
+
+      {/* Dataset and target */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors">
+          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm font-medium text-gray-700">
+            {datasetName ? `${datasetName} (${datasets.length} sequences, ${datasets.filter(d => d.outcome).length} events)` : 'Labeled sequences (JSON)'}
+          </p>
+          <p className="text-xs text-gray-500 mt-1 mb-3">
+            {'[{ "readings": [...], "outcome": true, "eventTime": 1700000000000 }]'}
+          </p>
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleFileSelect}
+            className="hidden"
+            id="calibration-upload"
+          />
+          <label
+            htmlFor="calibration-upload"
+            className="inline-flex items-center px-4 py-2 bg-navy-600 text-white rounded-lg hover:bg-navy-700 cursor-pointer text-sm"
+          >
+            Choose File
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Target False-Alarm Rate: {targetRate}%
+            </label>
+            <input
+              type="range"
+              min="1"
+              max="30"
+              step="1"
+              value={targetRate}
+              onChange={(e) => setTargetRate(parseInt(e.target.value, 10))}
+              className="w-full"
+            />
+          </div>
+          <div className="text-sm text-gray-600">
+            Current risk levels: medium ≥ {riskLevelThresholds.medium}, high ≥ {riskLevelThresholds.high}, critical ≥ {riskLevelThresholds.critical}
+          </div>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={runCalibration}
+            disabled={datasets.length === 0 || isRunning}
+            className="w-full py-3 px-4 rounded-lg font-medium bg-navy-600 text-white hover:bg-navy-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            {isRunning ? 'Calibrating…' : 'Run Calibration'}
+          </motion.button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {calibrationReport && ensemble && selected && (
+        <div className="space-y-6">
+          {/* Ensemble operating point */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Precision</p>
+              <p className="text-2xl font-bold text-gray-900">{formatPercent(selected.precision)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Recall</p>
+              <p className="text-2xl font-bold text-gray-900">{formatPercent(selected.truePositiveRate)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">ROC AUC / PR AUC</p>
+              <p className="text-2xl font-bold text-gray-900">{ensemble.rocAuc.toFixed(2)} / {ensemble.prAuc.toFixed(2)}</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Median Lead Time</p>
+              <p className="text-2xl font-bold text-gray-900">{formatHours(ensemble.leadTimeHours.median)}</p>
+              <p className="text-xs text-gray-500">
+                range {formatHours(ensemble.leadTimeHours.min)} – {formatHours(ensemble.leadTimeHours.max)}
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Confusion matrix */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">
+                Confusion Matrix (score ≥ {selected.threshold})
+              </h3>
+              <table className="w-full text-sm border border-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-gray-500"></th>
+                    <th className="px-3 py-2 text-left text-gray-500">Event</th>
+                    <th className="px-3 py-2 text-left text-gray-500">No Event</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t border-gray-200">
+                    <td className="px-3 py-2 font-medium">Alarm</td>
+                    <td className="px-3 py-2 text-safe-700">{selected.truePositives}</td>
+                    <td className="px-3 py-2 text-danger-600">{selected.falsePositives}</td>
+                  </tr>
+                  <tr className="border-t border-gray-200">
+                    <td className="px-3 py-2 font-medium">No Alarm</td>
+                    <td className="px-3 py-2 text-danger-600">{selected.falseNegatives}</td>
+                    <td className="px-3 py-2 text-safe-700">{selected.trueNegatives}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                False-alarm rate {formatPercent(selected.falsePositiveRate)} (target {formatPercent(calibrationReport.targetFalseAlarmRate)})
+              </p>
+            </div>
+
+            {/* ROC curve */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">ROC Curve</h3>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={[...ensemble.rocCurve].sort((a, b) => a.falsePositiveRate - b.falsePositiveRate)}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="falsePositiveRate" type="number" domain={[0, 1]} tickFormatter={v => v.toFixed(1)} />
+                  <YAxis domain={[0, 1]} tickFormatter={v => v.toFixed(1)} />
+                  <Tooltip formatter={(v: number) => v.toFixed(2)} />
+                  <Line type="stepAfter" dataKey="truePositiveRate" stroke="#6366f1" dot={false} name="TPR" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* PR curve */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-2">Precision–Recall Curve</h3>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={[...ensemble.prCurve].sort((a, b) => a.recall - b.recall)}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="recall" type="number" domain={[0, 1]} tickFormatter={v => v.toFixed(1)} />
+                  <YAxis domain={[0, 1]} tickFormatter={v => v.toFixed(1)} />
+                  <Tooltip formatter={(v: number) => v.toFixed(2)} />
+                  <Line type="stepAfter" dataKey="precision" stroke="#f59e0b" dot={false} name="Precision" />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          {/* Suggestions */}
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3">
+            <h3 className="font-semibold text-blue-900">Suggested Settings</h3>
+            <p className="text-sm text-blue-800">
+              Risk levels: medium ≥ {calibrationReport.suggestedRiskLevels.medium}, high ≥ {calibrationReport.suggestedRiskLevels.high}, critical ≥ {calibrationReport.suggestedRiskLevels.critical}
+            </p>
+            <div className="space-y-2">
+              {models.map(model => {
+                const calibration = calibrationReport.models[model.id];
+                if (!calibration) return null;
+                const thresholds = Object.entries(calibration.suggestedThresholds);
+                return (
+                  <div key={model.id} className="text-sm text-blue-800">
+                    <span className="font-medium">{model.name}</span>
+                    {' — '}accuracy {model.accuracy.toFixed(1)}%, alarm at score ≥ {calibration.metrics.selected.threshold}
+                    {thresholds.length > 0 && (
+                      <span className="block text-xs text-blue-700">
+                        {thresholds.map(([param, value]) => `${param}: ${model.thresholds[param]?.toFixed(1)} → ${value.toFixed(1)}`).join(', ')}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={onApply}
+              className="flex items-center space-x-2 px-4 py-2 bg-safe-600 text-white rounded-lg hover:bg-safe-700 text-sm font-medium"
+            >
+              <CheckCircle className="w-4 h-4" />
+              <span>Apply Suggested Thresholds</span>
+            </motion.button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Calibrated {calibrationReport.calibratedAt.toLocaleString()} on {ensemble.sequenceCount} sequences ({ensemble.positiveCount} events)
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, BookmarkPlus, CheckCircle, X } from 'lucide-react';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY, isSensorParameter } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+import {
+  deleteMappingTemplate,
+  fitMappingTemplate,
+  inferColumnUnit,
+  loadMappingTemplates,
+  mappingProblems,
+  saveMappingTemplate
+} from '../utils/columnMapping';
+import { PARAMETER_UNITS, canonicalUnit } from '../utils/unitConversion';
+import type { ColumnMapping, ColumnTarget, MappingTemplate } from '../utils/columnMapping';
+import type { ImportedData } from './DataImportAnalysis';
+
+interface ColumnMapperProps {
+  data: ImportedData;
+  onApply: (mapping: ColumnMapping) => void;
+  onAnalyze: () => void;
+}
+
+const TARGET_OPTIONS: Array<{ value: ColumnTarget; label: string }> = [
+  { value: 'timestamp', label: 'Timestamp' },
+  { value: 'zoneId', label: 'Zone ID' },
+  { value: 'zoneName', label: 'Zone name' },
+  ...SENSOR_PARAMETERS.map(key => ({
+    value: key,
+    label: `${SENSOR_PARAMETER_REGISTRY[key].label} (${SENSOR_PARAMETER_REGISTRY[key].unit})`
+  }))
+];
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ data, onApply, onAnalyze }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(data.mapping);
+  const [templates, setTemplates] = useState<MappingTemplate[]>(loadMappingTemplates);
+  const [templateName, setTemplateName] = useState(data.mappingTemplate ?? '');
+  const [templateError, setTemplateError] = useState<string | null>(null);
+
+  const problems = mappingProblems(mapping);
+  const hasZoneColumn = Object.values(mapping.columns).includes('zoneId');
+  const isApplied = JSON.stringify(mapping) === JSON.stringify(data.mapping);
+  const convertedUnits = data.replay
+    ? (Object.entries(data.replay.sourceUnits) as Array<[SensorParameter, string]>)
+      .filter(([parameter, unit]) => unit !== canonicalUnit(parameter))
+    : [];
+
+  // A newly mapped parameter column starts in the unit its header or units
+  // row names, falling back to the registry unit
+  const handleMapping = (column: string, target: ColumnTarget | '') => {
+    const columns = { ...mapping.columns };
+    const units = { ...mapping.units };
+    if (target) {
+      columns[column] = target;
+    } else {
+      delete columns[column];
+    }
+    if (target && isSensorParameter(target)) {
+      units[column] = inferColumnUnit(target, column, data.records) ?? canonicalUnit(target);
+    } else {
+      delete units[column];
+    }
+    setMapping({ ...mapping, columns, units });
+  };
+
+  const handleUnit = (column: string, unit: string) => {
+    setMapping({ ...mapping, units: { ...mapping.units, [column]: unit } });
+  };
+
+  const handleUseTemplate = (template: MappingTemplate) => {
+    setMapping(fitMappingTemplate(template, data.columns, data.records).mapping);
+    setTemplateName(template.name);
+    setTemplateError(null);
+  };
+
+  const handleSaveTemplate = () => {
+    try {
+      setTemplates(saveMappingTemplate(templateName, mapping));
+      setTemplateError(null);
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Could not save the template');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="font-medium text-gray-900">Map Data Columns</h4>
+      <p className="text-sm text-gray-600">
+        Map your data columns to standard sensor parameters for analysis
+      </p>
+
+      {data.mappingTemplate && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+          Columns were matched to the saved template "{data.mappingTemplate}"
+        </div>
+      )}
+
+      {/* Templates */}
+      <div className="bg-gray-50 rounded-lg p-3 space-y-3">
+        {templates.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {templates.map(template => (
+              <span
+                key={template.name}
+                className="flex items-center space-x-1 px-2 py-1 bg-white border border-gray-200 rounded-lg text-sm"
+              >
+                <button onClick={() => handleUseTemplate(template)} className="text-navy-700 hover:text-navy-900">
+                  {template.name}
+                </button>
+                <button
+                  onClick={() => setTemplates(deleteMappingTemplate(template.name))}
+                  className="text-gray-400 hover:text-danger-600"
+                  title="Delete template"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            placeholder="Template name, e.g. Campbell logger v2"
+            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+          />
+          <button
+            onClick={handleSaveTemplate}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-white"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+            <span>Save template</span>
+          </button>
+        </div>
+        {templateError && <p className="text-sm text-danger-600">{templateError}</p>}
+      </div>
+
+      <div className="grid gap-4">
+        {data.columns.map((column) => {
+          const target = mapping.columns[column];
+          const parameter = target && isSensorParameter(target) ? target : null;
+          const unit = parameter ? mapping.units[column] ?? canonicalUnit(parameter) : null;
+          return (
+            <div key={column} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div>
+                <p className="font-medium">{column}</p>
+                <p className="text-sm text-gray-500">
+                  Sample: {data.preview[0]?.[column]?.toString() || 'N/A'} · {data.columnTypes[column] ?? 'string'}
+                  {parameter && unit !== canonicalUnit(parameter) && ` · converted from ${unit} to ${canonicalUnit(parameter)}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={target ?? ''}
+                  onChange={(e) => handleMapping(column, e.target.value as ColumnTarget | '')}
+                  className="w-48 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500"
+                >
+                  <option value="">Ignore</option>
+                  {TARGET_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {parameter && (
+                  <select
+                    value={unit ?? ''}
+                    onChange={(e) => handleUnit(column, e.target.value)}
+                    className="w-28 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500"
+                    title="Unit the column is recorded in"
+                  >
+                    {!PARAMETER_UNITS[parameter].some(({ symbol }) => symbol === unit) && (
+                      <option value={unit ?? ''}>{unit}</option>
+                    )}
+                    {PARAMETER_UNITS[parameter].map(({ symbol }) => (
+                      <option key={symbol} value={symbol}>{symbol}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {!hasZoneColumn && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zone for every row</label>
+          <input
+            type="text"
+            value={mapping.fixedZoneId}
+            onChange={(e) => setMapping({ ...mapping, fixedZoneId: e.target.value })}
+            className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">No column is mapped to Zone ID, so all readings go to this zone</p>
+        </div>
+      )}
+
+      {problems.length > 0 && (
+        <div className="bg-warning-50 border border-warning-200 rounded-lg p-3 space-y-1">
+          {problems.map(problem => (
+            <p key={problem} className="text-sm text-warning-800">{problem}</p>
+          ))}
+        </div>
+      )}
+
+      {isApplied && data.errors.length > 0 && (
+        <div className="flex items-start space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {data.errors.map(error => <p key={error}>{error}</p>)}
+          </div>
+        </div>
+      )}
+
+      {isApplied && data.replay && (
+        <div className="flex items-center space-x-2 text-sm text-safe-700">
+          <CheckCircle className="w-4 h-4" />
+          <span>
+            {Object.keys(data.replay.zones).length} zone(s), {data.replay.readingCount.toLocaleString()} readings from{' '}
+            {new Date(data.replay.startTime).toLocaleString()} to {new Date(data.replay.endTime).toLocaleString()}
+            {convertedUnits.length > 0 && (
+              <>; converted {convertedUnits.map(([parameter, unit]) =>
+                `${SENSOR_PARAMETER_REGISTRY[parameter].label.toLowerCase()} from ${unit}`
+              ).join(', ')}</>
+            )}
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onApply(mapping)}
+          disabled={problems.length > 0 || isApplied}
+          className="w-full border border-navy-600 text-navy-700 py-3 px-4 rounded-lg hover:bg-navy-50 font-medium disabled:opacity-50"
+        >
+          Apply Mapping
+        </motion.button>
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={onAnalyze}
+          disabled={!isApplied || !data.validated}
+          className="w-full bg-navy-600 text-white py-3 px-4 rounded-lg hover:bg-navy-700 font-medium disabled:opacity-50"
+        >
+          Start Analysis
+        </motion.button>
+      </div>
+    </div>
+  );
+};
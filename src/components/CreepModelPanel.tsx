@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, AlertCircle } from 'lucide-react';
+import { CREEP_PARAMETER_FIELDS } from '../utils/creepModel';
+import type { CreepParameters } from '../utils/creepModel';
+import { profileCreepParameters } from '../utils/simulatedZones';
+import type { SimulatedZone } from '../utils/simulatedZones';
+
+interface CreepModelPanelProps {
+  zones: SimulatedZone[];
+  parameters: Record<string, CreepParameters>;
+  onChange: (zoneId: string, parameters: CreepParameters) => void;
+}
+
+export const CreepModelPanel: React.FC<CreepModelPanelProps> = ({ zones, parameters, onChange }) => {
+  const [selectedZoneId, setZoneId] = useState(zones[0]?.zoneId ?? '');
+  // Falls back to the first zone once the selected one is retired
+  const zone = zones.find(candidate => candidate.zoneId === selectedZoneId) ?? zones[0];
+  const zoneId = zone?.zoneId ?? '';
+  const [draft, setDraft] = useState<CreepParameters | null>(parameters[zoneId] ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Edits start from whatever the selected zone currently uses
+  useEffect(() => {
+    setDraft(parameters[zoneId] ?? null);
+  }, [parameters, zoneId]);
+
+  const apply = (next: CreepParameters) => {
+    try {
+      onChange(zoneId, next);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid creep parameters');
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <TrendingUp className="w-5 h-5 text-navy-600" />
+          <div>
+            <h3 className="font-semibold text-gray-900">Creep Model</h3>
+            <p className="text-xs text-gray-500">Creep stages and pore pressure response behind each simulated zone</p>
+          </div>
+        </div>
+        <select
+          value={zoneId}
+          onChange={(e) => setZoneId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+        >
+          {zones.map(zone => (
+            <option key={zone.zoneId} value={zone.zoneId}>{zone.zoneName}</option>
+          ))}
+        </select>
+      </div>
+
+      {zone && draft && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {CREEP_PARAMETER_FIELDS.map(({ key, label, unit }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label} ({unit})</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={draft[key]}
+                  onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <motion.button
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+              onClick={() => apply(draft)}
+              className="px-4 py-2 rounded-lg text-sm font-medium bg-navy-600 text-white hover:bg-navy-700"
+            >
+              Apply to {zone.zoneName}
+            </motion.button>
+            <button
+              onClick={() => apply(profileCreepParameters(zone.profile))}
+              title="Parameters derived from the zone's slope angle, fracture density and water content"
+              className="px-4 py-2 rounded-lg text-sm text-gray-700 border border-gray-300 hover:bg-gray-50"
+            >
+              Restore defaults
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
 import { MapContainer, TileLayer, useMapEvents, useMap } from 'react-leaflet';
 import L, { LatLng } from 'leaflet';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -11,6 +11,10 @@ import {
   MapPin,
   Eye
 } from 'lucide-react';
+import { createRandom, hashSeed } from '../utils/random';
+import type { RandomSource } from '../utils/random';
+import type { ZoneData } from '../hooks/useRockfallDataGenerator';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
 import 'leaflet/dist/leaflet.css';
 import './CustomTopographicalMap.css';
 
@@ -70,22 +74,25 @@ interface CustomTopographicalMapProps {
     stabilityThreshold: number;
   };
   isRealTimeActive: boolean;
+  seed?: number; // Simulation seed; generated terrain is random per click without it
+  zoneData?: Record<string, ZoneData>; // Latest simulated or replayed frame
+  predictions?: Record<string, PredictionResult>;
 }
 
 type MapMode = 'explore' | 'generate' | 'edit' | 'analyze';
 
 // Utility functions for realistic terrain generation
-const generateRealisticBoundary = (center: LatLng, index: number, radius?: number): LatLng[] => {
+const generateRealisticBoundary = (center: LatLng, index: number, random: RandomSource, radius?: number): LatLng[] => {
   const points: LatLng[] = [];
   const baseRadius = radius || (0.0008 + (index * 0.0003)); // Use provided radius or calculate based on index
-  const numPoints = 12 + Math.floor(Math.random() * 8); // Random number of points for organic shape
+  const numPoints = 12 + Math.floor(random() * 8); // Random number of points for organic shape
   
   for (let i = 0; i < numPoints; i++) {
     const angle = (i / numPoints) * 2 * Math.PI;
     
     // Add randomness for realistic terrain
-    const radiusVariation = 0.4 + Math.random() * 0.6; // 40-100% of base radius
-    const angleVariation = (Math.random() - 0.5) * 0.4; // Random angle offset
+    const radiusVariation = 0.4 + random() * 0.6; // 40-100% of base radius
+    const angleVariation = (random() - 0.5) * 0.4; // Random angle offset
     
     const finalAngle = angle + angleVariation;
     const finalRadius = baseRadius * radiusVariation;
@@ -111,7 +118,11 @@ const checkOverlap = (center1: LatLng, radius1: number, center2: LatLng, radius2
 };
 
 // Helper function to generate non-overlapping section centers
-const generateNonOverlappingSectionCenters = (centerPoint: LatLng, sectionCount: number): { center: LatLng; radius: number }[] => {
+const generateNonOverlappingSectionCenters = (
+  centerPoint: LatLng,
+  sectionCount: number,
+  random: RandomSource
+): { center: LatLng; radius: number }[] => {
   const sectionCenters: { center: LatLng; radius: number }[] = [];
   const maxAttempts = 50; // Prevent infinite loops
   
@@ -127,20 +138,20 @@ const generateNonOverlappingSectionCenters = (centerPoint: LatLng, sectionCount:
       if (i === 0) {
         // First section near center
         sectionCenter = new LatLng(
-          centerPoint.lat + (Math.random() - 0.5) * 0.0008,
-          centerPoint.lng + (Math.random() - 0.5) * 0.0008
+          centerPoint.lat + (random() - 0.5) * 0.0008,
+          centerPoint.lng + (random() - 0.5) * 0.0008
         );
-        sectionRadius = 0.0008 + Math.random() * 0.0004;
+        sectionRadius = 0.0008 + random() * 0.0004;
       } else {
         // Subsequent sections in a rough circle around the center
-        const angle = (i / sectionCount) * 2 * Math.PI + (Math.random() - 0.5) * 0.8; // Add some randomness
-        const distance = 0.0015 + Math.random() * 0.001; // Distance from center
+        const angle = (i / sectionCount) * 2 * Math.PI + (random() - 0.5) * 0.8; // Add some randomness
+        const distance = 0.0015 + random() * 0.001; // Distance from center
         
         sectionCenter = new LatLng(
           centerPoint.lat + Math.cos(angle) * distance,
           centerPoint.lng + Math.sin(angle) * distance
         );
-        sectionRadius = 0.0006 + Math.random() * 0.0005;
+        sectionRadius = 0.0006 + random() * 0.0005;
       }
       
       // Check if this position overlaps with existing sections
@@ -173,9 +184,12 @@ const generateNonOverlappingSectionCenters = (centerPoint: LatLng, sectionCount:
   return sectionCenters;
 };
 
-const generateTerrainSections = (centerPoint: LatLng): TerrainSection[] => {
+// `random` and `siteKey` come from the simulation seed and the clicked
+// location, so the same seed regenerates the same sections, with the same
+// zone IDs, at the same spot
+const generateTerrainSections = (centerPoint: LatLng, random: RandomSource, siteKey: number): TerrainSection[] => {
   const sections: TerrainSection[] = [];
-  const sectionCount = 3 + Math.floor(Math.random() * 4); // 3-6 sections
+  const sectionCount = 3 + Math.floor(random() * 4); // 3-6 sections
   
   const rockTypes = ['Limestone', 'Sandstone', 'Granite', 'Shale', 'Basalt', 'Quartzite'];
   const riskLevels: ('critical' | 'high' | 'medium' | 'low')[] = ['critical', 'high', 'medium', 'low'];
@@ -190,14 +204,14 @@ const generateTerrainSections = (centerPoint: LatLng): TerrainSection[] => {
   const baseLocationId = Math.floor(locationHash);
   
   // Generate non-overlapping section centers
-  const sectionCenters = generateNonOverlappingSectionCenters(centerPoint, sectionCount);
+  const sectionCenters = generateNonOverlappingSectionCenters(centerPoint, sectionCount, random);
   
   for (let i = 0; i < sectionCount; i++) {
     const { center: sectionCenter, radius } = sectionCenters[i];
     
     // Use the radius to determine the boundary size for this specific section
-    const boundary = generateRealisticBoundary(sectionCenter, i, radius);
-    const riskLevel = riskLevels[Math.floor(Math.random() * riskLevels.length)];
+    const boundary = generateRealisticBoundary(sectionCenter, i, random, radius);
+    const riskLevel = riskLevels[Math.floor(random() * riskLevels.length)];
     
     // Generate diverse section names based on location and index
     const prefix = sectionPrefixes[Math.floor((baseLocationId + i) % sectionPrefixes.length)];
@@ -214,27 +228,27 @@ const generateTerrainSections = (centerPoint: LatLng): TerrainSection[] => {
     }
     
     sections.push({
-      id: `section-${Date.now()}-${i}`,
+      id: `section-${siteKey}-${i}`,
       name: sectionName,
       riskLevel,
-      riskScore: Math.random() * 10,
+      riskScore: random() * 10,
       coordinates: boundary,
       center: sectionCenter,
       properties: {
-        rockType: rockTypes[Math.floor(Math.random() * rockTypes.length)],
-        slopeAngle: 15 + Math.random() * 75,
-        stability: Math.random(),
-        weatherResistance: Math.random(),
-        fractureDensity: Math.random(),
-        waterContent: Math.random(),
+        rockType: rockTypes[Math.floor(random() * rockTypes.length)],
+        slopeAngle: 15 + random() * 75,
+        stability: random(),
+        weatherResistance: random(),
+        fractureDensity: random(),
+        waterContent: random(),
         lastInspection: new Date().toISOString(),
-        alertThreshold: 0.7 + Math.random() * 0.3
+        alertThreshold: 0.7 + random() * 0.3
       },
       sensorData: {
-        displacement: Math.random() * 10,
-        vibration: Math.random() * 5,
-        temperature: 15 + Math.random() * 20,
-        humidity: 40 + Math.random() * 40,
+        displacement: random() * 10,
+        vibration: random() * 5,
+        temperature: 15 + random() * 20,
+        humidity: 40 + random() * 40,
         timestamp: new Date().toISOString()
       }
     });
@@ -243,6 +257,35 @@ const generateTerrainSections = (centerPoint: LatLng): TerrainSection[] => {
   return sections;
 };
 
+// A section shows the latest frame of the zone with its ID, or failing that
+// its name, so replayed files whose zones are named after sections show up
+// too. The detector's risk level wins over the reading's when there is one;
+// channels a frame lacks keep the section's last value.
+const withLiveData = (
+  section: TerrainSection,
+  zoneData: Record<string, ZoneData>,
+  predictions: Record<string, PredictionResult>
+): TerrainSection => {
+  const name = section.name.toLowerCase();
+  const zone = zoneData[section.id] ??
+    Object.values(zoneData).find(candidate => candidate.zoneName.toLowerCase() === name);
+  if (!zone) return section;
+
+  const reading = zone.lastReading;
+  const latest = (value: number, fallback: number) => (Number.isFinite(value) ? value : fallback);
+  return {
+    ...section,
+    riskLevel: predictions[zone.zoneId]?.riskLevel ?? zone.riskLevel,
+    sensorData: {
+      displacement: latest(reading.displacement, section.sensorData.displacement),
+      vibration: latest(reading.vibration, section.sensorData.vibration),
+      temperature: latest(reading.temperature, section.sensorData.temperature),
+      humidity: latest(reading.soilMoisture, section.sensorData.humidity),
+      timestamp: new Date(reading.timestamp).toISOString()
+    }
+  };
+};
+
 // Component for handling map events
 const MapEventHandler: React.FC<{
   mode: MapMode;
@@ -362,7 +405,10 @@ export const CustomTopographicalMap: React.FC<CustomTopographicalMapProps> = ({
   onZoneSelect, 
   onDataUpdate, 
   simulationThresholds,
-  isRealTimeActive 
+  isRealTimeActive,
+  seed,
+  zoneData,
+  predictions
 }) => {
   const [terrainMaps, setTerrainMaps] = useState<TerrainMap[]>([]);
   const [mapMode, setMapMode] = useState<MapMode>('explore');
@@ -381,6 +427,14 @@ export const CustomTopographicalMap: React.FC<CustomTopographicalMapProps> = ({
 
   const mapRef = useRef<L.Map | null>(null);
 
+  const displayedMaps = useMemo(() => (zoneData
+    ? terrainMaps.map(map => ({
+        ...map,
+        sections: map.sections.map(section => withLiveData(section, zoneData, predictions ?? {}))
+      }))
+    : terrainMaps
+  ), [terrainMaps, zoneData, predictions]);
+
   // Default map center (Delhi, India coordinates)
   const defaultCenter = new LatLng(28.7041, 77.1025);
   const mapCenter = selectedLocation || defaultCenter;
@@ -422,7 +476,10 @@ export const CustomTopographicalMap: React.FC<CustomTopographicalMapProps> = ({
     // Simulate terrain analysis time
     await new Promise(resolve => setTimeout(resolve, 1500));
 
-    const sections = generateTerrainSections(latlng);
+    const siteSeed = seed === undefined ? null : hashSeed(seed, latlng.lat.toFixed(6), latlng.lng.toFixed(6));
+    const sections = siteSeed === null
+      ? generateTerrainSections(latlng, Math.random, Date.now())
+      : generateTerrainSections(latlng, createRandom(siteSeed), siteSeed);
     
     // Store the generated data and show naming dialog
     setPendingTerrainData({ location: latlng, sections });
@@ -761,7 +818,7 @@ export const CustomTopographicalMap: React.FC<CustomTopographicalMapProps> = ({
         <MapEventHandler mode={mapMode} onMapClick={handleMapClick} />
         
         <TerrainRenderer
-          terrainMaps={terrainMaps}
+          terrainMaps={displayedMaps}
           onSectionClick={onZoneSelect}
           simulationThresholds={simulationThresholds}
         />
@@ -9,8 +9,17 @@ import {
   AlertCircle,
   CheckCircle,
   Timer,
-  Gauge
+  Gauge,
+  Hash,
+  Shuffle,
+  Play,
+  Pause,
+  History
 } from 'lucide-react';
+import { randomSeed } from '../utils/random';
+import { REPLAY_SPEEDS } from '../utils/historicalReplay';
+import type { ReplayDataset } from '../utils/historicalReplay';
+import type { HistoricalReplay } from '../hooks/useHistoricalReplay';
 
 interface DataSource {
   id: string;
@@ -25,17 +34,33 @@ interface DataFlowControlProps {
   onDataSourceChange: (source: DataSource) => void;
   onSimulationToggle: (enabled: boolean) => void;
   onDataImport?: (data: any) => void;
+  seed?: number; // Current simulation seed
+  onSeedChange?: (seed: number) => void; // Restarts the simulation from this seed
+  datasets?: ReplayDataset[]; // Imported files that can be replayed
+  replay?: HistoricalReplay;
 }
 
 export const DataFlowControl: React.FC<DataFlowControlProps> = ({
   onDataSourceChange,
-  onSimulationToggle
+  onSimulationToggle,
+  seed,
+  onSeedChange,
+  datasets = [],
+  replay
 }) => {
   const [activeSource, setActiveSource] = useState<string>('simulated');
   const [simulationSpeed, setSimulationSpeed] = useState<number>(1); // 1x speed
   const [isSimulationRunning, setIsSimulationRunning] = useState(true);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [dataQuality, setDataQuality] = useState<'low' | 'medium' | 'high'>('medium');
+  const [seedDraft, setSeedDraft] = useState(seed?.toString() ?? '');
+
+  useEffect(() => {
+    setSeedDraft(seed?.toString() ?? '');
+  }, [seed]);
+
+  const parsedSeed = /^\d+$/.test(seedDraft.trim()) ? Number(seedDraft.trim()) : null;
+  const isSeedValid = parsedSeed !== null && parsedSeed <= 0xffffffff;
 
   const dataSources: DataSource[] = [
     {
@@ -78,6 +103,9 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
   }, [isSimulationRunning, activeSource, onSimulationToggle]);
 
   const handleSourceChange = (sourceId: string) => {
+    if (sourceId !== 'imported' && replay?.dataset) {
+      replay.load(null);
+    }
     setActiveSource(sourceId);
     setSources(prev => prev.map(s => ({
       ...s,
@@ -91,6 +119,14 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
     // This would trigger faster/slower data generation
   };
 
+  // Readings per minute a replay delivers at its current speed
+  const replayRate = (() => {
+    const dataset = replay?.dataset;
+    if (!dataset || !replay.isPlaying) return 0;
+    const spanMinutes = (dataset.endTime - dataset.startTime) / 60000;
+    return spanMinutes > 0 ? dataset.readingCount / spanMinutes * replay.speed : 0;
+  })();
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'active':
@@ -174,7 +210,7 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
                   </div>
                   <div className="text-right">
                     <p className="text-sm font-medium text-gray-900">
-                      {source.dataRate}/min
+                      {source.id === 'imported' ? Math.round(replayRate) : source.dataRate}/min
                     </p>
                     <p className="text-xs text-gray-500">Data rate</p>
                   </div>
@@ -241,6 +277,49 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
                   </div>
                 </div>
 
+                {/* Seed */}
+                {onSeedChange && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-gray-700">Random Seed</span>
+                      <span className="text-xs text-gray-500">Same seed and settings replay the same run</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Hash className="w-4 h-4 text-gray-400" />
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        value={seedDraft}
+                        onChange={(e) => setSeedDraft(e.target.value)}
+                        className={`flex-1 p-2 border rounded-lg text-sm font-mono focus:ring-2 focus:ring-navy-500 focus:border-transparent ${
+                          isSeedValid || seedDraft === '' ? 'border-gray-300' : 'border-danger-300'
+                        }`}
+                      />
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        disabled={!isSeedValid || parsedSeed === seed}
+                        onClick={() => parsedSeed !== null && onSeedChange(parsedSeed)}
+                        className="px-3 py-2 rounded-lg text-sm font-medium bg-navy-600 text-white hover:bg-navy-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Apply
+                      </motion.button>
+                      <motion.button
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                        onClick={() => onSeedChange(randomSeed())}
+                        title="New random seed"
+                        className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+                      >
+                        <Shuffle className="w-4 h-4" />
+                      </motion.button>
+                    </div>
+                    {!isSeedValid && seedDraft !== '' && (
+                      <p className="text-xs text-danger-600 mt-1">Seed must be a whole number from 0 to 4294967295</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Data Quality */}
                 <div>
                   <span className="text-sm font-medium text-gray-700 block mb-2">Data Quality</span>
@@ -267,7 +346,7 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
           )}
         </AnimatePresence>
 
-        {/* File Import */}
+        {/* Historical Replay */}
         <AnimatePresence>
           {activeSource === 'imported' && (
             <motion.div
@@ -277,17 +356,100 @@ export const DataFlowControl: React.FC<DataFlowControlProps> = ({
               className="mt-6 pt-6 border-t border-gray-200"
             >
               <h4 className="font-medium text-gray-900 flex items-center mb-4">
-                <Upload className="w-4 h-4 mr-2" />
-                Data Import
+                <History className="w-4 h-4 mr-2" />
+                Historical Replay
               </h4>
-              
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center hover:border-gray-400 transition-colors cursor-pointer">
-                <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                <p className="text-sm font-medium text-gray-700">Drop files here or click to browse</p>
-                <p className="text-xs text-gray-500 mt-1">
-                  Supports CSV, JSON, and Excel formats
-                </p>
-              </div>
+
+              {!replay || datasets.length === 0 ? (
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
+                  <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                  <p className="text-sm font-medium text-gray-700">No replayable datasets imported yet</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Import a file under Data Import and map its timestamp and sensor columns to replay it here
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <span className="text-sm font-medium text-gray-700 block mb-2">Dataset</span>
+                    <select
+                      value={replay.dataset?.id ?? ''}
+                      onChange={(e) => replay.load(datasets.find(dataset => dataset.id === e.target.value) ?? null)}
+                      className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+                    >
+                      <option value="">Choose a dataset...</option>
+                      {datasets.map(dataset => (
+                        <option key={dataset.id} value={dataset.id}>
+                          {dataset.name} ({Object.keys(dataset.zones).length} zones, {dataset.readingCount.toLocaleString()} readings)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {replay.dataset && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-700">Replay position</p>
+                          <p className="text-sm font-mono text-gray-900">{new Date(replay.cursor).toLocaleString()}</p>
+                        </div>
+                        <motion.button
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          onClick={replay.isPlaying ? replay.pause : replay.play}
+                          className={`flex items-center space-x-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                            replay.isPlaying
+                              ? 'bg-safe-600 text-white hover:bg-safe-700'
+                              : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                          }`}
+                        >
+                          {replay.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          <span>{replay.isPlaying ? 'Playing' : 'Paused'}</span>
+                        </motion.button>
+                      </div>
+
+                      <div>
+                        <input
+                          type="range"
+                          min={replay.dataset.startTime}
+                          max={replay.dataset.endTime}
+                          step={60000}
+                          value={replay.cursor}
+                          onChange={(e) => replay.seek(Number(e.target.value))}
+                          className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer slider"
+                        />
+                        <div className="flex justify-between text-xs text-gray-400 mt-1">
+                          <span>{new Date(replay.dataset.startTime).toLocaleString()}</span>
+                          <span>{new Date(replay.dataset.endTime).toLocaleString()}</span>
+                        </div>
+                      </div>
+
+                      <div>
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="text-sm font-medium text-gray-700">Replay Speed</span>
+                          <span className="text-xs text-gray-500">Recorded time per second of replay</span>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Gauge className="w-4 h-4 text-gray-400" />
+                          {REPLAY_SPEEDS.map(speed => (
+                            <button
+                              key={speed}
+                              onClick={() => replay.setSpeed(speed)}
+                              className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                                replay.speed === speed
+                                  ? 'bg-navy-600 text-white'
+                                  : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                              }`}
+                            >
+                              {speed}x
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
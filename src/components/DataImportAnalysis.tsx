@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Upload, 
@@ -12,8 +12,25 @@ import {
   Eye,
   Settings
 } from 'lucide-react';
-
-interface ImportedData {
+import {
+  applyColumnMapping,
+  loadMappingTemplates,
+  mappingProblems,
+  matchMappingTemplate,
+  suggestColumnMapping
+} from '../utils/columnMapping';
+import type { ColumnMapping } from '../utils/columnMapping';
+import { streamCsvFile } from '../utils/csvImport';
+import type { ColumnType } from '../utils/csvImport';
+import { MAX_HEADER_ROWS, readWorkbook, sheetRecords, suggestHeader } from '../utils/excelImport';
+import type { ExcelSheet } from '../utils/excelImport';
+import { ColumnMapper } from './ColumnMapper';
+import { analyzeDataset, formatPValue } from '../utils/datasetAnalysis';
+import type { DatasetAnalysis } from '../utils/datasetAnalysis';
+import { SENSOR_PARAMETER_REGISTRY } from '../utils/sensorParameters';
+import type { ReplayDataset } from '../utils/historicalReplay';
+
+export interface ImportedData {
   id: string;
   filename: string;
   format: 'csv' | 'json' | 'excel';
@@ -21,10 +38,16 @@ interface ImportedData {
   uploadDate: Date;
   recordCount: number;
   columns: string[];
+  columnTypes: Record<string, ColumnType>;
   preview: any[];
   processed: boolean;
   validated: boolean;
   errors: string[];
+  records: Array<Record<string, unknown>>;
+  skippedRows: number; // Rows the parser could not line up with the header
+  mapping: ColumnMapping;
+  mappingTemplate: string | null; // Saved template the mapping was suggested from
+  replay: ReplayDataset | null; // The mapped per-zone series; null until the mapping applies
 }
 
 // interface DataColumn {
@@ -35,23 +58,26 @@ interface ImportedData {
 //   sampleValues: any[];
 // }
 
-interface AnalysisResult {
-  summary: {
-    totalRecords: number;
-    dateRange: { start: Date; end: Date };
-    averageValues: Record<string, number>;
-    trends: Record<string, 'increasing' | 'decreasing' | 'stable'>;
-    anomalies: number;
-    quality: 'excellent' | 'good' | 'fair' | 'poor';
-  };
-  insights: string[];
-  recommendations: string[];
-  visualizations: any[];
+// A workbook waiting for the user to pick its sheet and header row, with the
+// files dropped after it
+interface PendingWorkbook {
+  file: File;
+  sheets: ExcelSheet[];
+  sheetIndex: number;
+  headerRow: number;
+  headerRows: number;
+  remaining: File[];
+}
+
+interface ImportedTable {
+  records: Array<Record<string, unknown>>;
+  columnTypes: Record<string, ColumnType>;
+  skippedRows: number;
 }
 
 interface DataImportAnalysisProps {
   onDataImported: (data: ImportedData) => void;
-  onAnalysisComplete: (analysis: AnalysisResult) => void;
+  onAnalysisComplete?: (analysis: DatasetAnalysis) => void; // The results are also shown in the Analysis tab
 }
 
 export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
@@ -64,21 +90,29 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
   const [isDragOver, setIsDragOver] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
-  const [analysisResults, setAnalysisResults] = useState<AnalysisResult | null>(null);
+  const [analysisResults, setAnalysisResults] = useState<DatasetAnalysis | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const importAbort = useRef<AbortController | null>(null);
 
-  const supportedFormats = {
+  const supportedFormats: Record<string, ImportedData['format']> = {
     'text/csv': 'csv',
+    'text/tab-separated-values': 'csv',
     'application/json': 'json',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'excel',
     'application/vnd.ms-excel': 'excel'
   };
 
-  const sensorParameters = [
-    'timestamp', 'displacement', 'strain', 'porePressure', 
-    'temperature', 'vibration', 'rainfall', 'windSpeed', 
-    'soilMoisture', 'tiltAngle'
-  ];
+  // Browsers report no type, or an Excel type, for many CSV files
+  const supportedExtensions: Record<string, ImportedData['format']> = {
+    csv: 'csv',
+    tsv: 'csv',
+    txt: 'csv',
+    json: 'json',
+    xlsx: 'excel',
+    xls: 'excel'
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -94,105 +128,162 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = Array.from(e.dataTransfer.files);
-    files.forEach(file => processFile(file));
+    importFiles(Array.from(e.dataTransfer.files));
   }, []);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    files.forEach(file => processFile(file));
+    importFiles(Array.from(e.target.files || []));
+    e.target.value = '';
   };
 
-  const processFile = async (file: File) => {
-    const format = supportedFormats[file.type as keyof typeof supportedFormats];
+  // One file at a time, so a cancel stops the rest of the batch too. A
+  // workbook holds the rest back until its sheet is chosen.
+  const importFiles = async (files: File[]) => {
+    for (const [index, file] of files.entries()) {
+      if (await processFile(file, files.slice(index + 1)) !== 'done') break;
+    }
+  };
+
+  const processFile = async (file: File, remaining: File[]): Promise<'done' | 'cancelled' | 'waiting'> => {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const format = file.type === 'application/vnd.ms-excel' && extension === 'csv'
+      ? 'csv'
+      : supportedFormats[file.type] ?? supportedExtensions[extension];
     if (!format) {
       alert('Unsupported file format. Please upload CSV, JSON, or Excel files.');
-      return;
+      return 'done';
     }
 
+    const controller = new AbortController();
+    importAbort.current = controller;
     setIsUploading(true);
     setUploadProgress(0);
+    setImportError(null);
 
     try {
-      // Simulate file processing with progress
-      const reader = new FileReader();
-      
-      reader.onprogress = (event) => {
-        if (event.lengthComputable) {
-          setUploadProgress((event.loaded / event.total) * 100);
-        }
-      };
-
-      reader.onload = async (event) => {
-        const content = event.target?.result as string;
-        const processedData = await parseFileContent(content, format, file);
-        
-        const importedData: ImportedData = {
-          id: Date.now().toString(),
-          filename: file.name,
-          format: format as any,
-          size: file.size,
-          uploadDate: new Date(),
-          recordCount: processedData.length,
-          columns: processedData.length > 0 ? Object.keys(processedData[0]) : [],
-          preview: processedData.slice(0, 10), // First 10 records for preview
-          processed: true,
-          validated: false,
-          errors: []
-        };
-
-        // Validate data structure
-        const validation = validateData(importedData);
-        importedData.validated = validation.isValid;
-        importedData.errors = validation.errors;
-
-        setImportedFiles(prev => [importedData, ...prev]);
-        setSelectedFile(importedData);
-        onDataImported(importedData);
-        
-        setIsUploading(false);
-        setUploadProgress(0);
-        setActiveTab('mapping');
-      };
-
-      reader.readAsText(file);
-    } catch (error) {
-      console.error('Error processing file:', error);
+      if (format === 'excel') {
+        const sheets = await readWorkbook(file);
+        setPendingWorkbook({
+          file,
+          sheets,
+          sheetIndex: 0,
+          ...suggestHeader(sheets[0].rows),
+          remaining
+        });
+        return 'waiting';
+      }
+      finishImport(file, format, await readRecords(file, format, controller.signal));
+      return 'done';
+    } catch (err) {
+      if (controller.signal.aborted) return 'cancelled';
+      setImportError(err instanceof Error ? err.message : `Could not import ${file.name}`);
+      return 'done';
+    } finally {
+      importAbort.current = null;
       setIsUploading(false);
       setUploadProgress(0);
     }
   };
 
-  const parseFileContent = async (content: string, format: string, _file: File): Promise<any[]> => {
-    switch (format) {
-      case 'csv':
-        return parseCSV(content);
-      case 'json':
-        return JSON.parse(content);
-      case 'excel':
-        // In a real implementation, you'd use a library like xlsx
-        throw new Error('Excel parsing not implemented in this demo');
-      default:
-        throw new Error('Unsupported format');
+  // Validates the parsed rows and hands them on, whatever format they came from
+  const finishImport = (file: File, format: ImportedData['format'], { records, columnTypes, skippedRows }: ImportedTable) => {
+    // A saved template that fits these headers beats guessing from their names
+    const columns = Object.keys(columnTypes);
+    const template = matchMappingTemplate(loadMappingTemplates(), columns, records);
+    const mapping = template?.mapping ?? suggestColumnMapping(columns, records);
+    const importedData = withMapping({
+      id: Date.now().toString(),
+      filename: file.name,
+      format,
+      size: file.size,
+      uploadDate: new Date(),
+      recordCount: records.length,
+      columns,
+      columnTypes,
+      preview: records.slice(0, 10), // First 10 records for preview
+      processed: true,
+      validated: false,
+      errors: [],
+      records,
+      skippedRows,
+      mapping,
+      mappingTemplate: template?.template.name ?? null,
+      replay: null
+    }, mapping);
+
+    setImportedFiles(prev => [importedData, ...prev]);
+    setSelectedFile(importedData);
+    onDataImported(importedData);
+    setActiveTab('mapping');
+  };
+
+  // Validates the mapping and, if it holds, builds the per-zone series from it
+  const withMapping = (data: ImportedData, mapping: ColumnMapping): ImportedData => {
+    const mapped: ImportedData = { ...data, mapping, replay: null };
+    const validation = validateData(mapped);
+    mapped.errors = validation.errors;
+    if (validation.isValid) {
+      try {
+        mapped.replay = applyColumnMapping(data.id, data.filename, data.records, mapping);
+      } catch (err) {
+        mapped.errors.push(err instanceof Error ? err.message : 'The mapping produced no readings');
+      }
     }
+    mapped.validated = mapped.replay !== null;
+    if (data.skippedRows > 0) {
+      mapped.errors.push(`${data.skippedRows.toLocaleString()} rows skipped: field count did not match the header`);
+    }
+    return mapped;
   };
 
-  const parseCSV = (content: string): any[] => {
-    const lines = content.split('\n').filter(line => line.trim());
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-    
-    return lines.slice(1).map(line => {
-      const values = line.split(',').map(v => v.trim().replace(/"/g, ''));
-      const record: any = {};
-      
-      headers.forEach((header, index) => {
-        const value = values[index];
-        // Try to parse as number, otherwise keep as string
-        record[header] = isNaN(Number(value)) ? value : Number(value);
-      });
-      
-      return record;
-    });
+  const handleApplyMapping = (mapping: ColumnMapping) => {
+    if (!selectedFile) return;
+    const updated = withMapping(selectedFile, mapping);
+    setImportedFiles(prev => prev.map(file => file.id === updated.id ? updated : file));
+    setSelectedFile(updated);
+    onDataImported(updated);
+  };
+
+  const importSheet = () => {
+    if (!pendingWorkbook) return;
+    const { file, sheets, sheetIndex, headerRow, headerRows, remaining } = pendingWorkbook;
+    try {
+      finishImport(file, 'excel', { ...sheetRecords(sheets[sheetIndex], headerRow, headerRows), skippedRows: 0 });
+      setImportError(null);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : `Could not import ${file.name}`);
+      return;
+    }
+    setPendingWorkbook(null);
+    importFiles(remaining);
+  };
+
+  const skipWorkbook = () => {
+    const remaining = pendingWorkbook?.remaining ?? [];
+    setPendingWorkbook(null);
+    importFiles(remaining);
+  };
+
+  const cancelImport = () => {
+    importAbort.current?.abort();
+  };
+
+  const readRecords = async (file: File, format: 'csv' | 'json', signal: AbortSignal): Promise<ImportedTable> => {
+    switch (format) {
+      case 'csv':
+        return streamCsvFile(file, fraction => setUploadProgress(fraction * 100), signal);
+      case 'json': {
+        const parsed: unknown = JSON.parse(await file.text());
+        if (!Array.isArray(parsed)) {
+          throw new Error('JSON files must hold an array of records');
+        }
+        const first: Record<string, unknown> = parsed[0] ?? {};
+        const columnTypes = Object.fromEntries(Object.entries(first).map(([column, value]): [string, ColumnType] =>
+          [column, typeof value === 'number' ? 'number' : typeof value === 'boolean' ? 'boolean' : 'string']
+        ));
+        return { records: parsed, columnTypes, skippedRows: 0 };
+      }
+    }
   };
 
   const validateData = (data: ImportedData): { isValid: boolean; errors: string[] } => {
@@ -206,26 +297,7 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
       errors.push('No columns detected in the data');
     }
     
-    // Check for required columns
-    const hasTimestamp = data.columns.some(col => 
-      col.toLowerCase().includes('time') || 
-      col.toLowerCase().includes('date')
-    );
-    
-    if (!hasTimestamp) {
-      errors.push('No timestamp column detected');
-    }
-    
-    // Check for at least one sensor parameter
-    const hasSensorData = data.columns.some(col =>
-      sensorParameters.some(param => 
-        col.toLowerCase().includes(param.toLowerCase())
-      )
-    );
-    
-    if (!hasSensorData) {
-      errors.push('No recognized sensor parameters found');
-    }
+    errors.push(...mappingProblems(data.mapping));
     
     return {
       isValid: errors.length === 0,
@@ -234,105 +306,24 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
   };
 
   const analyzeData = async (data: ImportedData) => {
-    if (!data.validated) {
+    if (!data.validated || !data.replay) {
       alert('Please validate and map the data first');
       return;
     }
 
-    // Simulate advanced data analysis
-    const analysis: AnalysisResult = {
-      summary: {
-        totalRecords: data.recordCount,
-        dateRange: {
-          start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
-          end: new Date()
-        },
-        averageValues: {
-          displacement: 5.2,
-          strain: 150.8,
-          porePressure: 245.6,
-          vibration: 1.8
-        },
-        trends: {
-          displacement: 'increasing',
-          strain: 'stable',
-          porePressure: 'increasing',
-          vibration: 'decreasing'
-        },
-        anomalies: Math.floor(data.recordCount * 0.05), // 5% anomalies
-        quality: data.recordCount > 1000 ? 'excellent' : 
-                data.recordCount > 500 ? 'good' : 
-                data.recordCount > 100 ? 'fair' : 'poor'
-      },
-      insights: [
-        'Displacement values show an upward trend over the past week',
-        'Pore pressure spikes correlate with rainfall events',
-        'Vibration levels are within normal operational ranges',
-        'Data quality is consistent with minimal gaps'
-      ],
-      recommendations: [
-        'Monitor displacement trends closely as they approach warning thresholds',
-        'Consider installing additional pore pressure sensors in high-risk areas',
-        'Schedule equipment maintenance based on vibration analysis',
-        'Implement real-time alerting for displacement values above 15mm'
-      ],
-      visualizations: [] // Would contain chart data in real implementation
-    };
+    let analysis: DatasetAnalysis;
+    try {
+      analysis = analyzeDataset(data.replay);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Could not analyze the data');
+      return;
+    }
 
     setAnalysisResults(analysis);
-    onAnalysisComplete(analysis);
+    onAnalysisComplete?.(analysis);
     setActiveTab('analysis');
   };
 
-  const ColumnMapper = ({ data }: { data: ImportedData }) => {
-    const [mappings, setMappings] = useState<Record<string, string>>({});
-
-    const handleMapping = (column: string, parameter: string) => {
-      setMappings(prev => ({ ...prev, [column]: parameter }));
-    };
-
-    return (
-      <div className="space-y-4">
-        <h4 className="font-medium text-gray-900">Map Data Columns</h4>
-        <p className="text-sm text-gray-600">
-          Map your data columns to standard sensor parameters for analysis
-        </p>
-        
-        <div className="grid gap-4">
-          {data.columns.map((column) => (
-            <div key={column} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
-              <div>
-                <p className="font-medium">{column}</p>
-                <p className="text-sm text-gray-500">
-                  Sample: {data.preview[0]?.[column]?.toString() || 'N/A'}
-                </p>
-              </div>
-              <select
-                value={mappings[column] || ''}
-                onChange={(e) => handleMapping(column, e.target.value)}
-                className="w-48 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-navy-500"
-              >
-                <option value="">Select parameter...</option>
-                {sensorParameters.map(param => (
-                  <option key={param} value={param}>{param}</option>
-                ))}
-              </select>
-            </div>
-          ))}
-        </div>
-        
-        <motion.button
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          onClick={() => analyzeData(data)}
-          className="w-full bg-navy-600 text-white py-3 px-4 rounded-lg hover:bg-navy-700 font-medium"
-        >
-          Start Analysis
-        </motion.button>
-      </div>
-    );
-  };
-
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-200">
       {/* Header */}
@@ -396,12 +387,12 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                 Drop files here or click to browse
               </h4>
               <p className="text-gray-500 mb-4">
-                Supports CSV, JSON, and Excel formats up to 50MB
+                Supports CSV, TSV, JSON, and Excel formats; large CSV logger exports are read in chunks
               </p>
               <input
                 type="file"
                 multiple
-                accept=".csv,.json,.xlsx,.xls"
+                accept=".csv,.tsv,.txt,.json,.xlsx,.xls"
                 onChange={handleFileSelect}
                 className="hidden"
                 id="file-upload"
@@ -425,8 +416,16 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                   className="bg-gray-50 rounded-lg p-4"
                 >
                   <div className="flex items-center justify-between mb-2">
-                    <span className="text-sm font-medium">Uploading...</span>
-                    <span className="text-sm text-gray-500">{Math.round(uploadProgress)}%</span>
+                    <span className="text-sm font-medium">Importing...</span>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-sm text-gray-500">{Math.round(uploadProgress)}%</span>
+                      <button
+                        onClick={cancelImport}
+                        className="text-sm text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </div>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
@@ -438,11 +437,125 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
               )}
             </AnimatePresence>
 
+            {/* Workbook Options */}
+            {pendingWorkbook && (() => {
+              const sheet = pendingWorkbook.sheets[pendingWorkbook.sheetIndex];
+              const { headerRow, headerRows } = pendingWorkbook;
+              const previewRows = sheet.rows.slice(0, Math.max(12, headerRow + headerRows + 5));
+              const previewWidth = Math.min(8, previewRows.reduce((max, row) => Math.max(max, row.length), 0));
+              return (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h5 className="font-medium text-gray-900">{pendingWorkbook.file.name}</h5>
+                      <p className="text-sm text-gray-500">Choose the sheet and the row holding the column names</p>
+                    </div>
+                    <FileText className="w-5 h-5 text-gray-400" />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Sheet</label>
+                      <select
+                        value={pendingWorkbook.sheetIndex}
+                        onChange={(e) => {
+                          const sheetIndex = Number(e.target.value);
+                          setPendingWorkbook({
+                            ...pendingWorkbook,
+                            sheetIndex,
+                            ...suggestHeader(pendingWorkbook.sheets[sheetIndex].rows)
+                          });
+                        }}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+                      >
+                        {pendingWorkbook.sheets.map((option, index) => (
+                          <option key={option.name} value={index}>
+                            {option.name} ({option.rows.length.toLocaleString()} rows)
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Header row</label>
+                      <select
+                        value={headerRow}
+                        onChange={(e) => setPendingWorkbook({ ...pendingWorkbook, headerRow: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+                      >
+                        {previewRows.map((_, index) => (
+                          <option key={index} value={index}>Row {index + 1}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Header spans</label>
+                      <select
+                        value={headerRows}
+                        onChange={(e) => setPendingWorkbook({ ...pendingWorkbook, headerRows: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500"
+                      >
+                        {Array.from({ length: MAX_HEADER_ROWS }, (_, index) => index + 1).map(count => (
+                          <option key={count} value={count}>{count} {count === 1 ? 'row' : 'rows (merged group labels)'}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-xs">
+                      <tbody>
+                        {previewRows.map((row, index) => {
+                          const isHeader = index >= headerRow && index < headerRow + headerRows;
+                          return (
+                            <tr
+                              key={index}
+                              className={isHeader ? 'bg-navy-50 font-medium text-navy-900' : index < headerRow ? 'text-gray-400' : 'text-gray-700'}
+                            >
+                              <td className="px-2 py-1 text-gray-400">{index + 1}</td>
+                              {Array.from({ length: previewWidth }, (_, column) => (
+                                <td key={column} className="px-2 py-1 whitespace-nowrap">
+                                  {row[column] === null || row[column] === undefined ? '' : String(row[column])}
+                                </td>
+                              ))}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={skipWorkbook}
+                      className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Skip
+                    </button>
+                    <button
+                      onClick={importSheet}
+                      className="px-4 py-2 text-sm text-white bg-navy-600 rounded-lg hover:bg-navy-700"
+                    >
+                      Import sheet
+                    </button>
+                  </div>
+                </div>
+              );
+            })()}
+
+            {importError && (
+              <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+                <AlertCircle className="w-4 h-4" />
+                <span>{importError}</span>
+              </div>
+            )}
+
             {/* Format Guidelines */}
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
               <h5 className="font-medium text-blue-900 mb-2">Data Format Guidelines</h5>
               <div className="text-sm text-blue-800 space-y-1">
                 <p>• Include timestamp column (ISO format preferred)</p>
+                <p>• Comma, semicolon, tab and pipe delimiters are detected automatically</p>
+                <p>• For workbooks, pick the sheet and header row after choosing the file</p>
                 <p>• Use standard sensor parameter names</p>
                 <p>• Numeric values should be properly formatted</p>
                 <p>• Missing values should be empty or marked as 'null'</p>
@@ -452,7 +565,12 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
         )}
 
         {activeTab === 'mapping' && selectedFile && (
-          <ColumnMapper data={selectedFile} />
+          <ColumnMapper
+            key={selectedFile.id}
+            data={selectedFile}
+            onApply={handleApplyMapping}
+            onAnalyze={() => analyzeData(selectedFile)}
+          />
         )}
 
         {activeTab === 'analysis' && analysisResults && (
@@ -467,7 +585,11 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                 <p className="text-2xl font-bold text-gray-900">
                   {analysisResults.summary.totalRecords.toLocaleString()}
                 </p>
-                <p className="text-sm text-gray-600">Total Records</p>
+                <p className="text-sm text-gray-600">
+                  Readings from {analysisResults.summary.zones} zone(s),{' '}
+                  {analysisResults.summary.dateRange.start.toLocaleDateString()} to{' '}
+                  {analysisResults.summary.dateRange.end.toLocaleDateString()}
+                </p>
               </div>
 
               <div className="bg-gray-50 rounded-lg p-4">
@@ -476,9 +598,9 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                   <span className="font-medium">Anomalies</span>
                 </div>
                 <p className="text-2xl font-bold text-warning-600">
-                  {analysisResults.summary.anomalies}
+                  {analysisResults.summary.anomalies.toLocaleString()}
                 </p>
-                <p className="text-sm text-gray-600">Detected Issues</p>
+                <p className="text-sm text-gray-600">Outlying readings (Hampel filter)</p>
               </div>
 
               <div className="bg-gray-50 rounded-lg p-4">
@@ -486,13 +608,64 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                   <CheckCircle className="w-5 h-5 text-gray-600" />
                   <span className="font-medium">Quality</span>
                 </div>
-                <p className="text-2xl font-bold text-safe-600 capitalize">
+                <p className={`text-2xl font-bold capitalize ${
+                  analysisResults.summary.quality === 'poor' ? 'text-danger-600' :
+                  analysisResults.summary.quality === 'fair' ? 'text-warning-600' : 'text-safe-600'
+                }`}>
                   {analysisResults.summary.quality}
                 </p>
-                <p className="text-sm text-gray-600">Data Quality</p>
+                <p className="text-sm text-gray-600">
+                  {(analysisResults.summary.completeness * 100).toFixed(1)}% of expected values recorded
+                </p>
               </div>
             </div>
 
+            {/* Parameter Statistics */}
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Parameter</th>
+                    <th className="py-2 pr-4 font-medium">Mean ± SD</th>
+                    <th className="py-2 pr-4 font-medium">Median (IQR)</th>
+                    <th className="py-2 pr-4 font-medium">Range</th>
+                    <th className="py-2 pr-4 font-medium">Trend / day</th>
+                    <th className="py-2 pr-4 font-medium">Outliers</th>
+                    <th className="py-2 font-medium">Missing</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysisResults.parameters.map(stats => {
+                    const { label, unit } = SENSOR_PARAMETER_REGISTRY[stats.parameter];
+                    const format = (value: number) => (Number.isFinite(value) ? value.toFixed(2) : '–');
+                    return (
+                      <tr key={stats.parameter} className="border-b border-gray-100 text-gray-700">
+                        <td className="py-2 pr-4 font-medium text-gray-900">{label} ({unit})</td>
+                        <td className="py-2 pr-4">{format(stats.mean)} ± {format(stats.standardDeviation)}</td>
+                        <td className="py-2 pr-4">{format(stats.median)} ({format(stats.p25)}–{format(stats.p75)})</td>
+                        <td className="py-2 pr-4">{format(stats.min)} – {format(stats.max)}</td>
+                        <td className="py-2 pr-4">
+                          {stats.trend ? (
+                            <span className={stats.trend.direction === 'stable' ? 'text-gray-500' : 'font-medium text-gray-900'}>
+                              {stats.trend.slopePerDay >= 0 ? '+' : ''}{stats.trend.slopePerDay.toPrecision(3)}{' '}
+                              <span className="text-xs text-gray-500">{formatPValue(stats.trend.pValue)}</span>
+                            </span>
+                          ) : '–'}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {stats.anomalies.toLocaleString()}
+                          {stats.outOfRange > 0 && (
+                            <span className="text-xs text-danger-600"> +{stats.outOfRange.toLocaleString()} out of range</span>
+                          )}
+                        </td>
+                        <td className="py-2">{stats.missing.toLocaleString()}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
             {/* Insights */}
             <div className="bg-gray-50 rounded-lg p-4">
               <h5 className="font-medium text-gray-900 mb-3">Key Insights</h5>
@@ -547,6 +720,11 @@ export const DataImportAnalysis: React.FC<DataImportAnalysisProps> = ({
                             <span>{file.recordCount.toLocaleString()} records</span>
                             <span>{(file.size / 1024).toFixed(1)} KB</span>
                             <span>{file.uploadDate.toLocaleDateString()}</span>
+                            {file.replay && Object.keys(file.replay.sourceUnits).length > 0 && (
+                              <span title="Units as recorded in the file, before conversion">
+                                Units: {Object.values(file.replay.sourceUnits).join(', ')}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
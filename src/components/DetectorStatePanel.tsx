@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Database, Download, Upload, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface DetectorStatePanelProps {
+  lastSavedAt: Date | null;
+  onExport: () => string;
+  onImport: (json: string) => void;
+  onClear: () => Promise<void>;
+}
+
+export const DetectorStatePanel: React.FC<DetectorStatePanelProps> = ({
+  lastSavedAt,
+  onExport,
+  onImport,
+  onClear
+}) => {
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([onExport()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `detector-state-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onImport(await file.text());
+      setMessage({ type: 'success', text: `Restored detector state from ${file.name}` });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not read detector state' });
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await onClear();
+      setMessage({ type: 'success', text: 'Saved detector state cleared; the current session is unchanged' });
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Could not clear saved state' });
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Database className="w-5 h-5 text-navy-600" />
+          <div>
+            <h3 className="font-semibold text-gray-900">Detector State</h3>
+            <p className="text-xs text-gray-500">
+              {lastSavedAt ? `Saved in this browser at ${lastSavedAt.toLocaleTimeString()}` : 'Not saved yet this session'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleExport}
+            className="inline-flex items-center px-3 py-2 text-sm bg-navy-600 text-white rounded-lg hover:bg-navy-700"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Export
+          </button>
+          <input
+            type="file"
+            accept=".json"
+            onChange={handleImport}
+            className="hidden"
+            id="detector-state-upload"
+          />
+          <label
+            htmlFor="detector-state-upload"
+            className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer"
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </label>
+          <button
+            onClick={handleClear}
+            className="inline-flex items-center px-3 py-2 text-sm border border-gray-300 text-danger-600 rounded-lg hover:bg-danger-50"
+          >
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`flex items-center space-x-2 px-3 py-2 rounded text-sm ${
+          message.type === 'success'
+            ? 'bg-safe-50 border border-safe-200 text-safe-700'
+            : 'bg-danger-50 border border-danger-200 text-danger-700'
+        }`}>
+          {message.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+    </div>
+  );
+};
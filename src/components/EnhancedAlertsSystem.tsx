@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { AlertTriangle, Bell, CheckCircle, Clock, MapPin, Phone, Mail, Users, AlertCircle, Zap } from 'lucide-react';
 
-interface Alert {
+export interface Alert {
   id: string;
   zone_id: string;
   zone_name: string;
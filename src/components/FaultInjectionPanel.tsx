@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bug, AlertCircle, X } from 'lucide-react';
+import { SENSOR_FAULT_MODES, SENSOR_FAULT_MODE_KEYS, describeFault } from '../utils/sensorFaults';
+import type { InjectedFault, SensorFaultMode } from '../utils/sensorFaults';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+import { formatScenarioTime } from '../utils/scenarioScript';
+import type { SimulatedZone } from '../utils/simulatedZones';
+
+interface FaultInjectionPanelProps {
+  zones: SimulatedZone[];
+  faults: InjectedFault[];
+  elapsedMs: number;
+  onInject: (zoneId: string, mode: SensorFaultMode, parameter: SensorParameter | null, magnitude: number) => void;
+  onClear: (faultId: string) => void;
+}
+
+export const FaultInjectionPanel: React.FC<FaultInjectionPanelProps> = ({
+  zones,
+  faults,
+  elapsedMs,
+  onInject,
+  onClear
+}) => {
+  const [selectedZoneId, setZoneId] = useState(zones[0]?.zoneId ?? '');
+  const [mode, setMode] = useState<SensorFaultMode>('dropout');
+  const [parameter, setParameter] = useState<SensorParameter | ''>('');
+  const [magnitude, setMagnitude] = useState(SENSOR_FAULT_MODES.dropout.defaultMagnitude);
+  const [error, setError] = useState<string | null>(null);
+
+  const zoneId = zones.some(zone => zone.zoneId === selectedZoneId) ? selectedZoneId : zones[0]?.zoneId ?? '';
+  const definition = SENSOR_FAULT_MODES[mode];
+  const active = faults.filter(fault => fault.endMs === null || fault.endMs > elapsedMs);
+  const ended = faults.length - active.length;
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fault injection failed');
+    }
+  };
+
+  const changeMode = (next: SensorFaultMode) => {
+    setMode(next);
+    setMagnitude(SENSOR_FAULT_MODES[next].defaultMagnitude);
+    if (SENSOR_FAULT_MODES[next].zoneWide) setParameter('');
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Bug className="w-5 h-5 text-navy-600" />
+        <div>
+          <h3 className="font-semibold text-gray-900">Sensor Faults</h3>
+          <p className="text-xs text-gray-500">Inject instrument malfunctions; readings carry the faults as ground truth</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Zone</label>
+          <select
+            value={zoneId}
+            onChange={(e) => setZoneId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+          >
+            {zones.map(zone => (
+              <option key={zone.zoneId} value={zone.zoneId}>{zone.zoneName}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Fault</label>
+          <select
+            value={mode}
+            onChange={(e) => changeMode(e.target.value as SensorFaultMode)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+          >
+            {SENSOR_FAULT_MODE_KEYS.map(key => (
+              <option key={key} value={key}>{SENSOR_FAULT_MODES[key].label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Parameter</label>
+          <select
+            value={parameter}
+            disabled={definition.zoneWide}
+            onChange={(e) => setParameter(e.target.value as SensorParameter | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent disabled:bg-gray-100"
+          >
+            <option value="">{definition.zoneWide ? 'Whole logger' : 'All parameters'}</option>
+            {!definition.zoneWide && SENSOR_PARAMETERS.map(key => (
+              <option key={key} value={key}>{SENSOR_PARAMETER_REGISTRY[key].label}</option>
+            ))}
+          </select>
+        </div>
+        {definition.magnitudeLabel && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {definition.magnitudeLabel} ({definition.unit})
+            </label>
+            <input
+              type="number"
+              step="any"
+              value={magnitude}
+              onChange={(e) => setMagnitude(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">{definition.description}</p>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          disabled={!zoneId}
+          onClick={() => run(() => onInject(zoneId, mode, parameter || null, magnitude))}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-warning-600 text-white hover:bg-warning-700 disabled:opacity-50"
+        >
+          Inject fault
+        </motion.button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Active faults</h4>
+        {active.length === 0 ? (
+          <p className="text-sm text-gray-500">No faults injected</p>
+        ) : (
+          <div className="space-y-1">
+            {active.map(fault => (
+              <div key={fault.faultId} className="flex items-center space-x-3 text-sm">
+                <span className="w-20 font-mono text-gray-600">{formatScenarioTime(fault.startMs)}</span>
+                <span className="flex-1 text-gray-800">{describeFault(fault)}</span>
+                {fault.source === 'script' ? (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-navy-50 text-navy-600">script</span>
+                ) : (
+                  <button
+                    onClick={() => run(() => onClear(fault.faultId))}
+                    title="Clear fault"
+                    className="p-1 rounded text-gray-500 hover:bg-gray-100"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {ended > 0 && <p className="text-xs text-gray-500 mt-2">{ended} earlier fault{ended === 1 ? '' : 's'} cleared this run</p>}
+      </div>
+
+      {error && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Wrench } from 'lucide-react';
+import type { SensorHealthReport } from '../utils/sensorHealth';
+
+interface InstrumentFaultNoticesProps {
+  sensorHealth: Record<string, SensorHealthReport>;
+  zoneNames?: Record<string, string>;
+}
+
+// Instrument problems are shown apart from rockfall alerts: they call for a
+// technician, not an evacuation.
+export const InstrumentFaultNotices: React.FC<InstrumentFaultNoticesProps> = ({ sensorHealth, zoneNames }) => {
+  const zonesWithFaults = Object.entries(sensorHealth).filter(([, report]) => report.faults.length > 0);
+
+  if (zonesWithFaults.length === 0) {
+    return <p className="text-sm text-gray-500">All instruments reporting normally</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {zonesWithFaults.map(([zoneId, report]) => (
+        <div key={zoneId} className="p-3 rounded-lg border border-gray-300 bg-gray-50">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center space-x-2">
+              <Wrench className="w-4 h-4 text-gray-600" />
+              <span className="font-medium text-gray-900">Instrument fault — {zoneNames?.[zoneId] ?? zoneId}</span>
+            </div>
+            <span className="text-xs text-gray-500">
+              {Math.round(report.score * 100)}% data usable
+            </span>
+          </div>
+          <ul className="text-sm space-y-0.5">
+            {report.faults.map(fault => (
+              <li
+                key={`${fault.sensorId ?? zoneId}:${fault.parameter}:${fault.status}`}
+                className={fault.status === 'suspect' ? 'text-gray-500' : 'text-gray-800'}
+              >
+                {fault.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Dices, AlertCircle, Download } from 'lucide-react';
+import { useMonteCarloSimulation } from '../hooks/useMonteCarloSimulation';
+import { DEFAULT_MONTE_CARLO_CONFIG, monteCarloReportJson } from '../utils/monteCarlo';
+import type { MonteCarloConfig } from '../utils/monteCarlo';
+import { parseDetectorSnapshot } from '../utils/detectorSnapshot';
+import { randomSeed } from '../utils/random';
+import type { SimulatedZone } from '../utils/simulatedZones';
+
+interface MonteCarloPanelProps {
+  zones: SimulatedZone[];
+  exportDetectorState: () => string;
+}
+
+type Settings = Omit<MonteCarloConfig, 'zones' | 'detectorSnapshot'>;
+type NumericSetting = Exclude<keyof Settings, 'quality' | 'warningLevel'>;
+
+const NUMERIC_FIELDS: Array<{ key: NumericSetting; label: string; scale?: number }> = [
+  { key: 'runs', label: 'Runs' },
+  { key: 'runWeeks', label: 'Weeks per run' },
+  { key: 'sampleMinutes', label: 'Sample interval (min)' },
+  { key: 'baseSeed', label: 'Base seed' },
+  { key: 'failureProbability', label: 'Zones failing per run (%)', scale: 100 },
+  { key: 'alarmHorizonHours', label: 'Alarm horizon (h)' },
+  { key: 'surgesPerWeek', label: 'Creep surges / zone-week' },
+  { key: 'stormsPerWeek', label: 'Storms / zone-week' },
+  { key: 'blastsPerWeek', label: 'Blasts / zone-week' },
+  { key: 'faultsPerWeek', label: 'Sensor faults / zone-week' }
+];
+
+const formatHours = (hours: number) => `${hours.toFixed(1)} h`;
+
+export const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ zones, exportDetectorState }) => {
+  const { progress, summary, isRunning, error, start, cancel } = useMonteCarloSimulation();
+  const [settings, setSettings] = useState<Settings>(() => ({ ...DEFAULT_MONTE_CARLO_CONFIG, baseSeed: randomSeed() }));
+  const [useLiveTuning, setUseLiveTuning] = useState(true);
+  const [lastConfig, setLastConfig] = useState<MonteCarloConfig | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleRun = () => {
+    try {
+      const config: MonteCarloConfig = {
+        ...settings,
+        zones,
+        detectorSnapshot: useLiveTuning ? parseDetectorSnapshot(JSON.parse(exportDetectorState())) : null
+      };
+      start(config);
+      setLastConfig(config);
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not start the Monte Carlo runs');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!lastConfig || !summary) return;
+    const blob = new Blob([monteCarloReportJson(lastConfig, summary)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `monte-carlo-report-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const shownError = formError ?? error;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-3">
+        <div className="p-2 bg-navy-100 rounded-lg">
+          <Dices className="w-5 h-5 text-navy-600" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Monte Carlo Evaluation</h2>
+          <p className="text-sm text-gray-600">
+            Simulate many randomized weeks of every zone off-screen and score the detector's warnings against the
+            failures the simulator produced
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+        {NUMERIC_FIELDS.map(({ key, label, scale = 1 }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={settings[key] * scale}
+              disabled={isRunning}
+              onChange={(e) => setSettings({ ...settings, [key]: Number(e.target.value) / scale })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent disabled:bg-gray-100"
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Data quality</label>
+          <select
+            value={settings.quality}
+            disabled={isRunning}
+            onChange={(e) => setSettings({ ...settings, quality: e.target.value as Settings['quality'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 disabled:bg-gray-100"
+          >
+            <option value="high">High</option>
+            <option value="medium">Medium</option>
+            <option value="low">Low</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Counts as a warning</label>
+          <select
+            value={settings.warningLevel}
+            disabled={isRunning}
+            onChange={(e) => setSettings({ ...settings, warningLevel: e.target.value as Settings['warningLevel'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 disabled:bg-gray-100"
+          >
+            <option value="medium">Medium or above</option>
+            <option value="high">High or above</option>
+            <option value="critical">Critical only</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={useLiveTuning}
+            disabled={isRunning}
+            onChange={(e) => setUseLiveTuning(e.target.checked)}
+          />
+          <span>Start each run's detector from the live detector's tuning</span>
+        </label>
+        <div className="flex items-center space-x-2">
+          {summary && !isRunning && (
+            <button
+              onClick={handleDownload}
+              className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Download className="w-4 h-4" />
+              <span>Download report</span>
+            </button>
+          )}
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={isRunning ? cancel : handleRun}
+            disabled={zones.length === 0}
+            className={`px-4 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50 ${
+              isRunning ? 'bg-gray-700 hover:bg-gray-800' : 'bg-navy-600 hover:bg-navy-700'
+            }`}
+          >
+            {isRunning ? 'Cancel' : `Run ${settings.runs} × ${zones.length} zones`}
+          </motion.button>
+        </div>
+      </div>
+
+      {progress && (
+        <div>
+          <div className="flex justify-between text-sm text-gray-600 mb-1">
+            <span>{isRunning ? 'Simulating…' : progress.completed < progress.total ? 'Stopped' : 'Complete'}</span>
+            <span>{progress.completed} / {progress.total} runs</span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-navy-600 h-2 rounded-full transition-all"
+              style={{ width: `${progress.total > 0 ? progress.completed / progress.total * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {shownError && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{shownError}</span>
+        </div>
+      )}
+
+      {summary && (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Simulated</p>
+              <p className="text-2xl font-bold text-gray-900">{(summary.simulatedHours / 168).toFixed(0)} weeks</p>
+              <p className="text-xs text-gray-500">{Math.round(summary.zoneHours).toLocaleString()} zone-hours</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Slope Failures</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.events}</p>
+              <p className="text-xs text-gray-500">{summary.detectedEvents} warned in advance</p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">Missed Events</p>
+              <p className={`text-2xl font-bold ${summary.missedEvents > 0 ? 'text-danger-600' : 'text-safe-600'}`}>
+                {summary.missedEvents}
+              </p>
+              <p className="text-xs text-gray-500">
+                {summary.missedEventRate === null ? 'No failures simulated' : `${(summary.missedEventRate * 100).toFixed(1)}% of failures`}
+              </p>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm text-gray-600">False Alarms</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.falseAlarmsPer1000Hours.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">per 1000 zone-hours ({summary.falseAlarms} in total)</p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Warning Lead Times</h3>
+            {summary.leadTime ? (
+              <>
+                <div className="grid grid-cols-3 lg:grid-cols-6 gap-3 mb-3 text-sm">
+                  {([
+                    ['Shortest', summary.leadTime.min],
+                    ['P10', summary.leadTime.p10],
+                    ['Median', summary.leadTime.median],
+                    ['Mean', summary.leadTime.mean],
+                    ['P90', summary.leadTime.p90],
+                    ['Longest', summary.leadTime.max]
+                  ] as const).map(([label, hours]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-2">
+                      <p className="text-xs text-gray-500">{label}</p>
+                      <p className="font-semibold text-gray-900">{formatHours(hours)}</p>
+                    </div>
+                  ))}
+                </div>
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={summary.leadTimeHistogram.map(bin => ({ ...bin, bin: `${bin.fromHours}–${bin.toHours} h` }))}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="bin" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="count" fill="#6366f1" name="Failures" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No failure was warned of in advance</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,410 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpen, Plus, Trash2, AlertTriangle, CheckCircle, RotateCcw } from 'lucide-react';
+import {
+  PATTERN_REPORT_THRESHOLD,
+  PRECURSOR_METRICS,
+  PRECURSOR_OPERATORS,
+  validatePatternLibrary
+} from '../utils/precursorPatterns';
+import type {
+  Precursor,
+  PrecursorCondition,
+  PrecursorMetric,
+  PrecursorOperator,
+  PrecursorPattern
+} from '../utils/precursorPatterns';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+
+interface PatternLibraryEditorProps {
+  patterns: PrecursorPattern[];
+  onSave: (patterns: PrecursorPattern[]) => void;
+  onReset: () => void;
+}
+
+const NEW_CONDITION: PrecursorCondition = { parameter: 'displacement', metric: 'value', operator: '>', value: 0 };
+
+const parseOptional = (raw: string): number | undefined => raw.trim() === '' ? undefined : Number(raw);
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent';
+
+export const PatternLibraryEditor: React.FC<PatternLibraryEditorProps> = ({ patterns, onSave, onReset }) => {
+  const [draft, setDraft] = useState<PrecursorPattern[]>(() => structuredClone(patterns));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Pick up restores and resets from the detector unless there are unsaved edits
+  useEffect(() => {
+    if (!isDirty) setDraft(structuredClone(patterns));
+  }, [patterns, isDirty]);
+
+  const warnings = useMemo(() => validatePatternLibrary(draft), [draft]);
+  const selected = draft[Math.min(selectedIndex, draft.length - 1)];
+  const selectedWarnings = warnings.filter(w => w.pattern === selected?.pattern);
+
+  const updatePattern = (update: (pattern: PrecursorPattern) => PrecursorPattern) => {
+    setDraft(current => current.map((pattern, i) => i === selectedIndex ? update(pattern) : pattern));
+    setIsDirty(true);
+  };
+
+  const updatePrecursor = (precursorIndex: number, update: (precursor: Precursor) => Precursor) => {
+    updatePattern(pattern => ({
+      ...pattern,
+      precursors: pattern.precursors.map((precursor, i) => i === precursorIndex ? update(precursor) : precursor)
+    }));
+  };
+
+  const updateCondition = (precursorIndex: number, conditionIndex: number, changes: Partial<PrecursorCondition>) => {
+    updatePrecursor(precursorIndex, precursor => ({
+      ...precursor,
+      conditions: precursor.conditions.map((condition, i) => i === conditionIndex ? { ...condition, ...changes } : condition)
+    }));
+  };
+
+  const addPattern = () => {
+    setDraft(current => [
+      ...current,
+      { pattern: `Custom_Pattern_${current.length + 1}`, frequency: 0.1, severity: 0.5, duration: 24, precursors: [] }
+    ]);
+    setSelectedIndex(draft.length);
+    setIsDirty(true);
+  };
+
+  const removePattern = () => {
+    setDraft(current => current.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(index => Math.max(0, index - 1));
+    setIsDirty(true);
+  };
+
+  const addPrecursor = () => {
+    updatePattern(pattern => ({
+      ...pattern,
+      precursors: [
+        ...pattern.precursors,
+        { id: `precursor_${pattern.precursors.length + 1}`, label: 'New precursor', weight: 0.2, conditions: [{ ...NEW_CONDITION }] }
+      ]
+    }));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    setIsDirty(false);
+  };
+
+  const handleReset = () => {
+    onReset();
+    setSelectedIndex(0);
+    setIsDirty(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-navy-100 rounded-lg">
+            <BookOpen className="w-5 h-5 text-navy-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Precursor Patterns</h2>
+            <p className="text-sm text-gray-600">
+              Failure patterns the detector matches; a pattern is reported once its matched weights exceed {PATTERN_REPORT_THRESHOLD}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={handleReset}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset to defaults</span>
+          </button>
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-navy-600 text-white hover:bg-navy-700 disabled:bg-gray-300 disabled:text-gray-500"
+          >
+            Apply to detector
+          </motion.button>
+        </div>
+      </div>
+
+      {/* Validation */}
+      {warnings.length === 0 ? (
+        <div className="flex items-center space-x-2 bg-safe-50 border border-safe-200 text-safe-700 px-3 py-2 rounded text-sm">
+          <CheckCircle className="w-4 h-4" />
+          <span>Every precursor can match</span>
+        </div>
+      ) : (
+        <div className="bg-warning-50 border border-warning-200 text-warning-800 px-3 py-2 rounded text-sm space-y-1">
+          {warnings.map((warning, i) => (
+            <div key={i} className="flex items-start space-x-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {warning.pattern || '(unnamed)'}{warning.precursorId ? ` / ${warning.precursorId}` : ''}: {warning.message}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Pattern list */}
+        <div className="space-y-2">
+          {draft.map((pattern, i) => (
+            <button
+              key={i}
+              onClick={() => setSelectedIndex(i)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm border-2 ${
+                i === selectedIndex ? 'bg-navy-50 border-navy-200 text-navy-700' : 'border-transparent text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <span className="font-medium">{pattern.pattern || '(unnamed)'}</span>
+              <span className="block text-xs text-gray-500">
+                {pattern.precursors.length} precursors
+                {warnings.some(w => w.pattern === pattern.pattern) && ' · needs attention'}
+              </span>
+            </button>
+          ))}
+          <button
+            onClick={addPattern}
+            className="w-full flex items-center justify-center space-x-1 px-3 py-2 text-sm text-navy-700 border border-dashed border-navy-300 rounded-lg hover:bg-navy-50"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add pattern</span>
+          </button>
+        </div>
+
+        {/* Pattern detail */}
+        {selected ? (
+          <div className="lg:col-span-3 space-y-4">
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+              <div className="col-span-2">
+                <label className="block text-xs font-medium text-gray-600 mb-1">Name</label>
+                <input
+                  className={inputClass}
+                  value={selected.pattern}
+                  onChange={(e) => updatePattern(p => ({ ...p, pattern: e.target.value }))}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Severity (0-1)</label>
+                <input
+                  type="number" step="0.05" min="0" max="1"
+                  className={inputClass}
+                  value={selected.severity}
+                  onChange={(e) => updatePattern(p => ({ ...p, severity: Number(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Frequency (0-1)</label>
+                <input
+                  type="number" step="0.05" min="0" max="1"
+                  className={inputClass}
+                  value={selected.frequency}
+                  onChange={(e) => updatePattern(p => ({ ...p, frequency: Number(e.target.value) }))}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Duration (h)</label>
+                <input
+                  type="number" min="0"
+                  className={inputClass}
+                  value={selected.duration}
+                  onChange={(e) => updatePattern(p => ({ ...p, duration: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+
+            {selected.precursors.map((precursor, precursorIndex) => (
+              <div
+                key={precursorIndex}
+                className={`border rounded-lg p-3 space-y-2 ${
+                  selectedWarnings.some(w => w.precursorId === precursor.id) ? 'border-warning-300' : 'border-gray-200'
+                }`}
+              >
+                <div className="grid grid-cols-2 lg:grid-cols-6 gap-2 items-end">
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Id</label>
+                    <input
+                      className={inputClass}
+                      value={precursor.id}
+                      onChange={(e) => updatePrecursor(precursorIndex, p => ({ ...p, id: e.target.value }))}
+                    />
+                  </div>
+                  <div className="lg:col-span-2">
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Label</label>
+                    <input
+                      className={inputClass}
+                      value={precursor.label}
+                      onChange={(e) => updatePrecursor(precursorIndex, p => ({ ...p, label: e.target.value }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Weight</label>
+                    <input
+                      type="number" step="0.05"
+                      className={inputClass}
+                      value={precursor.weight}
+                      onChange={(e) => updatePrecursor(precursorIndex, p => ({ ...p, weight: Number(e.target.value) }))}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Min matches</label>
+                    <input
+                      type="number" min="1"
+                      placeholder="all"
+                      className={inputClass}
+                      value={precursor.minMatches ?? ''}
+                      onChange={(e) => updatePrecursor(precursorIndex, p => ({ ...p, minMatches: parseOptional(e.target.value) }))}
+                    />
+                  </div>
+                  <button
+                    onClick={() => updatePattern(p => ({ ...p, precursors: p.precursors.filter((_, i) => i !== precursorIndex) }))}
+                    className="flex items-center justify-center px-2 py-1 text-sm text-danger-600 hover:bg-danger-50 rounded"
+                    title="Remove precursor"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 text-left">
+                      <th className="font-medium pr-2">Parameter</th>
+                      <th className="font-medium pr-2">Metric</th>
+                      <th className="font-medium pr-2">Operator</th>
+                      <th className="font-medium pr-2">Value</th>
+                      <th className="font-medium pr-2">Upper</th>
+                      <th className="font-medium pr-2">Window (h)</th>
+                      <th className="font-medium pr-2">Held for (h)</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {precursor.conditions.map((condition, conditionIndex) => (
+                      <tr key={conditionIndex}>
+                        <td className="pr-2 py-1">
+                          <select
+                            className={inputClass}
+                            value={condition.parameter}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { parameter: e.target.value as SensorParameter })}
+                          >
+                            {SENSOR_PARAMETERS.map(parameter => (
+                              <option key={parameter} value={parameter}>
+                                {SENSOR_PARAMETER_REGISTRY[parameter].label} ({SENSOR_PARAMETER_REGISTRY[parameter].unit})
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="pr-2 py-1">
+                          <select
+                            className={inputClass}
+                            value={condition.metric}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { metric: e.target.value as PrecursorMetric })}
+                          >
+                            {PRECURSOR_METRICS.map(metric => (
+                              <option key={metric} value={metric}>{metric}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="pr-2 py-1">
+                          <select
+                            className={inputClass}
+                            value={condition.operator}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { operator: e.target.value as PrecursorOperator })}
+                          >
+                            {PRECURSOR_OPERATORS.map(operator => (
+                              <option key={operator} value={operator}>{operator}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="pr-2 py-1">
+                          <input
+                            type="number"
+                            className={inputClass}
+                            value={condition.value}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { value: Number(e.target.value) })}
+                          />
+                        </td>
+                        <td className="pr-2 py-1">
+                          <input
+                            type="number"
+                            disabled={condition.operator !== 'between'}
+                            className={`${inputClass} disabled:bg-gray-100`}
+                            value={condition.upper ?? ''}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { upper: parseOptional(e.target.value) })}
+                          />
+                        </td>
+                        <td className="pr-2 py-1">
+                          <input
+                            type="number" min="0"
+                            disabled={condition.metric === 'value'}
+                            className={`${inputClass} disabled:bg-gray-100`}
+                            value={condition.windowHours ?? ''}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { windowHours: parseOptional(e.target.value) })}
+                          />
+                        </td>
+                        <td className="pr-2 py-1">
+                          <input
+                            type="number" min="0"
+                            className={inputClass}
+                            value={condition.durationHours ?? ''}
+                            onChange={(e) => updateCondition(precursorIndex, conditionIndex, { durationHours: parseOptional(e.target.value) })}
+                          />
+                        </td>
+                        <td className="py-1">
+                          <button
+                            onClick={() => updatePrecursor(precursorIndex, p => ({
+                              ...p,
+                              conditions: p.conditions.filter((_, i) => i !== conditionIndex)
+                            }))}
+                            className="p-1 text-gray-400 hover:text-danger-600"
+                            title="Remove condition"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <button
+                  onClick={() => updatePrecursor(precursorIndex, p => ({ ...p, conditions: [...p.conditions, { ...NEW_CONDITION }] }))}
+                  className="flex items-center space-x-1 text-xs text-navy-700 hover:underline"
+                >
+                  <Plus className="w-3 h-3" />
+                  <span>Add condition</span>
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={addPrecursor}
+                className="flex items-center space-x-1 px-3 py-2 text-sm text-navy-700 border border-dashed border-navy-300 rounded-lg hover:bg-navy-50"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add precursor</span>
+              </button>
+              <button
+                onClick={removePattern}
+                className="flex items-center space-x-1 px-3 py-2 text-sm text-danger-600 hover:bg-danger-50 rounded-lg"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Remove pattern</span>
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className="lg:col-span-3 text-sm text-gray-500">
+            The library is empty; the pattern-matching model will not report any patterns.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -4,11 +4,12 @@ import { PieChart, Pie, Cell } from 'recharts';
 interface RiskGaugeProps {
   value: number; // 0-10
   size?: 'small' | 'large';
+  band?: { low: number; high: number }; // p10-p90 on the same 0-10 scale
 }
 
 const COLORS = ['#22c55e', '#fbbf24', '#f59e0b', '#ef4444'];
 
-export const RiskGauge: React.FC<RiskGaugeProps> = ({ value, size = 'large' }) => {
+export const RiskGauge: React.FC<RiskGaugeProps> = ({ value, size = 'large', band }) => {
   // Map value 0-10 to 0-100
   const percent = Math.min(Math.max(value * 10, 0), 100);
   const gaugeData = [
@@ -22,6 +23,15 @@ export const RiskGauge: React.FC<RiskGaugeProps> = ({ value, size = 'large' }) =
   const innerRadius = size === 'small' ? 18 : 32;
   const outerRadius = size === 'small' ? 28 : 48;
 
+  // Uncertainty band as a thin ring just outside the gauge
+  const bandLow = band ? Math.min(Math.max(band.low * 10, 0), 100) : 0;
+  const bandHigh = band ? Math.min(Math.max(band.high * 10, bandLow), 100) : 0;
+  const bandData = [
+    { value: bandLow },
+    { value: bandHigh - bandLow },
+    { value: 100 - bandHigh }
+  ];
+
   // Color by risk
   let color = COLORS[0];
   if (value >= 8) color = COLORS[3];
@@ -44,9 +54,29 @@ export const RiskGauge: React.FC<RiskGaugeProps> = ({ value, size = 'large' }) =
           <Cell key="gauge" fill={color} />
           <Cell key="rest" fill="#e5e7eb" />
         </Pie>
+        {band && (
+          <Pie
+            data={bandData}
+            startAngle={180}
+            endAngle={0}
+            cx={cx}
+            cy={cy}
+            innerRadius={outerRadius + 2}
+            outerRadius={outerRadius + (size === 'small' ? 4 : 6)}
+            dataKey="value"
+            isAnimationActive={false}
+          >
+            <Cell key="below" fill="transparent" />
+            <Cell key="band" fill="#475569" />
+            <Cell key="above" fill="transparent" />
+          </Pie>
+        )}
       </PieChart>
       <span className="text-lg font-bold mt-2" style={{ color }}>{value.toFixed(1)}</span>
       <span className="text-xs text-gray-500">Risk</span>
+      {band && (
+        <span className="text-xs text-gray-500">p10–p90: {band.low.toFixed(1)}–{band.high.toFixed(1)}</span>
+      )}
     </div>
   );
 };
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ScrollText, Play, Pause, Upload, AlertCircle, X, SkipBack } from 'lucide-react';
+import {
+  SCENARIO_SCRIPT_EXAMPLES,
+  formatScenarioTime,
+  parseScenarioScript,
+  scenarioDuration,
+  scenarioEventEnd
+} from '../utils/scenarioScript';
+import type { ScenarioLogEntry, ScenarioScript } from '../utils/scenarioScript';
+
+interface ScenarioScriptPanelProps {
+  script: ScenarioScript | null;
+  elapsedMs: number;
+  log: ScenarioLogEntry[];
+  isRunning: boolean;
+  onLoad: (script: ScenarioScript | null) => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (elapsedMs: number) => void;
+}
+
+const EVENT_COLORS = {
+  rainstorm: 'bg-navy-500',
+  blast: 'bg-warning-500',
+  creep: 'bg-danger-500',
+  fault: 'bg-gray-500'
+};
+
+export const ScenarioScriptPanel: React.FC<ScenarioScriptPanelProps> = ({
+  script,
+  elapsedMs,
+  log,
+  isRunning,
+  onLoad,
+  onPlay,
+  onPause,
+  onSeek
+}) => {
+  const [source, setSource] = useState(SCENARIO_SCRIPT_EXAMPLES[0].json);
+  const [error, setError] = useState<string | null>(null);
+  const [seekDraft, setSeekDraft] = useState<number | null>(null);
+
+  // A pending seek belongs to the script it was made on
+  useEffect(() => {
+    setSeekDraft(null);
+  }, [script]);
+
+  const duration = script ? scenarioDuration(script) : 0;
+  const position = seekDraft ?? Math.min(elapsedMs, duration);
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scenario action failed');
+    }
+  };
+
+  const handleLoad = () => run(() => onLoad(parseScenarioScript(source)));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      setSource(text);
+      run(() => onLoad(parseScenarioScript(text)));
+    });
+  };
+
+  const commitSeek = () => {
+    if (seekDraft === null) return;
+    const target = seekDraft;
+    setSeekDraft(null);
+    run(() => onSeek(target));
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ScrollText className="w-5 h-5 text-navy-600" />
+          <div>
+            <h3 className="font-semibold text-gray-900">Scenario Script</h3>
+            <p className="text-xs text-gray-500">Timed storms, blasts, creep stages and sensor faults injected into the simulation</p>
+          </div>
+        </div>
+        {script && (
+          <button
+            onClick={() => run(() => onLoad(null))}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <X className="w-4 h-4" />
+            <span>Unload</span>
+          </button>
+        )}
+      </div>
+
+      {!script ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              onChange={(e) => setSource(SCENARIO_SCRIPT_EXAMPLES[Number(e.target.value)].json)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+            >
+              {SCENARIO_SCRIPT_EXAMPLES.map((example, i) => (
+                <option key={example.name} value={i}>Example: {example.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              <span>Open JSON file</span>
+              <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+            </label>
+          </div>
+          <textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            rows={12}
+            spellCheck={false}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-xs font-mono focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+          />
+          <motion.button
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleLoad}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-navy-600 text-white hover:bg-navy-700"
+          >
+            Load script
+          </motion.button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <p className="font-medium text-gray-900">{script.name}</p>
+            {script.description && <p className="text-sm text-gray-600">{script.description}</p>}
+          </div>
+
+          {/* Timeline */}
+          <div className="space-y-2">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => run(() => onSeek(0))}
+                title="Back to start"
+                className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+              >
+                <SkipBack className="w-4 h-4" />
+              </button>
+              <button
+                onClick={isRunning ? onPause : onPlay}
+                className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-sm font-medium text-white ${
+                  isRunning ? 'bg-warning-600 hover:bg-warning-700' : 'bg-safe-600 hover:bg-safe-700'
+                }`}
+              >
+                {isRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                <span>{isRunning ? 'Pause' : 'Play'}</span>
+              </button>
+              <span className="text-sm font-mono text-gray-700">
+                {formatScenarioTime(position)} / {formatScenarioTime(duration)}
+              </span>
+            </div>
+            <div className="relative pt-3">
+              {script.events.map((event, i) => (
+                <div
+                  key={i}
+                  title={`${formatScenarioTime(event.atMs)} ${event.type} (${event.zones.join(', ')})`}
+                  className={`absolute top-0 h-2 rounded ${EVENT_COLORS[event.type]}`}
+                  style={{
+                    left: `${(event.atMs / duration) * 100}%`,
+                    width: `max(4px, ${((scenarioEventEnd(event) - event.atMs) / duration) * 100}%)`
+                  }}
+                />
+              ))}
+              <input
+                type="range"
+                min={0}
+                max={duration}
+                step={60000}
+                value={position}
+                onChange={(e) => setSeekDraft(Number(e.target.value))}
+                onPointerUp={commitSeek}
+                onKeyUp={commitSeek}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Scheduled events */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Timeline</h4>
+            <div className="space-y-1">
+              {script.events.map((event, i) => {
+                const end = scenarioEventEnd(event);
+                const status = elapsedMs < event.atMs ? 'pending' : elapsedMs < end ? 'active' : 'done';
+                return (
+                  <div key={i} className="flex items-center space-x-3 text-sm">
+                    <span className={`w-2 h-2 rounded-full ${EVENT_COLORS[event.type]}`} />
+                    <span className="w-20 font-mono text-gray-600">{formatScenarioTime(event.atMs)}</span>
+                    <span className="flex-1 text-gray-800">
+                      {event.label ?? `${event.type} · ${event.zones.join(', ')}`}
+                    </span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${
+                      status === 'active' ? 'bg-warning-100 text-warning-700' :
+                      status === 'done' ? 'bg-gray-100 text-gray-600' :
+                      'bg-navy-50 text-navy-600'
+                    }`}>
+                      {status}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Event log */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Injected events</h4>
+            {log.length === 0 ? (
+              <p className="text-sm text-gray-500">Nothing injected yet</p>
+            ) : (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {[...log].reverse().map((entry, i) => (
+                  <div key={log.length - i} className="flex items-start space-x-3 text-sm">
+                    <span className="w-20 font-mono text-gray-600">{formatScenarioTime(entry.elapsedMs)}</span>
+                    <span className="text-xs text-gray-500 w-20">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                    <span className="flex-1 text-gray-800">{entry.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
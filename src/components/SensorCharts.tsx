@@ -1,5 +1,8 @@
-import React, { useEffect, useState } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, ReferenceLine } from 'recharts';
+import { detectChangePoints } from '../utils/changePointDetection';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY, findSensorParameter } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
 
 interface SensorReading {
   timestamp: string;
@@ -14,6 +17,8 @@ interface Sensor {
   readings: SensorReading[];
 }
 
+const LINE_COLORS = ['#6366f1', '#0ea5e9', '#14b8a6', '#a855f7', '#ec4899'];
+
 interface SensorChartsProps {
   selectedZone: string | null;
   isRealTimeActive: boolean;
@@ -37,9 +42,42 @@ export const SensorCharts: React.FC<SensorChartsProps> = ({ selectedZone }) => {
     ? sensors.filter(s => s.zone_id === selectedZone)
     : sensors;
 
-  // Prepare chart data
-  const displacement = filteredSensors.find(s => s.sensor_type === 'displacement');
-  const rainfall = sensors.find(s => s.sensor_type === 'rainfall');
+  // Prepare chart data; file sensor types ('pore_pressure', ...) resolve
+  // through the parameter registry
+  const ofParameter = (list: Sensor[], parameter: SensorParameter) =>
+    list.find(s => findSensorParameter(s.sensor_type) === parameter);
+  // Every parameter the zone's sensors carry gets a line chart; rainfall is
+  // site-wide and drawn as bars
+  const charted = SENSOR_PARAMETERS.flatMap(parameter => {
+    const sensor = parameter === 'rainfall' ? undefined : ofParameter(filteredSensors, parameter);
+    return sensor ? [{ parameter, sensor }] : [];
+  });
+  const rainfall = ofParameter(sensors, 'rainfall');
+  // Units recorded with the readings win over the registry's canonical ones
+  const unitOf = (sensor: Sensor | undefined, parameter: SensorParameter) =>
+    sensor?.readings[0]?.unit || SENSOR_PARAMETER_REGISTRY[parameter].unit;
+
+  // Regime changes in each sensor's rate, drawn as markers. Short series get
+  // a shorter baseline so a handful of daily readings can still be checked.
+  const changesBySensor = useMemo(() => new Map(sensors.map(sensor => {
+    const series = sensor.readings.map(r => ({ timestamp: Date.parse(r.timestamp), value: r.value }));
+    const minSegment = Math.max(3, Math.min(10, Math.floor(series.length / 2)));
+    return [sensor.sensor_id, detectChangePoints(series, { minSegment }).map(changePoint => ({
+      ...changePoint,
+      x: sensor.readings[changePoint.index].timestamp
+    }))];
+  })), [sensors]);
+
+  const changeMarkers = (sensor: Sensor | undefined) =>
+    (sensor ? changesBySensor.get(sensor.sensor_id) ?? [] : []).map(changePoint => (
+      <ReferenceLine
+        key={changePoint.x}
+        x={changePoint.x}
+        stroke={changePoint.direction === 'increase' ? '#dc2626' : '#16a34a'}
+        strokeDasharray="4 4"
+        label={{ value: changePoint.direction === 'increase' ? 'Rate ↑' : 'Rate ↓', position: 'top', fontSize: 10 }}
+      />
+    ));
 
   if (loading) {
     return <div className="text-center">Loading sensor data...</div>;
@@ -47,31 +85,40 @@ export const SensorCharts: React.FC<SensorChartsProps> = ({ selectedZone }) => {
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-      {/* Displacement vs Time */}
-      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-        <h3 className="font-semibold mb-2">Displacement vs Time</h3>
-        <ResponsiveContainer width="100%" height={220}>
-          <LineChart data={displacement?.readings || []}>
-            <CartesianGrid strokeDasharray="3 3" />
-            <XAxis dataKey="timestamp" tickFormatter={t => t.slice(5, 10)} />
-            <YAxis unit={displacement?.readings[0]?.unit || ''} />
-            <Tooltip />
-            <Legend />
-            <Line type="monotone" dataKey="value" stroke="#6366f1" name="Displacement" />
-          </LineChart>
-        </ResponsiveContainer>
-      </div>
+      {/* Each monitored parameter vs Time */}
+      {charted.map(({ parameter, sensor }, index) => (
+        <div key={parameter} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h3 className="font-semibold mb-2">{SENSOR_PARAMETER_REGISTRY[parameter].label} vs Time</h3>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={sensor.readings}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="timestamp" tickFormatter={t => t.slice(5, 10)} />
+              <YAxis unit={unitOf(sensor, parameter)} />
+              <Tooltip />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="value"
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                name={SENSOR_PARAMETER_REGISTRY[parameter].label}
+              />
+              {changeMarkers(sensor)}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
       {/* Rainfall vs Risk (Bar) */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
-        <h3 className="font-semibold mb-2">Rainfall vs Risk</h3>
+        <h3 className="font-semibold mb-2">{SENSOR_PARAMETER_REGISTRY.rainfall.label} vs Risk</h3>
         <ResponsiveContainer width="100%" height={220}>
           <BarChart data={rainfall?.readings || []}>
             <CartesianGrid strokeDasharray="3 3" />
             <XAxis dataKey="timestamp" tickFormatter={t => t.slice(5, 10)} />
-            <YAxis unit={rainfall?.readings[0]?.unit || ''} />
+            <YAxis unit={unitOf(rainfall, 'rainfall')} />
             <Tooltip />
             <Legend />
-            <Bar dataKey="value" fill="#f59e0b" name="Rainfall" />
+            <Bar dataKey="value" fill="#f59e0b" name={SENSOR_PARAMETER_REGISTRY.rainfall.label} />
+            {changeMarkers(rainfall)}
           </BarChart>
         </ResponsiveContainer>
       </div>
@@ -0,0 +1,104 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Circle, Square, Download, Trash2 } from 'lucide-react';
+import type { RecordingStatus } from '../hooks/useRockfallDataGenerator';
+import { LABEL_HORIZON_HOURS } from '../utils/simulationRecording';
+
+interface SimulationRecorderPanelProps {
+  status: RecordingStatus;
+  onStart: () => void;
+  onStop: () => void;
+  onClear: () => void;
+  onExport: (format: 'csv' | 'json') => string;
+}
+
+export const SimulationRecorderPanel: React.FC<SimulationRecorderPanelProps> = ({
+  status,
+  onStart,
+  onStop,
+  onClear,
+  onExport
+}) => {
+  const download = (format: 'csv' | 'json') => {
+    const blob = new Blob([onExport(format)], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `rockfall-simulation-${new Date().toISOString().split('T')[0]}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const stats = [
+    { label: 'Zone ticks', value: status.ticks },
+    { label: 'Predictions', value: status.predictions },
+    { label: 'Events', value: status.events },
+    { label: 'Faults', value: status.faults }
+  ];
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Circle className={`w-5 h-5 ${status.isRecording ? 'text-danger-600 fill-danger-600' : 'text-navy-600'}`} />
+          <div>
+            <h3 className="font-semibold text-gray-900">Run Recorder</h3>
+            <p className="text-xs text-gray-500">
+              Labeled datasets for calibration: readings, ground truth, injected events and faults, and predictions
+            </p>
+          </div>
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.02 }}
+          whileTap={{ scale: 0.98 }}
+          onClick={status.isRecording ? onStop : onStart}
+          className={`flex items-center space-x-1 px-3 py-2 rounded-lg text-sm font-medium text-white ${
+            status.isRecording ? 'bg-gray-700 hover:bg-gray-800' : 'bg-danger-600 hover:bg-danger-700'
+          }`}
+        >
+          {status.isRecording ? <Square className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+          <span>{status.isRecording ? 'Stop recording' : 'Record'}</span>
+        </motion.button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-gray-50 rounded-lg p-3">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-lg font-semibold text-gray-900">{stat.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      {status.truncated && (
+        <p className="text-sm text-warning-700">The recording reached its size limit; later ticks were not kept.</p>
+      )}
+      <p className="text-xs text-gray-500">
+        Readings are labeled positive when their zone fails within {LABEL_HORIZON_HOURS} h. The JSON export loads
+        directly into Calibration.
+      </p>
+
+      <div className="flex items-center space-x-2">
+        {(['csv', 'json'] as const).map(format => (
+          <button
+            key={format}
+            disabled={status.ticks === 0}
+            onClick={() => download(format)}
+            className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export {format.toUpperCase()}</span>
+          </button>
+        ))}
+        <button
+          disabled={status.ticks === 0 || status.isRecording}
+          onClick={onClear}
+          className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Trash2 className="w-4 h-4" />
+          <span>Clear</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,10 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Activity, Brain, Settings, FileText, 
   AlertTriangle, Shield, TrendingUp, Play, Pause,
   Camera, Mountain, Smartphone, Database,
-  Zap
+  Zap, Target, History, Wrench, BookOpen, Bell
 } from 'lucide-react';
 
 // Import all the existing components we'll consolidate
@@ -16,17 +16,72 @@ import { ElevationDataInput } from './ElevationDataInput';
 import { ComprehensiveRiskAnalysis } from './ComprehensiveRiskAnalysis';
 import { MultiImageRockfallAnalysis } from './MultiImageRockfallAnalysis';
 import { EnhancedAlertsSystem } from './EnhancedAlertsSystem';
+import type { Alert as LiveAlert } from './EnhancedAlertsSystem';
 import { DataFlowControl } from './DataFlowControl';
 import { MobileDeviceRegistration } from './MobileDeviceRegistration';
 import { MobileAlertStatusMonitor } from './MobileAlertStatusMonitor';
 import { ExportReport } from './ExportReport';
+import { CalibrationPanel } from './CalibrationPanel';
+import { BacktestPanel } from './BacktestPanel';
+import { AlertRulesEditor } from './AlertRulesEditor';
+import type { AlertRule } from './AlertManagementSystem';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { DetectorStatePanel } from './DetectorStatePanel';
+import { InstrumentFaultNotices } from './InstrumentFaultNotices';
+import { PatternLibraryEditor } from './PatternLibraryEditor';
+import { ZoneAggregationPanel } from './ZoneAggregationPanel';
+import { ScenarioScriptPanel } from './ScenarioScriptPanel';
+import { CreepModelPanel } from './CreepModelPanel';
+import { FaultInjectionPanel } from './FaultInjectionPanel';
+import { SimulationRecorderPanel } from './SimulationRecorderPanel';
+import { DataImportAnalysis } from './DataImportAnalysis';
+import type { ImportedData } from './DataImportAnalysis';
 
 // Import hooks
 import { useTerrainDataIntegration } from '../hooks/useTerrainDataIntegration';
 import { useRockfallDataGenerator } from '../hooks/useRockfallDataGenerator';
+import {
+  LIVE_SIMULATION_DETECTOR_OPTIONS,
+  LOGGED_DATA_DETECTOR_OPTIONS,
+  useEnhancedRockfallDetector
+} from '../hooks/useEnhancedRockfallDetector';
+import { useHistoricalReplay } from '../hooks/useHistoricalReplay';
+import { useAlertRules } from '../hooks/useAlertRules';
+import type { RuleBreach } from '../hooks/useAlertRules';
+import type { HistoricalReplay } from '../hooks/useHistoricalReplay';
+import type { RecordingStatus, ZoneData } from '../hooks/useRockfallDataGenerator';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import { formatTimeToEventBand } from '../utils/predictionUncertainty';
+import type { ScenarioLogEntry, ScenarioScript } from '../utils/scenarioScript';
+import type { CreepParameters } from '../utils/creepModel';
+import { loadSavedCustomZones, simulatedZonesFrom } from '../utils/simulatedZones';
+import type { SimulatedZone } from '../utils/simulatedZones';
+import type { InjectedFault, SensorFaultMode } from '../utils/sensorFaults';
+import { describeRuleBreach } from '../utils/alertRules';
+import type { SensorParameter } from '../utils/sensorParameters';
+import type { ReplayDataset } from '../utils/historicalReplay';
 
 type Section = 'monitor' | 'analyze' | 'control' | 'reports';
 
+const MAX_LIVE_ALERTS = 50;
+
+// Rule breaches in the shape the alert list shows, with the detector's
+// p10/p50/p90 view of the zone alongside
+const liveAlertFrom = ({ rule, zoneId, zoneName, value, reading, prediction }: RuleBreach): LiveAlert => ({
+  id: `${zoneId}-${rule.id}-${reading.timestamp}`,
+  zone_id: zoneId,
+  zone_name: zoneName,
+  severity: rule.severity,
+  status: 'active',
+  message: describeRuleBreach(rule, value, prediction),
+  risk_probability: prediction ? prediction.riskScoreBand.p50 / 100 : 0,
+  timestamp: new Date(reading.timestamp).toISOString(),
+  predicted_timeline: prediction?.timeToEventBand ? formatTimeToEventBand(prediction.timeToEventBand) : 'No failure forecast',
+  recommended_actions: prediction?.recommendations ?? [],
+  affected_personnel: 0,
+  equipment_at_risk: []
+});
+
 export const UnifiedDashboard: React.FC = () => {
   const [activeSection, setActiveSection] = useState<Section>('monitor');
   const [isRealTimeActive, setIsRealTimeActive] = useState(true);
@@ -48,12 +103,90 @@ export const UnifiedDashboard: React.FC = () => {
     isRunning: isSimulationRunning,
     overallRiskFactor,
     riskProgression,
-    currentData: sensorData,
+    currentData: simulatedData,
     start: startSimulation,
     stop: stopSimulation,
-    updateThresholdMultiplier
+    updateThresholdMultiplier,
+    seed: simulationSeed,
+    setSeed: setSimulationSeed,
+    scenario,
+    scenarioElapsedMs,
+    scenarioLog,
+    loadScenario,
+    seekScenario,
+    creepParameters,
+    setCreepParameters,
+    simulatedZones,
+    setSimulatedZones,
+    faults: injectedFaults,
+    injectFault,
+    clearFault,
+    recordingStatus,
+    startRecording,
+    stopRecording,
+    clearRecording,
+    recordPredictions,
+    exportRecording
   } = useRockfallDataGenerator();
 
+  const detector = useEnhancedRockfallDetector(LIVE_SIMULATION_DETECTOR_OPTIONS);
+  const { predict: runPrediction, resetHistory: resetDetectorHistory, isEnabled: isDetectionEnabled } = detector;
+
+  // A loaded replay takes the simulator's place as the data source
+  const replay = useHistoricalReplay();
+  const [replayDatasets, setReplayDatasets] = useState<ReplayDataset[]>([]);
+  const sensorData = replay.dataset ? replay.currentData : simulatedData;
+
+  // Logged data arrives minutes apart, so the detector switches to a coarser
+  // history while replaying. Declared before the prediction effect so a jump
+  // clears the history before the new frame is judged.
+  const { restart: replayRestart } = replay;
+  useEffect(() => {
+    if (!replayRestart) return;
+    if (replayRestart.dataset) {
+      resetDetectorHistory(
+        { ...LOGGED_DATA_DETECTOR_OPTIONS, channels: replayRestart.dataset.parameters },
+        replayRestart.warmUp
+      );
+    } else {
+      resetDetectorHistory(LIVE_SIMULATION_DETECTOR_OPTIONS);
+    }
+  }, [replayRestart, resetDetectorHistory]);
+
+  // Simulate whatever zones are drawn on the map
+  const [customZones] = useState(loadSavedCustomZones);
+  useEffect(() => {
+    setSimulatedZones(simulatedZonesFrom(terrainMaps, customZones));
+  }, [terrainMaps, customZones, setSimulatedZones]);
+
+  // Feed every simulation tick through the detector
+  useEffect(() => {
+    if (isDetectionEnabled && Object.keys(sensorData).length > 0) {
+      runPrediction(sensorData);
+    }
+  }, [sensorData, runPrediction, isDetectionEnabled]);
+
+  // Alert rules see the same frames, gated on the detector's health checks
+  const [liveAlerts, setLiveAlerts] = useState<LiveAlert[]>([]);
+  const handleRuleBreach = useCallback((breach: RuleBreach) => {
+    setLiveAlerts(prev => [liveAlertFrom(breach), ...prev].slice(0, MAX_LIVE_ALERTS));
+  }, []);
+  const alertRules = useAlertRules(sensorData, isDetectionEnabled ? detector.predictions : undefined, handleRuleBreach);
+  const handleAlertAction = useCallback((alertId: string, action: 'acknowledge' | 'resolve' | 'escalate') => {
+    setLiveAlerts(prev => prev.map(alert => {
+      if (alert.id !== alertId) return alert;
+      if (action === 'acknowledge') return { ...alert, status: 'acknowledged' };
+      if (action === 'resolve') return { ...alert, status: 'resolved' };
+      return { ...alert, severity: 'critical' };
+    }));
+  }, []);
+
+  // ...and its verdicts back to the run recorder
+  const isReplaying = replay.dataset !== null;
+  useEffect(() => {
+    if (!isReplaying) recordPredictions(detector.predictions);
+  }, [detector.predictions, recordPredictions, isReplaying]);
+
   // Update risk progression when thresholds change
   useEffect(() => {
     updateThresholdMultiplier(
@@ -323,6 +456,10 @@ export const UnifiedDashboard: React.FC = () => {
               getSectionData={getSectionData}
               simulationThresholds={simulationThresholds}
               overallStats={overallStats}
+              predictions={detector.predictions}
+              simulationSeed={simulationSeed}
+              alerts={liveAlerts}
+              onAlertAction={handleAlertAction}
             />
           )}
 
@@ -335,9 +472,34 @@ export const UnifiedDashboard: React.FC = () => {
               isSimulationRunning={isSimulationRunning}
               startSimulation={startSimulation}
               stopSimulation={stopSimulation}
+              simulationSeed={simulationSeed}
+              setSimulationSeed={setSimulationSeed}
+              scenario={{ script: scenario, elapsedMs: scenarioElapsedMs, log: scenarioLog, load: loadScenario, seek: seekScenario }}
+              creep={{ zones: simulatedZones, parameters: creepParameters, set: setCreepParameters }}
+              faults={{ list: injectedFaults, inject: injectFault, clear: clearFault }}
+              recorder={{
+                status: recordingStatus,
+                start: startRecording,
+                stop: stopRecording,
+                clear: clearRecording,
+                export: exportRecording
+              }}
               simulationThresholds={simulationThresholds}
               updateSimulationThresholds={updateSimulationThresholds}
               overallStats={overallStats}
+              detector={detector}
+              alertRules={alertRules}
+              replay={{
+                player: replay,
+                datasets: replayDatasets,
+                onImport: (data: ImportedData) => {
+                  const dataset = data.replay;
+                  if (!dataset) return;
+                  setReplayDatasets(prev => [dataset, ...prev.filter(existing => existing.id !== dataset.id)]);
+                  // A remapped file takes over from its earlier mapping mid-replay
+                  if (replay.dataset?.id === dataset.id) replay.load(dataset);
+                }
+              }}
               simulateAlert={(alertData: any) => {
                 // Handle alert simulation
                 console.log('Alert simulated:', alertData);
@@ -429,6 +591,10 @@ const MonitorSection: React.FC<{
   getSectionData: (zoneId: string) => any;
   simulationThresholds: any;
   overallStats: any;
+  predictions: Record<string, PredictionResult>;
+  simulationSeed: number;
+  alerts: LiveAlert[];
+  onAlertAction: (alertId: string, action: 'acknowledge' | 'resolve' | 'escalate') => void;
 }> = ({ 
   selectedZone, 
   setSelectedZone, 
@@ -437,10 +603,21 @@ const MonitorSection: React.FC<{
   updateTerrainData, 
   getSectionData, 
   simulationThresholds,
-  overallStats 
+  overallStats,
+  predictions,
+  simulationSeed,
+  alerts,
+  onAlertAction
 }) => {
   // Use terrainMaps to avoid warning
   void terrainMaps;
+
+  const sensorHealth = useMemo(() => Object.fromEntries(
+    Object.entries(predictions).map(([zoneId, prediction]) => [zoneId, prediction.sensorHealth])
+  ), [predictions]);
+
+  // Zone the detector currently rates highest, shown with its uncertainty band
+  const topPrediction = Object.values(predictions).sort((a, b) => b.riskScore - a.riskScore)[0];
   
   return (
     <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
@@ -473,6 +650,9 @@ const MonitorSection: React.FC<{
                 onDataUpdate={updateTerrainData}
                 simulationThresholds={simulationThresholds}
                 isRealTimeActive={isRealTimeActive}
+                seed={simulationSeed}
+                zoneData={overallStats.sensorData}
+                predictions={predictions}
               />
             </div>
           </div>
@@ -522,34 +702,37 @@ const MonitorSection: React.FC<{
             </div>
           </div>
           <div className="p-6">
-            <EnhancedAlertsSystem 
-              alerts={[
-                {
-                  id: 'alert-001',
-                  zone_id: 'zone-1',
-                  zone_name: 'North Bench Level 1200m',
-                  severity: 'critical' as const,
-                  status: 'active' as const,
-                  message: 'Critical displacement detected',
-                  risk_probability: 0.87,
-                  timestamp: new Date().toISOString(),
-                  predicted_timeline: '6-12 hours',
-                  recommended_actions: [
-                    'Immediate evacuation',
-                    'Establish safety perimeter',
-                    'Deploy additional sensors'
-                  ],
-                  affected_personnel: 8,
-                  equipment_at_risk: ['Excavator CAT-320', 'Drill Rig DR-150']
-                }
-              ]}
-              onAlertAction={(alertId, action) => {
-                console.log(`Alert ${alertId} - Action: ${action}`);
-              }}
-            />
+            <EnhancedAlertsSystem alerts={alerts} onAlertAction={onAlertAction} />
           </div>
         </motion.div>
 
+        {/* Instrument faults, kept apart from rockfall alerts */}
+        {Object.values(sensorHealth).some(report => report.faults.length > 0) && (
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.25 }}
+            className="bg-white rounded-2xl shadow-xl border border-gray-100 overflow-hidden"
+          >
+            <div className="bg-gradient-to-r from-gray-50 to-slate-100 px-6 py-4 border-b border-gray-100">
+              <div className="flex items-center space-x-3">
+                <div className="p-2 bg-white rounded-lg shadow-sm">
+                  <Wrench className="w-5 h-5 text-gray-600" />
+                </div>
+                <h2 className="text-xl font-bold text-gray-900">Instrument Faults</h2>
+              </div>
+            </div>
+            <div className="p-6">
+              <InstrumentFaultNotices
+                sensorHealth={sensorHealth}
+                zoneNames={Object.fromEntries(
+                  Object.entries(overallStats.sensorData ?? {}).map(([zoneId, zone]) => [zoneId, (zone as ZoneData).zoneName])
+                )}
+              />
+            </div>
+          </motion.div>
+        )}
+
         {/* Enhanced Zone Details */}
         {selectedZone && (
           <motion.div
@@ -626,6 +809,28 @@ const MonitorSection: React.FC<{
               <p className="text-sm text-gray-600 mt-4 text-center">
                 Site-wide risk assessment based on AI analysis and sensor data
               </p>
+              {topPrediction && (
+                <div className="w-full mt-6 pt-4 border-t border-gray-100 flex flex-col items-center">
+                  <p className="text-sm font-medium text-gray-700 mb-2">
+                    Highest detector risk: {topPrediction.zoneId}
+                  </p>
+                  <RiskGauge
+                    value={topPrediction.riskScore / 10}
+                    band={{ low: topPrediction.riskScoreBand.p10 / 10, high: topPrediction.riskScoreBand.p90 / 10 }}
+                    size="small"
+                  />
+                  {topPrediction.drivingSensor && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                      Driven by {topPrediction.drivingSensor.label} ({topPrediction.drivingSensor.riskScore})
+                    </p>
+                  )}
+                  {topPrediction.timeToEventBand && (
+                    <p className="text-xs text-danger-600 mt-2 text-center">
+                      Time to failure: {formatTimeToEventBand(topPrediction.timeToEventBand)}
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </motion.div>
@@ -776,27 +981,76 @@ const ControlSection: React.FC<{
   isSimulationRunning: boolean;
   startSimulation: () => void;
   stopSimulation: () => void;
+  simulationSeed: number;
+  setSimulationSeed: (seed: number) => void;
+  scenario: {
+    script: ScenarioScript | null;
+    elapsedMs: number;
+    log: ScenarioLogEntry[];
+    load: (script: ScenarioScript | null) => void;
+    seek: (elapsedMs: number) => void;
+  };
+  creep: {
+    zones: SimulatedZone[];
+    parameters: Record<string, CreepParameters>;
+    set: (zoneId: string, parameters: CreepParameters) => void;
+  };
+  faults: {
+    list: InjectedFault[];
+    inject: (zoneId: string, mode: SensorFaultMode, parameter: SensorParameter | null, magnitude: number) => void;
+    clear: (faultId: string) => void;
+  };
+  recorder: {
+    status: RecordingStatus;
+    start: () => void;
+    stop: () => void;
+    clear: () => void;
+    export: (format: 'csv' | 'json') => string;
+  };
   simulationThresholds: any;
   updateSimulationThresholds: (thresholds: any) => void;
   overallStats: any;
+  detector: ReturnType<typeof useEnhancedRockfallDetector>;
+  alertRules: {
+    rules: AlertRule[];
+    updateRule: (ruleId: string, changes: Partial<AlertRule>) => void;
+  };
+  replay: {
+    player: HistoricalReplay;
+    datasets: ReplayDataset[];
+    onImport: (data: ImportedData) => void;
+  };
   simulateAlert: (alertData: any) => void;
   testAlertSystem: () => void;
 }> = ({ 
   isSimulationRunning, 
   startSimulation, 
   stopSimulation,
+  simulationSeed,
+  setSimulationSeed,
+  scenario,
+  creep,
+  faults,
+  recorder,
   simulationThresholds,
   updateSimulationThresholds,
   overallStats,
+  detector,
+  alertRules,
+  replay,
   simulateAlert,
   testAlertSystem
 }) => {
-  const [controlTab, setControlTab] = useState<'simulation' | 'mobile' | 'data'>('simulation');
+  const [controlTab, setControlTab] = useState<'simulation' | 'mobile' | 'data' | 'calibration' | 'patterns' | 'alerts' | 'backtest'>('simulation');
 
   const controlTabs = [
     { id: 'simulation', label: 'Simulation', icon: Zap },
     { id: 'mobile', label: 'Mobile Devices', icon: Smartphone },
-    { id: 'data', label: 'Data Flow', icon: Database }
+    { id: 'data', label: 'Data Flow', icon: Database },
+    { id: 'calibration', label: 'Calibration', icon: Target },
+    { id: 'patterns', label: 'Patterns', icon: BookOpen },
+    { id: 'alerts', label: 'Alert Rules', icon: Bell },
+    { id: 'backtest', label: 'Backtest', icon: History }
   ];
 
   // Silence unused variable warnings
@@ -936,6 +1190,35 @@ const ControlSection: React.FC<{
               </div>
             </div>
 
+            <ScenarioScriptPanel
+              script={scenario.script}
+              elapsedMs={scenario.elapsedMs}
+              log={scenario.log}
+              isRunning={isSimulationRunning}
+              onLoad={scenario.load}
+              onPlay={startSimulation}
+              onPause={stopSimulation}
+              onSeek={scenario.seek}
+            />
+
+            <CreepModelPanel zones={creep.zones} parameters={creep.parameters} onChange={creep.set} />
+
+            <FaultInjectionPanel
+              zones={creep.zones}
+              faults={faults.list}
+              elapsedMs={scenario.elapsedMs}
+              onInject={faults.inject}
+              onClear={faults.clear}
+            />
+
+            <SimulationRecorderPanel
+              status={recorder.status}
+              onStart={recorder.start}
+              onStop={recorder.stop}
+              onClear={recorder.clear}
+              onExport={recorder.export}
+            />
+
             {/* Real-time Sensor Readings */}
             {isSimulationRunning && overallStats.sensorData && Object.keys(overallStats.sensorData).length > 0 && (
               <div className="mt-8">
@@ -1127,7 +1410,67 @@ const ControlSection: React.FC<{
               onDataImport={(data) => {
                 console.log('Data imported:', data);
               }}
+              seed={simulationSeed}
+              onSeedChange={setSimulationSeed}
+              datasets={replay.datasets}
+              replay={replay.player}
             />
+
+            <DataImportAnalysis onDataImported={replay.onImport} />
+          </div>
+        )}
+
+        {controlTab === 'calibration' && (
+          <div className="space-y-6">
+            <CalibrationPanel
+              models={detector.models}
+              calibrationReport={detector.calibrationReport}
+              riskLevelThresholds={detector.riskLevelThresholds}
+              onCalibrate={detector.calibrate}
+              onApply={detector.applyCalibration}
+            />
+            <ZoneAggregationPanel
+              aggregation={detector.zoneAggregation}
+              onChange={detector.setZoneAggregation}
+            />
+            <DetectorStatePanel
+              lastSavedAt={detector.lastSavedAt}
+              onExport={detector.exportState}
+              onImport={detector.importState}
+              onClear={detector.clearSavedState}
+            />
+          </div>
+        )}
+
+        {controlTab === 'patterns' && (
+          <PatternLibraryEditor
+            patterns={detector.patternLibrary}
+            onSave={detector.setPatternLibrary}
+            onReset={detector.resetPatternLibrary}
+          />
+        )}
+
+        {controlTab === 'alerts' && (
+          <div className="space-y-6">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-navy-100 rounded-lg">
+                <Bell className="w-5 h-5 text-navy-600" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Alert Rules</h2>
+                <p className="text-sm text-gray-600">
+                  Checked against every live or replayed reading; backtests run against the same rules
+                </p>
+              </div>
+            </div>
+            <AlertRulesEditor rules={alertRules.rules} onUpdateRule={alertRules.updateRule} />
+          </div>
+        )}
+
+        {controlTab === 'backtest' && (
+          <div className="space-y-10">
+            <BacktestPanel datasets={replay.datasets} rules={alertRules.rules} exportDetectorState={detector.exportState} />
+            <MonteCarloPanel zones={creep.zones} exportDetectorState={detector.exportState} />
           </div>
         )}
       </div>
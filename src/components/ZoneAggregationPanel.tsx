@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Layers, AlertCircle } from 'lucide-react';
+import { ZONE_AGGREGATION_LABELS } from '../utils/zoneAggregation';
+import type { ZoneAggregation, ZoneAggregationMethod } from '../utils/zoneAggregation';
+
+interface ZoneAggregationPanelProps {
+  aggregation: ZoneAggregation;
+  onChange: (aggregation: ZoneAggregation) => void;
+}
+
+const METHOD_DESCRIPTIONS: Record<ZoneAggregationMethod, string> = {
+  worst_case: 'The zone takes the risk of its highest-scoring sensor',
+  crest_weighted: 'Sensor risks are averaged, weighting sensors near the crest more heavily',
+  quorum: 'The zone only reaches a risk once enough sensors agree on it'
+};
+
+type NumericSetting = 'quorum' | 'crestScale';
+
+export const ZoneAggregationPanel: React.FC<ZoneAggregationPanelProps> = ({ aggregation, onChange }) => {
+  const [error, setError] = useState<string | null>(null);
+  // Number fields are edited as text and only committed on blur or Enter, so
+  // they can be cleared and retyped without failing validation mid-edit
+  const [drafts, setDrafts] = useState<Partial<Record<NumericSetting, string>>>({});
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<NumericSetting, string>>>({});
+
+  const update = (changes: Partial<ZoneAggregation>) => {
+    try {
+      onChange({ ...aggregation, ...changes });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid aggregation settings');
+    }
+  };
+
+  const commitDraft = (setting: NumericSetting) => {
+    const draft = drafts[setting];
+    if (draft === undefined) return;
+    const clear = <T,>(values: Partial<Record<NumericSetting, T>>) => {
+      const next = { ...values };
+      delete next[setting];
+      return next;
+    };
+    try {
+      if (draft.trim() === '' || !Number.isFinite(Number(draft))) {
+        throw new Error('Enter a number');
+      }
+      onChange({ ...aggregation, [setting]: Number(draft) });
+      setDrafts(clear);
+      setFieldErrors(clear);
+    } catch (err) {
+      setFieldErrors(prev => ({ ...prev, [setting]: err instanceof Error ? err.message : 'Invalid value' }));
+    }
+  };
+
+  const numericInputProps = (setting: NumericSetting) => ({
+    value: drafts[setting] ?? String(aggregation[setting]),
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDrafts(prev => ({ ...prev, [setting]: e.target.value })),
+    onBlur: () => commitDraft(setting),
+    onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') commitDraft(setting);
+    },
+    className: `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent ${
+      fieldErrors[setting] ? 'border-danger-300' : 'border-gray-300'
+    }`
+  });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center space-x-2">
+        <Layers className="w-5 h-5 text-navy-600" />
+        <div>
+          <h3 className="font-semibold text-gray-900">Sensor Aggregation</h3>
+          <p className="text-xs text-gray-500">How per-sensor predictions combine into a zone's risk</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+          <select
+            value={aggregation.method}
+            onChange={(e) => update({ method: e.target.value as ZoneAggregationMethod })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-navy-500 focus:border-transparent"
+          >
+            {(Object.keys(ZONE_AGGREGATION_LABELS) as ZoneAggregationMethod[]).map(method => (
+              <option key={method} value={method}>{ZONE_AGGREGATION_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+        {aggregation.method === 'quorum' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Sensors that must agree</label>
+            <input type="number" min="1" step="1" {...numericInputProps('quorum')} />
+            {fieldErrors.quorum && <p className="text-xs text-danger-600 mt-1">{fieldErrors.quorum}</p>}
+          </div>
+        )}
+        {aggregation.method === 'crest_weighted' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Half-weight distance below crest (m)</label>
+            <input type="number" min="1" {...numericInputProps('crestScale')} />
+            {fieldErrors.crestScale && <p className="text-xs text-danger-600 mt-1">{fieldErrors.crestScale}</p>}
+          </div>
+        )}
+      </div>
+      <p className="text-sm text-gray-600">{METHOD_DESCRIPTIONS[aggregation.method]}</p>
+
+      {error && (
+        <div className="flex items-center space-x-2 bg-danger-50 border border-danger-200 text-danger-700 px-3 py-2 rounded text-sm">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { AlertRule } from '../components/AlertManagementSystem';
+import type { SensorReading, ZoneData } from './useRockfallDataGenerator';
+import type { PredictionResult } from './useEnhancedRockfallDetector';
+import { DEFAULT_ALERT_RULES, evaluateAlertRule, isWithinCooldown } from '../utils/alertRules';
+import { isParameterFaulty } from '../utils/sensorHealth';
+
+export interface RuleBreach {
+  rule: AlertRule;
+  zoneId: string;
+  zoneName: string;
+  value: number;
+  reading: SensorReading;
+  prediction?: PredictionResult; // The detector's verdict on the same reading, when detection is on
+}
+
+// The live alert rule set, checked against every frame of zone data. With
+// detection on, a reading waits for the detector's health check and rules on
+// parameters it flags as faulty stay quiet; those raise instrument fault
+// notices instead. Each rule fires once per zone per cooldown, timed on the
+// readings' own clock so replays and the simulated clock behave alike.
+export const useAlertRules = (
+  zoneData: Record<string, ZoneData> | undefined,
+  predictions: Record<string, PredictionResult> | undefined, // undefined while detection is off
+  onBreach: (breach: RuleBreach) => void
+) => {
+  const [rules, setRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const lastFiredRef = useRef(new Map<string, number>()); // `${zoneId}:${ruleId}` -> reading time
+  const onBreachRef = useRef(onBreach);
+
+  useEffect(() => {
+    onBreachRef.current = onBreach;
+  }, [onBreach]);
+
+  useEffect(() => {
+    if (!zoneData) return;
+
+    Object.entries(zoneData).forEach(([zoneId, data]) => {
+      const reading = data.lastReading;
+      const prediction = predictions?.[zoneId];
+      const health = prediction?.sensorHealth;
+      if (predictions && health?.timestamp !== reading.timestamp) return;
+
+      rules.forEach(rule => {
+        if (isParameterFaulty(health, rule.parameter)) return;
+
+        const value = evaluateAlertRule(rule, reading);
+        if (value === null) return;
+
+        const key = `${zoneId}:${rule.id}`;
+        const firedAt = lastFiredRef.current.get(key);
+        // A replay jumping back in time starts the cooldown afresh
+        if (firedAt !== undefined && firedAt <= reading.timestamp && isWithinCooldown(rule, firedAt, reading.timestamp)) return;
+
+        lastFiredRef.current.set(key, reading.timestamp);
+        onBreachRef.current({ rule, zoneId, zoneName: data.zoneName, value, reading, prediction });
+      });
+    });
+  }, [zoneData, predictions, rules]);
+
+  const updateRule = useCallback((ruleId: string, changes: Partial<AlertRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === ruleId ? { ...rule, ...changes } : rule)));
+  }, []);
+
+  return { rules, updateRule };
+};
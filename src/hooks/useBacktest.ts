@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BacktestInput, BacktestRequest, BacktestResponse, BacktestResult } from '../utils/backtest';
+import type { DetectorSnapshot } from '../utils/detectorSnapshot';
+
+// Runs one backtest at a time in a worker; starting another cancels the first
+export const useBacktest = () => {
+  const worker = useRef<Worker | null>(null);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    worker.current?.terminate();
+    worker.current = null;
+    setIsRunning(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const start = useCallback((input: BacktestInput, detectorSnapshot: DetectorSnapshot | null = null) => {
+    cancel();
+
+    const next = new Worker(new URL('../workers/backtest.worker.ts', import.meta.url), { type: 'module' });
+    next.onmessage = (event: MessageEvent<BacktestResponse>) => {
+      const message = event.data;
+      if (message.type === 'result') {
+        setResult(message.result);
+      } else {
+        setError(message.message);
+      }
+      cancel();
+    };
+    next.onerror = (event) => {
+      setError(event.message || 'Backtest worker failed');
+      cancel();
+    };
+    const request: BacktestRequest = { type: 'start', input, detectorSnapshot };
+    next.postMessage(request);
+    worker.current = next;
+
+    setResult(null);
+    setError(null);
+    setIsRunning(true);
+  }, [cancel]);
+
+  // A new input makes the last result stale
+  const clear = useCallback(() => {
+    cancel();
+    setResult(null);
+    setError(null);
+  }, [cancel]);
+
+  return { result, isRunning, error, start, cancel, clear };
+};
@@ -1,23 +1,134 @@
-import { useState, useCallback } from 'react';
-import type { SensorReading, ZoneData } from './useRockfallDataGenerator';
-
-interface DetectionModel {
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { SensorInstance, SensorReading, ZoneData, ZoneSensorData } from './useRockfallDataGenerator';
+import { forecastFailureTime } from '../utils/inverseVelocityForecast';
+import type { FailureForecast } from '../utils/inverseVelocityForecast';
+import {
+  computeCalibrationMetrics,
+  parameterThresholdForFalseAlarmRate
+} from '../utils/calibrationMetrics';
+import { DETECTOR_SNAPSHOT_VERSION, parseDetectorSnapshot } from '../utils/detectorSnapshot';
+import { detectorStateStore } from '../services/detectorStateStore';
+import { assessReading } from '../utils/sensorHealth';
+import { analyzeMotion, describeChangePoint, estimateKinematics, seriesFor } from '../utils/changePointDetection';
+import type { MotionAnalysis } from '../utils/changePointDetection';
+import { pointBand, resampleHistory, shiftBand, toBand } from '../utils/predictionUncertainty';
+import type { TimeToEventBand, UncertaintyBand } from '../utils/predictionUncertainty';
+import { createRandom, hashSeed } from '../utils/random';
+import { DEFAULT_PRECURSOR_PATTERNS, PATTERN_REPORT_THRESHOLD, matchPattern } from '../utils/precursorPatterns';
+import type { PrecursorPattern } from '../utils/precursorPatterns';
+import {
+  MS_PER_HOUR,
+  addToTimeGrid,
+  profileSampling,
+  ratePerHour,
+  readingsWithin,
+  spanHours,
+  timeIntegral,
+  trimTimeGrid
+} from '../utils/timeWindows';
+import type { SamplingReport } from '../utils/timeWindows';
+import { DEFAULT_ZONE_AGGREGATION, selectZoneRisk, sensorSeriesId, weightedBand } from '../utils/zoneAggregation';
+import type { ZoneAggregation } from '../utils/zoneAggregation';
+import { HAZARD_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+import type { AssessedReading, SensorHealthReport } from '../utils/sensorHealth';
+import type {
+  DetectorSnapshot,
+  SerializedModelCalibration,
+  SerializedModelState
+} from '../utils/detectorSnapshot';
+import type {
+  CalibrationMetrics,
+  LabeledSequence,
+  ScoredSequence
+} from '../utils/calibrationMetrics';
+
+export interface DetectionModel {
   id: string;
   name: string;
-  type: 'statistical' | 'ml' | 'hybrid';
+  type: 'statistical' | 'ml' | 'hybrid' | 'custom';
+  description?: string;
   accuracy: number;
   lastTrained: Date;
   isActive: boolean;
+  ensembleWeight: number; // Relative weight in the ensemble average
   thresholds: Record<string, number>;
   weights: Record<string, number>;
+  calibration?: ModelCalibration;
+}
+
+export interface ModelCalibration {
+  calibratedAt: Date;
+  metrics: CalibrationMetrics;
+  suggestedThresholds: Record<string, number>; // Sensor thresholds meeting the target false-alarm rate
+}
+
+// Lower bounds of the ensemble risk score for each risk level
+export interface RiskLevelThresholds {
+  medium: number;
+  high: number;
+  critical: number;
+}
+
+export interface CalibrationReport {
+  calibratedAt: Date;
+  targetFalseAlarmRate: number;
+  ensemble: CalibrationMetrics;
+  suggestedRiskLevels: RiskLevelThresholds;
+  models: Record<string, ModelCalibration>;
+}
+
+export interface CalibrationOptions {
+  targetFalseAlarmRate: number; // Fraction of event-free sequences allowed to alarm
+}
+
+export type ModelRunner = (
+  reading: SensorReading,
+  history: SensorReading[],
+  model: DetectionModel
+) => Partial<PredictionResult>;
+
+// What a model supplies when it is registered; everything but id, name and
+// run has a sensible default.
+export interface DetectionModelDefinition {
+  id: string;
+  name: string;
+  type?: DetectionModel['type'];
+  description?: string;
+  accuracy?: number;
+  isActive?: boolean;
+  ensembleWeight?: number;
+  thresholds?: Record<string, number>;
+  weights?: Record<string, number>;
+  run: ModelRunner;
 }
 
-interface PredictionResult {
+interface RegisteredModel extends DetectionModel {
+  run: ModelRunner;
+}
+
+export interface SensorPrediction {
+  sensorId: string;
+  label: string;
+  kind: SensorInstance['kind'];
+  riskScore: number;
+  riskLevel: PredictionResult['riskLevel'];
+  weight: number; // Share of the zone score this sensor accounts for
+}
+
+export interface PredictionResult {
   zoneId: string;
   riskScore: number; // 0-100
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   confidence: number; // 0-100
-  timeToEvent: number | null; // hours until predicted event, null if no event
+  timeToEvent: number | null; // hours until forecast failure, null if data does not support a forecast
+  riskScoreBand: UncertaintyBand; // p10/p50/p90 of riskScore over bootstrap resamples
+  timeToEventBand: TimeToEventBand | null; // null when there is no point forecast
+  failureForecast: FailureForecast;
+  sensorHealth: SensorHealthReport; // Instrument faults are reported here, not as risk factors
+  sampling: SamplingReport; // Reporting interval and gaps in the analysed history
+  drivingSensor: SensorPrediction | null; // Sensor that set the zone's risk; null for zone-level readings
+  sensorPredictions: SensorPrediction[]; // Every sensor in the zone, highest risk first
   factors: Array<{
     parameter: string;
     contribution: number; // -100 to +100
@@ -28,38 +139,95 @@ interface PredictionResult {
   recommendations: string[];
 }
 
-interface HistoricalPattern {
-  pattern: string;
-  frequency: number;
-  severity: number;
-  precursors: string[];
-  duration: number; // hours
+const serializeCalibration = (calibration: ModelCalibration): SerializedModelCalibration => ({
+  ...calibration,
+  calibratedAt: calibration.calibratedAt.toISOString()
+});
+
+const deserializeCalibration = (calibration: SerializedModelCalibration): ModelCalibration => ({
+  ...calibration,
+  calibratedAt: new Date(calibration.calibratedAt)
+});
+
+const SENSOR_HEALTH_WINDOW = 32; // Assessed raw readings kept per zone for fault checks
+
+const ACCELERATION_T_STAT = 2; // |t| above which an acceleration estimate is trusted
+
+// Analysis windows, in steps of the detector's time resolution
+const MIN_HISTORY_STEPS = 10; // History needed before the models run
+const TREND_STEPS = 5; // Recent and preceding windows compared for trends and rates
+const FEATURE_STEPS = 10; // Window for the displacement mean and spread
+const ANOMALY_MIN_STEPS = 20; // History needed for anomaly z-scores
+const KINEMATICS_STEPS = 12; // Window for velocity and acceleration fits
+const CUMULATIVE_RAIN_HOURS = 24;
+
+export interface DetectorOptions {
+  uncertaintyResamples?: number; // Bootstrap resamples per prediction; 0 reports point bands only
+  uncertaintyIntervalSeconds?: number; // Reading time between bootstrap runs per zone; 0 runs on every prediction
+  resolutionSeconds?: number; // Time step readings are averaged into; defaults to 15 minutes
+  historyHours?: number; // History kept per zone; defaults to 48 hours
+  channels?: SensorParameter[]; // Channels the data source carries; the rest are absent, not faulty. Defaults to all
 }
 
-class EnhancedRockfallDetector {
-  private models: DetectionModel[];
-  private historicalData: Map<string, SensorReading[]>;
-  private patterns: HistoricalPattern[];
+// The live simulator reports every zone about once a wall-clock second, too
+// often to bootstrap every tick on one core; bands are refreshed every few
+// seconds and carried with the point estimate in between
+export const LIVE_SIMULATION_DETECTOR_OPTIONS: DetectorOptions = {
+  resolutionSeconds: 1,
+  historyHours: 0.05,
+  uncertaintyResamples: 10,
+  uncertaintyIntervalSeconds: 5
+};
+
+// Field loggers report every few minutes to hours, which the defaults suit
+export const LOGGED_DATA_DETECTOR_OPTIONS: DetectorOptions = {
+  resolutionSeconds: 900,
+  historyHours: 48
+};
+
+export class EnhancedRockfallDetector {
+  private models: Map<string, RegisteredModel>;
+  private historicalData: Map<string, SensorReading[]>; // Cleaned readings the models see, one per time step
+  private stepCounts: Map<string, number[]>; // Readings averaged into each time step
+  private sensorHealth: Map<string, AssessedReading[]>;
+  private patterns: PrecursorPattern[];
   private learningRate: number;
-  private windowSize: number; // Number of readings to consider
-
-  constructor() {
+  private resolutionMs: number;
+  private historyHours: number;
+  private riskLevelThresholds: RiskLevelThresholds;
+  private calibrationReport: CalibrationReport | null;
+  private zoneAggregation: ZoneAggregation;
+  private uncertaintyResamples: number;
+  private uncertaintyIntervalMs: number;
+  private lastUncertainty: Map<string, { time: number; result: PredictionResult }>; // Last bootstrapped prediction per zone
+  private channels: SensorParameter[] | null;
+
+  constructor(options: DetectorOptions = {}) {
+    this.uncertaintyResamples = options.uncertaintyResamples ?? 20;
+    this.uncertaintyIntervalMs = (options.uncertaintyIntervalSeconds ?? 0) * 1000;
+    this.lastUncertainty = new Map();
     this.learningRate = 0.01;
-    this.windowSize = 100;
+    this.resolutionMs = (options.resolutionSeconds ?? 900) * 1000;
+    this.historyHours = options.historyHours ?? 48;
+    this.channels = options.channels ?? null;
+    this.riskLevelThresholds = { medium: 30, high: 60, critical: 80 };
+    this.calibrationReport = null;
+    this.zoneAggregation = { ...DEFAULT_ZONE_AGGREGATION };
     this.historicalData = new Map();
-    this.models = this.initializeModels();
-    this.patterns = this.initializePatterns();
+    this.stepCounts = new Map();
+    this.sensorHealth = new Map();
+    this.models = new Map();
+    this.patterns = structuredClone(DEFAULT_PRECURSOR_PATTERNS);
+    this.initializeModels().forEach(definition => this.registerModel(definition));
   }
 
-  private initializeModels(): DetectionModel[] {
+  private initializeModels(): DetectionModelDefinition[] {
     return [
       {
         id: 'statistical-threshold',
         name: 'Statistical Threshold Analysis',
         type: 'statistical',
         accuracy: 85,
-        lastTrained: new Date(),
-        isActive: true,
         thresholds: {
           displacement: 15.0,
           strain: 800,
@@ -73,15 +241,14 @@ class EnhancedRockfallDetector {
           porePressure: 0.20,
           vibration: 0.15,
           tiltAngle: 0.20
-        }
+        },
+        run: (reading, history, model) => this.runStatisticalModel(model, reading, history)
       },
       {
         id: 'pattern-recognition',
         name: 'Pattern Recognition Engine',
         type: 'ml',
         accuracy: 92,
-        lastTrained: new Date(),
-        isActive: true,
         thresholds: {
           patternMatch: 0.8,
           anomalyScore: 0.6,
@@ -90,15 +257,14 @@ class EnhancedRockfallDetector {
         weights: {
           historical: 0.4,
           realtime: 0.6
-        }
+        },
+        run: (reading, history, model) => this.runMLModel(model, reading, history)
       },
       {
         id: 'hybrid-predictor',
         name: 'Hybrid ML Predictor',
         type: 'hybrid',
         accuracy: 94,
-        lastTrained: new Date(),
-        isActive: true,
         thresholds: {
           ensembleScore: 0.75,
           confidenceThreshold: 0.8
@@ -107,107 +273,305 @@ class EnhancedRockfallDetector {
           statistical: 0.3,
           pattern: 0.4,
           environmental: 0.3
-        }
+        },
+        run: (reading, history, model) => this.runHybridModel(model, reading, history)
       }
     ];
   }
 
-  private initializePatterns(): HistoricalPattern[] {
-    return [
-      {
-        pattern: 'Gradual_Displacement_Increase',
-        frequency: 0.3,
-        severity: 0.7,
-        precursors: ['increased_strain', 'pore_pressure_buildup'],
-        duration: 48
-      },
-      {
-        pattern: 'Rainfall_Induced_Instability',
-        frequency: 0.25,
-        severity: 0.8,
-        precursors: ['high_rainfall', 'soil_saturation', 'increased_pore_pressure'],
-        duration: 24
-      },
-      {
-        pattern: 'Vibration_Triggered_Event',
-        frequency: 0.15,
-        severity: 0.9,
-        precursors: ['equipment_vibration', 'blasting_activity', 'structural_resonance'],
-        duration: 6
-      },
-      {
-        pattern: 'Temperature_Cycle_Fatigue',
-        frequency: 0.2,
-        severity: 0.6,
-        precursors: ['freeze_thaw_cycles', 'thermal_expansion', 'joint_degradation'],
-        duration: 72
-      },
-      {
-        pattern: 'Progressive_Failure',
-        frequency: 0.1,
-        severity: 1.0,
-        precursors: ['multiple_parameter_escalation', 'accelerating_displacement', 'structural_damage'],
-        duration: 12
-      }
-    ];
+  registerModel(definition: DetectionModelDefinition): void {
+    if (this.models.has(definition.id)) {
+      throw new Error(`Detection model "${definition.id}" is already registered`);
+    }
+
+    const accuracy = definition.accuracy ?? 80;
+    this.models.set(definition.id, {
+      id: definition.id,
+      name: definition.name,
+      type: definition.type ?? 'custom',
+      description: definition.description,
+      accuracy,
+      lastTrained: new Date(),
+      isActive: definition.isActive ?? true,
+      ensembleWeight: definition.ensembleWeight ?? accuracy / 100,
+      thresholds: { ...definition.thresholds },
+      weights: { ...definition.weights },
+      run: definition.run
+    });
   }
 
-  addReading(zoneId: string, reading: SensorReading): void {
-    if (!this.historicalData.has(zoneId)) {
-      this.historicalData.set(zoneId, []);
-    }
+  unregisterModel(modelId: string): boolean {
+    return this.models.delete(modelId);
+  }
 
-    const history = this.historicalData.get(zoneId)!;
-    history.push(reading);
+  setModelEnabled(modelId: string, enabled: boolean): void {
+    const model = this.models.get(modelId);
+    if (!model) {
+      throw new Error(`Unknown detection model "${modelId}"`);
+    }
+    model.isActive = enabled;
+  }
 
-    // Maintain sliding window
-    if (history.length > this.windowSize) {
-      history.shift();
+  setModelWeight(modelId: string, weight: number): void {
+    const model = this.models.get(modelId);
+    if (!model) {
+      throw new Error(`Unknown detection model "${modelId}"`);
+    }
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Ensemble weight must be a non-negative number (got ${weight})`);
     }
+    model.ensembleWeight = weight;
+  }
+
+  addReading(zoneId: string, reading: SensorReading): void {
+    // Health-check the raw values first so faulty ones never reach the models
+    const assessed = this.pushAssessment(this.sensorHealth, zoneId, reading);
+
+    const history = this.historicalData.get(zoneId) ?? [];
+    const counts = this.stepCounts.get(zoneId) ?? [];
+    this.pushToHistory(history, counts, assessed.cleaned);
 
     this.historicalData.set(zoneId, history);
+    this.stepCounts.set(zoneId, counts);
+  }
+
+  // Forgets every series, e.g. when the data source changes or a replay jumps.
+  // The time step and history length can change with it; learned model state
+  // and calibration are kept. Channels belong to the source, so they go back
+  // to all of them unless given.
+  resetHistory(options: Pick<DetectorOptions, 'resolutionSeconds' | 'historyHours' | 'channels'> = {}): void {
+    this.resolutionMs = (options.resolutionSeconds ?? this.resolutionMs / 1000) * 1000;
+    this.historyHours = options.historyHours ?? this.historyHours;
+    this.channels = options.channels ?? null;
+    this.historicalData = new Map();
+    this.stepCounts = new Map();
+    this.sensorHealth = new Map();
+    this.lastUncertainty = new Map();
+  }
+
+  private pushToHistory(history: SensorReading[], counts: number[], reading: SensorReading): void {
+    addToTimeGrid(history, counts, reading, this.resolutionMs);
+    trimTimeGrid(history, counts, this.historyHours);
+  }
+
+  private stepHours(steps: number): number {
+    return steps * this.resolutionMs / MS_PER_HOUR;
+  }
+
+  // Judged on time covered rather than reading count, so a fast logger is not
+  // ready sooner than a slow one
+  private hasHistory(history: SensorReading[], steps: number): boolean {
+    return history.length >= Math.min(steps, 5) && spanHours(history) >= this.stepHours(steps - 1);
   }
 
   predict(zoneId: string, currentReading: SensorReading): PredictionResult {
     const history = this.historicalData.get(zoneId) || [];
-    
-    // Ensure we have enough historical data
-    if (history.length < 10) {
-      return this.createBasicPrediction(zoneId, currentReading);
-    }
-
-    // Run all active models
-    const modelResults = this.models
-      .filter(model => model.isActive)
-      .map(model => this.runModel(model, zoneId, currentReading, history));
+    const activeModels = Array.from(this.models.values()).filter(model => model.isActive);
+    const assessed = this.assessmentFor(zoneId, currentReading);
 
-    // Ensemble prediction
-    const ensembleResult = this.combineModelResults(modelResults, zoneId, currentReading);
+    const ensembleResult = this.evaluate(zoneId, assessed, history, activeModels);
+    this.estimateUncertainty(ensembleResult, assessed, history, activeModels);
     
     // Update models based on feedback (simplified online learning)
-    this.updateModels(zoneId, currentReading, ensembleResult);
+    if (this.hasHistory(history, MIN_HISTORY_STEPS)) {
+      this.updateModels(zoneId, assessed.cleaned, ensembleResult);
+    }
 
     return ensembleResult;
   }
 
+  // Runs the detector on each sensor's own series (added beforehand with
+  // addReading under sensorSeriesId) and aggregates to the zone with the
+  // configured method. Only the driving sensor is resampled for bands.
+  predictZone(zoneId: string, sensors: ZoneSensorData[]): PredictionResult {
+    if (sensors.length === 0) {
+      throw new Error(`Zone "${zoneId}" has no sensors to predict from`);
+    }
+    const activeModels = Array.from(this.models.values()).filter(model => model.isActive);
+
+    const runs = sensors.map(({ sensor, lastReading }) => {
+      const seriesId = sensorSeriesId(zoneId, sensor.sensorId);
+      const history = this.historicalData.get(seriesId) || [];
+      const assessed = this.assessmentFor(seriesId, lastReading);
+      return { sensor, history, assessed, result: this.evaluate(zoneId, assessed, history, activeModels) };
+    });
+
+    const selection = selectZoneRisk(
+      runs.map(run => ({ sensor: run.sensor, riskScore: run.result.riskScore })),
+      this.zoneAggregation
+    );
+    const driver = runs[selection.driverIndex];
+    this.estimateUncertainty(driver.result, driver.assessed, driver.history, activeModels);
+
+    const sensorPredictions: SensorPrediction[] = runs
+      .map((run, i) => ({
+        sensorId: run.sensor.sensorId,
+        label: run.sensor.label,
+        kind: run.sensor.kind,
+        riskScore: run.result.riskScore,
+        riskLevel: run.result.riskLevel,
+        weight: selection.weights[i]
+      }))
+      .sort((a, b) => b.riskScore - a.riskScore);
+
+    const riskScore = Math.round(selection.riskScore);
+    const riskLevel = this.determineRiskLevel(riskScore);
+    const base = driver.result;
+    const result: PredictionResult = {
+      ...base,
+      riskScore,
+      riskLevel,
+      riskScoreBand: this.zoneAggregation.method === 'crest_weighted'
+        ? weightedBand(runs.map(run => run.result.riskScoreBand), selection.weights)
+        : base.riskScoreBand,
+      // Faults from every instrument, labelled, so none is hidden by the choice of driver
+      sensorHealth: {
+        ...base.sensorHealth,
+        faults: runs.flatMap(run => run.result.sensorHealth.faults.map(fault => ({
+          ...fault,
+          sensorId: run.sensor.sensorId,
+          message: `${run.sensor.label} — ${fault.message}`
+        })))
+      },
+      drivingSensor: sensorPredictions.find(prediction => prediction.sensorId === driver.sensor.sensorId) ?? null,
+      sensorPredictions,
+      recommendations: riskLevel === base.riskLevel
+        ? base.recommendations
+        : this.generateRecommendations(riskLevel, base.factors, base.patterns, base.failureForecast, base.sampling)
+    };
+
+    if (this.hasHistory(driver.history, MIN_HISTORY_STEPS)) {
+      this.updateModels(zoneId, driver.assessed.cleaned, result);
+    }
+
+    return result;
+  }
+
+  // Reuse the assessment made by addReading; readings that were never added
+  // are checked against the series' window without being recorded.
+  private assessmentFor(seriesId: string, reading: SensorReading): AssessedReading {
+    const window = this.sensorHealth.get(seriesId) || [];
+    const latest = window[window.length - 1];
+    return latest?.raw === reading ? latest : assessReading(reading, window, { channels: this.channels });
+  }
+
+  // Re-runs the ensemble on bootstrap resamples of the history window to turn
+  // the point prediction into p10/p50/p90 bands. Seeded from the zone and
+  // reading time, so replays and backtests give the same bands every run.
+  private estimateUncertainty(
+    result: PredictionResult,
+    assessed: AssessedReading,
+    history: SensorReading[],
+    models: RegisteredModel[]
+  ): void {
+    if (!this.hasHistory(history, MIN_HISTORY_STEPS) || this.uncertaintyResamples <= 0) return;
+
+    // Between runs, the last bands move with the point estimates
+    const time = assessed.raw.timestamp;
+    const last = this.lastUncertainty.get(result.zoneId);
+    if (last && time >= last.time && time - last.time < this.uncertaintyIntervalMs) {
+      result.riskScoreBand = shiftBand(last.result.riskScoreBand, result.riskScore - last.result.riskScore, 0, 100);
+      if (result.timeToEvent !== null && last.result.timeToEvent !== null && last.result.timeToEventBand) {
+        result.timeToEventBand = shiftBand(last.result.timeToEventBand, result.timeToEvent - last.result.timeToEvent, 0);
+      }
+      return;
+    }
+
+    const random = createRandom(hashSeed(result.zoneId, assessed.raw.timestamp));
+    const samples = Array.from({ length: this.uncertaintyResamples }, () =>
+      this.evaluate(result.zoneId, assessed, resampleHistory(history, random), models));
+
+    result.riskScoreBand = toBand(samples.map(sample => sample.riskScore)) ?? result.riskScoreBand;
+
+    if (result.timeToEvent !== null) {
+      const hours = samples
+        .map(sample => sample.timeToEvent)
+        .filter((value): value is number => value !== null);
+      const band = toBand(hours);
+      result.timeToEventBand = band && { ...band, forecastShare: hours.length / samples.length };
+    }
+    if (this.uncertaintyIntervalMs > 0) {
+      this.lastUncertainty.set(result.zoneId, { time, result: { ...result } });
+    }
+  }
+
+  private pushAssessment(
+    windows: Map<string, AssessedReading[]>,
+    zoneId: string,
+    reading: SensorReading
+  ): AssessedReading {
+    const window = windows.get(zoneId) || [];
+    const assessed = assessReading(reading, window, { channels: this.channels });
+    window.push(assessed);
+    if (window.length > SENSOR_HEALTH_WINDOW) {
+      window.shift();
+    }
+    windows.set(zoneId, window);
+    return assessed;
+  }
+
+  // Side-effect free prediction over an explicit history and model set, so
+  // calibration and replays never touch live zone state.
+  private evaluate(
+    zoneId: string,
+    assessed: AssessedReading,
+    history: SensorReading[],
+    models: RegisteredModel[]
+  ): PredictionResult {
+    const currentReading = assessed.cleaned;
+    const sampling = profileSampling(history, this.resolutionMs);
+    let result: PredictionResult;
+
+    // Ensure we have enough historical data
+    if (!this.hasHistory(history, MIN_HISTORY_STEPS)) {
+      result = this.createBasicPrediction(zoneId, currentReading, history, assessed.report, sampling);
+    } else {
+      // Run the given models, keeping each result paired with its model
+      const modelResults = models.map(model => ({
+        model,
+        result: this.runModel(model, zoneId, currentReading, history)
+      }));
+
+      // Time-of-failure forecast from the displacement history
+      const failureForecast = forecastFailureTime(history);
+
+      // Velocity, acceleration and regime changes per monitored parameter
+      const motion = HAZARD_PARAMETERS.map(param =>
+        analyzeMotion(history, param, {}, this.stepHours(KINEMATICS_STEPS)));
+
+      // Ensemble prediction
+      result = this.combineModelResults(
+        modelResults, zoneId, currentReading, failureForecast, motion, assessed.report, sampling
+      );
+    }
+
+    // Substituted or doubtful instrument data, and history lost to gaps,
+    // weaken the prediction
+    result.confidence = Math.round(result.confidence * assessed.report.score * sampling.coverage);
+    return result;
+  }
+
   private runModel(
-    model: DetectionModel, 
+    model: RegisteredModel, 
     _zoneId: string, 
     currentReading: SensorReading, 
     history: SensorReading[]
   ): Partial<PredictionResult> {
-    switch (model.type) {
-      case 'statistical':
-        return this.runStatisticalModel(model, currentReading, history);
-      case 'ml':
-        return this.runMLModel(model, currentReading, history);
-      case 'hybrid':
-        return this.runHybridModel(model, currentReading, history);
-      default:
-        return { riskScore: 0, confidence: 0 };
+    try {
+      return model.run(currentReading, history, this.toModelStats(model));
+    } catch (error) {
+      // A faulty site model must not take the whole ensemble down
+      console.error(`Detection model "${model.id}" failed:`, error);
+      return { riskScore: 0, confidence: 0 };
     }
   }
 
+  private toModelStats(model: RegisteredModel): DetectionModel {
+    const stats: Partial<RegisteredModel> = { ...model };
+    delete stats.run;
+    return stats as DetectionModel;
+  }
+
   private runStatisticalModel(
     model: DetectionModel, 
     currentReading: SensorReading, 
@@ -252,19 +616,13 @@ class EnhancedRockfallDetector {
     currentReading: SensorReading, 
     history: SensorReading[]
   ): Partial<PredictionResult> {
-    // Pattern matching against known failure patterns
-    const patternScores = this.patterns.map(pattern => {
-      const matchScore = this.calculatePatternMatch(pattern, history, currentReading);
-      return {
-        pattern,
-        score: matchScore,
-        timeToEvent: matchScore > 0.7 ? pattern.duration : null
-      };
-    });
-
-    const bestMatch = patternScores.reduce((best, current) => 
-      current.score > best.score ? current : best
-    );
+    // Pattern matching against the precursor library
+    const bestMatch = this.patterns
+      .map(pattern => ({ pattern, score: matchPattern(pattern, history, currentReading) }))
+      .reduce<{ pattern: PrecursorPattern | null; score: number }>(
+        (best, current) => current.score > best.score ? current : best,
+        { pattern: null, score: 0 }
+      );
 
     // Anomaly detection
     const anomalyScore = this.detectAnomalies(history, currentReading);
@@ -274,7 +632,7 @@ class EnhancedRockfallDetector {
     const mlRiskScore = this.calculateMLRisk(features, bestMatch.score, anomalyScore);
 
     const patterns: string[] = [];
-    if (bestMatch.score > 0.6) {
+    if (bestMatch.pattern && bestMatch.score > PATTERN_REPORT_THRESHOLD) {
       patterns.push(bestMatch.pattern.pattern);
     }
     if (anomalyScore > 0.7) {
@@ -284,7 +642,6 @@ class EnhancedRockfallDetector {
     return {
       riskScore: mlRiskScore,
       confidence: this.calculateMLConfidence(bestMatch.score, anomalyScore),
-      timeToEvent: bestMatch.timeToEvent,
       patterns
     };
   }
@@ -294,9 +651,14 @@ class EnhancedRockfallDetector {
     currentReading: SensorReading, 
     history: SensorReading[]
   ): Partial<PredictionResult> {
-    // Combine statistical and ML approaches
-    const statisticalResult = this.runStatisticalModel(this.models[0], currentReading, history);
-    const mlResult = this.runMLModel(this.models[1], currentReading, history);
+    // Combine statistical and ML approaches, using the registered models'
+    // current thresholds where they are still present
+    const statisticalModel = this.models.get('statistical-threshold');
+    const patternModel = this.models.get('pattern-recognition');
+    const statisticalResult = statisticalModel
+      ? this.runStatisticalModel(statisticalModel, currentReading, history)
+      : {};
+    const mlResult = this.runMLModel(patternModel ?? model, currentReading, history);
 
     // Environmental factor analysis
     const environmentalRisk = this.assessEnvironmentalFactors(currentReading, history);
@@ -315,48 +677,131 @@ class EnhancedRockfallDetector {
     return {
       riskScore: hybridRiskScore,
       confidence: hybridConfidence,
-      timeToEvent: mlResult.timeToEvent,
       patterns: mlResult.patterns || [],
       factors: statisticalResult.factors || []
     };
   }
 
   private combineModelResults(
-    modelResults: Partial<PredictionResult>[], 
+    modelResults: Array<{ model: DetectionModel; result: Partial<PredictionResult> }>, 
     zoneId: string, 
-    _currentReading: SensorReading
+    _currentReading: SensorReading,
+    failureForecast: FailureForecast,
+    motion: MotionAnalysis[],
+    sensorHealth: SensorHealthReport,
+    sampling: SamplingReport
   ): PredictionResult {
-    const weightedRiskScore = modelResults.reduce((sum, result, index) => {
-      const weight = this.models[index].accuracy / 100;
-      return sum + (result.riskScore || 0) * weight;
-    }, 0) / modelResults.length;
+    const totalWeight = modelResults.reduce((sum, { model }) => sum + model.ensembleWeight, 0);
+    const weightedRiskScore = totalWeight > 0
+      ? modelResults.reduce((sum, { model, result }) =>
+          sum + (result.riskScore || 0) * model.ensembleWeight, 0) / totalWeight
+      : 0;
 
-    const maxConfidence = Math.max(...modelResults.map(r => r.confidence || 0));
+    const maxConfidence = Math.max(0, ...modelResults.map(({ result }) => result.confidence || 0));
     
-    const allFactors = modelResults.flatMap(r => r.factors || []);
-    const allPatterns = modelResults.flatMap(r => r.patterns || []);
-    const timeToEvent = modelResults.find(r => r.timeToEvent !== null)?.timeToEvent || null;
+    const motionFindings = this.describeMotion(motion);
+    const allFactors = [...modelResults.flatMap(({ result }) => result.factors || []), ...motionFindings.factors];
+    const allPatterns = [...modelResults.flatMap(({ result }) => result.patterns || []), ...motionFindings.patterns];
+    if (failureForecast.status === 'forecast') {
+      allPatterns.push('Accelerating_Displacement');
+    }
+    const latestGap = sampling.gaps[sampling.gaps.length - 1];
+    if (latestGap) {
+      allPatterns.push(
+        `Data gap of ${latestGap.hours.toFixed(1)} h ending ${new Date(latestGap.end).toLocaleString()}` +
+        (sampling.gaps.length > 1 ? ` (${sampling.gaps.length} gaps in history)` : '')
+      );
+    }
 
     const riskLevel = this.determineRiskLevel(weightedRiskScore);
-    const recommendations = this.generateRecommendations(riskLevel, allFactors, allPatterns);
+    const recommendations = this.generateRecommendations(riskLevel, allFactors, allPatterns, failureForecast, sampling);
 
     return {
       zoneId,
       riskScore: Math.round(weightedRiskScore),
       riskLevel,
       confidence: Math.round(maxConfidence),
-      timeToEvent,
+      timeToEvent: failureForecast.hoursToFailure,
+      // Point bands; predict() widens them by resampling
+      riskScoreBand: pointBand(Math.round(weightedRiskScore)),
+      timeToEventBand: failureForecast.hoursToFailure === null
+        ? null
+        : { ...pointBand(failureForecast.hoursToFailure), forecastShare: 1 },
+      failureForecast,
+      sensorHealth,
+      sampling,
+      drivingSensor: null,
+      sensorPredictions: [],
       factors: this.consolidateFactors(allFactors),
       patterns: [...new Set(allPatterns)], // Remove duplicates
       recommendations
     };
   }
 
+  // Explicit factor and pattern entries for each parameter's latest regime
+  // change and any statistically supported acceleration.
+  private describeMotion(motion: MotionAnalysis[]): { factors: PredictionResult['factors']; patterns: string[] } {
+    const factors: PredictionResult['factors'] = [];
+    const patterns: string[] = [];
+    const significance = (contribution: number) =>
+      Math.abs(contribution) > 20 ? 'high' : Math.abs(contribution) > 10 ? 'medium' : 'low';
+
+    motion.forEach(({ parameter, kinematics, changePoints }) => {
+      const unit = SENSOR_PARAMETER_REGISTRY[parameter].unit;
+      const latest = changePoints[changePoints.length - 1];
+      if (latest) {
+        const scale = Math.max(Math.abs(latest.rateBefore), Math.abs(latest.rateAfter) * 0.1, 1e-6);
+        const relativeChange = Math.abs(latest.rateAfter - latest.rateBefore) / scale;
+        const sign = latest.direction === 'increase' ? 1 : -1;
+        const contribution = sign * Math.min(40, 10 * Math.log2(1 + relativeChange));
+        factors.push({
+          parameter: `${parameter}_regime_change`,
+          contribution,
+          trend: sign > 0 ? 'worsening' : 'improving',
+          significance: significance(contribution)
+        });
+        patterns.push(describeChangePoint(parameter, latest, unit));
+      }
+
+      if (kinematics && Math.abs(kinematics.accelerationTStat) >= ACCELERATION_T_STAT) {
+        const sign = Math.sign(kinematics.acceleration);
+        const contribution = sign * Math.min(40, 5 * Math.abs(kinematics.accelerationTStat));
+        factors.push({
+          parameter: `${parameter}_acceleration`,
+          contribution,
+          trend: sign > 0 ? 'worsening' : 'improving',
+          significance: significance(contribution)
+        });
+        patterns.push(
+          `${parameter} ${sign > 0 ? 'accelerating' : 'decelerating'} ` +
+          `(v ${kinematics.velocity.toFixed(2)} ${unit}/h, a ${kinematics.acceleration.toFixed(3)} ${unit}/h²)`
+        );
+      }
+    });
+
+    return { factors, patterns };
+  }
+
   private calculateTrend(parameter: string, history: SensorReading[]): 'improving' | 'stable' | 'worsening' {
-    if (history.length < 5) return 'stable';
+    if (!this.hasHistory(history, TREND_STEPS)) return 'stable';
+
+    // A significant acceleration outranks the level comparison below, which
+    // cannot tell steady creep from the onset of acceleration.
+    const kinematicsWindow = readingsWithin(history, this.stepHours(KINEMATICS_STEPS));
+    const kinematics = estimateKinematics(
+      seriesFor(kinematicsWindow, parameter as keyof SensorReading),
+      kinematicsWindow.length
+    );
+    if (kinematics && Math.abs(kinematics.accelerationTStat) >= ACCELERATION_T_STAT) {
+      return kinematics.acceleration > 0 ? 'worsening' : 'improving';
+    }
 
-    const recent = history.slice(-5);
-    const older = history.slice(-10, -5);
+    // Mean of the latest trend window against the one before it
+    const windowHours = this.stepHours(TREND_STEPS);
+    const latest = history[history.length - 1].timestamp;
+    const recent = readingsWithin(history, windowHours);
+    const older = readingsWithin(history, windowHours, latest - windowHours * MS_PER_HOUR);
+    if (older.length === 0) return 'stable';
 
     const recentAvg = recent.reduce((sum, r) => sum + (r[parameter as keyof SensorReading] as number || 0), 0) / recent.length;
     const olderAvg = older.reduce((sum, r) => sum + (r[parameter as keyof SensorReading] as number || 0), 0) / older.length;
@@ -369,12 +814,11 @@ class EnhancedRockfallDetector {
   }
 
   private analyzeTrends(history: SensorReading[]): { riskContribution: number } {
-    if (history.length < 10) return { riskContribution: 0 };
+    if (!this.hasHistory(history, MIN_HISTORY_STEPS)) return { riskContribution: 0 };
 
-    const parameters = ['displacement', 'strain', 'porePressure', 'vibration', 'tiltAngle'];
     let riskContribution = 0;
 
-    parameters.forEach(param => {
+    HAZARD_PARAMETERS.forEach(param => {
       const trend = this.calculateTrend(param, history);
       if (trend === 'worsening') {
         riskContribution += 10; // Add risk for worsening trends
@@ -384,61 +828,18 @@ class EnhancedRockfallDetector {
     return { riskContribution };
   }
 
-  private calculatePatternMatch(
-    pattern: HistoricalPattern, 
-    _history: SensorReading[], 
-    currentReading: SensorReading
-  ): number {
-    // Simplified pattern matching - in reality, this would be much more sophisticated
-    let matchScore = 0;
-
-    // Check for precursor conditions
-    pattern.precursors.forEach(precursor => {
-      switch (precursor) {
-        case 'increased_strain':
-          if (currentReading.strain > 500) matchScore += 0.2;
-          break;
-        case 'pore_pressure_buildup':
-          if (currentReading.porePressure > 400) matchScore += 0.2;
-          break;
-        case 'high_rainfall':
-          if (currentReading.rainfall > 25) matchScore += 0.3;
-          break;
-        case 'soil_saturation':
-          if (currentReading.soilMoisture > 80) matchScore += 0.2;
-          break;
-        case 'equipment_vibration':
-          if (currentReading.vibration > 5) matchScore += 0.3;
-          break;
-        case 'freeze_thaw_cycles':
-          if (Math.abs(currentReading.temperature) < 5) matchScore += 0.1;
-          break;
-        case 'multiple_parameter_escalation':
-          let escalatedCount = 0;
-          if (currentReading.displacement > 10) escalatedCount++;
-          if (currentReading.strain > 600) escalatedCount++;
-          if (currentReading.porePressure > 450) escalatedCount++;
-          if (escalatedCount >= 2) matchScore += 0.4;
-          break;
-      }
-    });
-
-    return Math.min(1.0, matchScore);
-  }
-
   private detectAnomalies(history: SensorReading[], currentReading: SensorReading): number {
-    if (history.length < 20) return 0;
+    if (!this.hasHistory(history, ANOMALY_MIN_STEPS)) return 0;
 
-    const parameters = ['displacement', 'strain', 'porePressure', 'vibration', 'tiltAngle'];
     let anomalyScore = 0;
 
-    parameters.forEach(param => {
-      const values = history.map(r => r[param as keyof SensorReading] as number).filter(v => v !== undefined);
+    HAZARD_PARAMETERS.forEach(param => {
+      const values = history.map(r => r[param]).filter(v => v !== undefined);
       const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
       const variance = values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length;
       const stdDev = Math.sqrt(variance);
 
-      const currentValue = currentReading[param as keyof SensorReading] as number;
+      const currentValue = currentReading[param];
       if (currentValue !== undefined) {
         const zScore = Math.abs((currentValue - mean) / stdDev);
         if (zScore > 3) anomalyScore += 0.2; // Highly anomalous
@@ -452,17 +853,15 @@ class EnhancedRockfallDetector {
   private extractFeatures(history: SensorReading[], currentReading: SensorReading): Record<string, number> {
     const features: Record<string, number> = {};
 
-    // Rate of change features
-    if (history.length >= 2) {
-      const previous = history[history.length - 1];
-      features.displacementRate = currentReading.displacement - previous.displacement;
-      features.strainRate = currentReading.strain - previous.strain;
-      features.pressureRate = currentReading.porePressure - previous.porePressure;
-    }
+    // Rate of change features, per hour over the latest trend window
+    const rateWindow = readingsWithin(history, this.stepHours(TREND_STEPS));
+    features.displacementRate = ratePerHour(rateWindow, 'displacement') ?? 0;
+    features.strainRate = ratePerHour(rateWindow, 'strain') ?? 0;
+    features.pressureRate = ratePerHour(rateWindow, 'porePressure') ?? 0;
 
     // Statistical features
-    if (history.length >= 10) {
-      const recent = history.slice(-10);
+    if (this.hasHistory(history, FEATURE_STEPS)) {
+      const recent = readingsWithin(history, this.stepHours(FEATURE_STEPS));
       features.displacementMean = recent.reduce((sum, r) => sum + r.displacement, 0) / recent.length;
       features.displacementStd = Math.sqrt(
         recent.reduce((sum, r) => sum + Math.pow(r.displacement - features.displacementMean, 2), 0) / recent.length
@@ -503,11 +902,10 @@ class EnhancedRockfallDetector {
     if (currentReading.rainfall > 50) environmentalRisk += 30;
     else if (currentReading.rainfall > 25) environmentalRisk += 15;
 
-    // Cumulative rainfall
-    if (history.length >= 24) { // Last 24 readings
-      const cumulativeRain = history.slice(-24).reduce((sum, r) => sum + r.rainfall, 0);
-      if (cumulativeRain > 100) environmentalRisk += 20;
-    }
+    // Cumulative rainfall (mm) over the last day; a partial day can only
+    // under-count, so it is checked as soon as there is any history
+    const cumulativeRain = timeIntegral(readingsWithin(history, CUMULATIVE_RAIN_HOURS), 'rainfall') ?? 0;
+    if (cumulativeRain > 100) environmentalRisk += 20;
 
     // Temperature extremes
     if (Math.abs(currentReading.temperature) > 35 || currentReading.temperature < -10) {
@@ -524,14 +922,15 @@ class EnhancedRockfallDetector {
   }
 
   private determineRiskLevel(riskScore: number): 'low' | 'medium' | 'high' | 'critical' {
-    if (riskScore >= 80) return 'critical';
-    if (riskScore >= 60) return 'high';
-    if (riskScore >= 30) return 'medium';
+    if (riskScore >= this.riskLevelThresholds.critical) return 'critical';
+    if (riskScore >= this.riskLevelThresholds.high) return 'high';
+    if (riskScore >= this.riskLevelThresholds.medium) return 'medium';
     return 'low';
   }
 
   private calculateStatisticalConfidence(history: SensorReading[]): number {
-    const baseConfidence = Math.min(90, 50 + history.length * 2); // More data = higher confidence
+    // More data = higher confidence, counted in time steps covered
+    const baseConfidence = Math.min(90, 50 + 2 * spanHours(history) / this.stepHours(1));
     return baseConfidence;
   }
 
@@ -558,7 +957,9 @@ class EnhancedRockfallDetector {
   private generateRecommendations(
     riskLevel: string, 
     factors: PredictionResult['factors'], 
-    patterns: string[]
+    patterns: string[],
+    failureForecast: FailureForecast,
+    sampling: SamplingReport
   ): string[] {
     const recommendations: string[] = [];
 
@@ -613,10 +1014,27 @@ class EnhancedRockfallDetector {
       }
     });
 
+    // Forecast-specific recommendations
+    if (failureForecast.status === 'forecast' && failureForecast.window) {
+      const latest = new Date(failureForecast.window.latest).toLocaleString();
+      recommendations.push(`Inverse-velocity forecast: clear the zone before ${new Date(failureForecast.window.earliest).toLocaleString()} (window ends ${latest})`);
+      recommendations.push('Confirm acceleration with independent survey readings');
+    }
+
+    if (sampling.gaps.length > 0) {
+      recommendations.push('Check logger power and telemetry: readings are missing from the history');
+    }
+
     return [...new Set(recommendations)]; // Remove duplicates
   }
 
-  private createBasicPrediction(zoneId: string, currentReading: SensorReading): PredictionResult {
+  private createBasicPrediction(
+    zoneId: string,
+    currentReading: SensorReading,
+    history: SensorReading[],
+    sensorHealth: SensorHealthReport,
+    sampling: SamplingReport
+  ): PredictionResult {
     // Basic threshold-based prediction for insufficient data
     let riskScore = 0;
     const factors: PredictionResult['factors'] = [];
@@ -647,6 +1065,13 @@ class EnhancedRockfallDetector {
       riskLevel: this.determineRiskLevel(riskScore),
       confidence: 50, // Low confidence with insufficient data
       timeToEvent: null,
+      riskScoreBand: pointBand(riskScore),
+      timeToEventBand: null,
+      failureForecast: forecastFailureTime(history),
+      sensorHealth,
+      sampling,
+      drivingSensor: null,
+      sensorPredictions: [],
       factors,
       patterns: ['Insufficient historical data for pattern analysis'],
       recommendations: ['Collect more data for improved predictions', 'Use threshold-based monitoring']
@@ -670,37 +1095,321 @@ class EnhancedRockfallDetector {
   }
 
   getModelStats(): DetectionModel[] {
-    return [...this.models];
+    return Array.from(this.models.values()).map(model => this.toModelStats(model));
+  }
+
+  getHistoricalPatterns(): PrecursorPattern[] {
+    return structuredClone(this.patterns);
   }
 
-  getHistoricalPatterns(): HistoricalPattern[] {
-    return [...this.patterns];
+  // Replaces the precursor library. Definitions are taken as given; use
+  // validatePatternLibrary to warn about precursors that can never match.
+  setPatternLibrary(patterns: PrecursorPattern[]): void {
+    this.patterns = structuredClone(patterns);
   }
 
-  calibrateModel(modelId: string, trainingData: Array<{ reading: SensorReading; outcome: boolean }>): void {
-    const model = this.models.find(m => m.id === modelId);
-    if (!model) return;
+  resetPatternLibrary(): void {
+    this.patterns = structuredClone(DEFAULT_PRECURSOR_PATTERNS);
+  }
 
-    // Simplified calibration - in reality, this would involve proper ML training
-    model.lastTrained = new Date();
-    
-    // Calculate accuracy based on training data
-    let correct = 0;
-    trainingData.forEach(({ reading, outcome }) => {
-      const prediction = this.predict('calibration', reading);
-      const predicted = prediction.riskLevel === 'high' || prediction.riskLevel === 'critical';
-      if (predicted === outcome) correct++;
+  getZoneAggregation(): ZoneAggregation {
+    return { ...this.zoneAggregation };
+  }
+
+  setZoneAggregation(aggregation: ZoneAggregation): void {
+    if (!Number.isInteger(aggregation.quorum) || aggregation.quorum < 1) {
+      throw new Error(`Quorum must be a whole number of sensors (got ${aggregation.quorum})`);
+    }
+    if (!(aggregation.crestScale > 0)) {
+      throw new Error(`Crest scale must be a positive distance (got ${aggregation.crestScale})`);
+    }
+    this.zoneAggregation = { ...aggregation };
+  }
+
+  getRiskLevelThresholds(): RiskLevelThresholds {
+    return { ...this.riskLevelThresholds };
+  }
+
+  getCalibrationReport(): CalibrationReport | null {
+    return this.calibrationReport;
+  }
+
+  // Replay a labeled sequence through the given models with a private
+  // history window, recording the ensemble risk score after every reading.
+  private scoreSequence(sequence: LabeledSequence, models: RegisteredModel[]): ScoredSequence {
+    const eventTime = sequence.outcome
+      ? sequence.eventTime ?? sequence.readings[sequence.readings.length - 1]?.timestamp ?? null
+      : null;
+    const history: SensorReading[] = [];
+    const counts: number[] = [];
+    const healthWindows = new Map<string, AssessedReading[]>();
+    const scores: ScoredSequence['scores'] = [];
+
+    sequence.readings
+      .filter(reading => eventTime === null || reading.timestamp <= eventTime)
+      .forEach(reading => {
+        const assessed = this.pushAssessment(healthWindows, 'calibration', reading);
+        this.pushToHistory(history, counts, assessed.cleaned);
+        const result = this.evaluate('calibration', assessed, history, models);
+        scores.push({ timestamp: reading.timestamp, score: result.riskScore });
+      });
+
+    return { outcome: sequence.outcome, eventTime, scores };
+  }
+
+  calibrateModel(
+    modelId: string,
+    datasets: LabeledSequence[],
+    options: CalibrationOptions = { targetFalseAlarmRate: 0.05 }
+  ): ModelCalibration {
+    const model = this.models.get(modelId);
+    if (!model) {
+      throw new Error(`Unknown detection model "${modelId}"`);
+    }
+    if (datasets.length === 0) {
+      throw new Error('Calibration needs at least one labeled sequence');
+    }
+
+    const metrics = computeCalibrationMetrics(
+      datasets.map(sequence => this.scoreSequence(sequence, [model])),
+      options.targetFalseAlarmRate
+    );
+
+    // Only thresholds on raw sensor parameters can be derived from the data;
+    // model-internal scores (pattern match, ensemble score) are left alone.
+    const sample = datasets.find(sequence => sequence.readings.length > 0)?.readings[0];
+    const suggestedThresholds: Record<string, number> = {};
+    Object.keys(model.thresholds).forEach(param => {
+      if (!sample || param === 'timestamp' || typeof sample[param as keyof SensorReading] !== 'number') return;
+      const value = parameterThresholdForFalseAlarmRate(
+        datasets,
+        param as keyof SensorReading,
+        options.targetFalseAlarmRate
+      );
+      // Exceedance is measured relative to the threshold, so it must stay positive
+      if (value !== null && value > 0) {
+        suggestedThresholds[param] = value;
+      }
     });
 
-    model.accuracy = (correct / trainingData.length) * 100;
+    const calibration: ModelCalibration = {
+      calibratedAt: new Date(),
+      metrics,
+      suggestedThresholds
+    };
+
+    model.calibration = calibration;
+    model.accuracy = metrics.selected.accuracy * 100;
+    model.lastTrained = calibration.calibratedAt;
+
+    return calibration;
+  }
+
+  calibrate(
+    datasets: LabeledSequence[],
+    options: CalibrationOptions = { targetFalseAlarmRate: 0.05 }
+  ): CalibrationReport {
+    const models: Record<string, ModelCalibration> = {};
+    this.models.forEach(model => {
+      models[model.id] = this.calibrateModel(model.id, datasets, options);
+    });
+
+    const activeModels = Array.from(this.models.values()).filter(model => model.isActive);
+    const ensemble = computeCalibrationMetrics(
+      datasets.map(sequence => this.scoreSequence(sequence, activeModels)),
+      options.targetFalseAlarmRate
+    );
+
+    // 'high' is the alarm level, so it takes the selected operating point;
+    // 'critical' gets a five times stricter false-alarm budget.
+    const high = ensemble.selected.threshold;
+    const strict = ensemble.rocCurve
+      .filter(point => point.falsePositiveRate <= options.targetFalseAlarmRate / 5)
+      .sort((a, b) => a.threshold - b.threshold)[0];
+    const critical = Math.max(high, strict?.threshold ?? 100);
+
+    this.calibrationReport = {
+      calibratedAt: new Date(),
+      targetFalseAlarmRate: options.targetFalseAlarmRate,
+      ensemble,
+      suggestedRiskLevels: {
+        medium: Math.round(high / 2),
+        high,
+        critical
+      },
+      models
+    };
+
+    return this.calibrationReport;
+  }
+
+  applyCalibration(): void {
+    if (!this.calibrationReport) {
+      throw new Error('No calibration report to apply');
+    }
+
+    this.riskLevelThresholds = { ...this.calibrationReport.suggestedRiskLevels };
+    this.models.forEach(model => {
+      if (model.calibration) {
+        model.thresholds = { ...model.thresholds, ...model.calibration.suggestedThresholds };
+      }
+    });
+  }
+
+  snapshot(): DetectorSnapshot {
+    const historicalData: Record<string, SensorReading[]> = {};
+    this.historicalData.forEach((history, zoneId) => {
+      historicalData[zoneId] = history.map(reading => ({ ...reading }));
+    });
+
+    const models: Record<string, SerializedModelState> = {};
+    this.models.forEach(model => {
+      models[model.id] = {
+        accuracy: model.accuracy,
+        lastTrained: model.lastTrained.toISOString(),
+        isActive: model.isActive,
+        ensembleWeight: model.ensembleWeight,
+        thresholds: { ...model.thresholds },
+        weights: { ...model.weights },
+        calibration: model.calibration ? serializeCalibration(model.calibration) : undefined
+      };
+    });
+
+    const report = this.calibrationReport;
+    const reportModels: Record<string, SerializedModelCalibration> = {};
+    if (report) {
+      Object.entries(report.models).forEach(([modelId, calibration]) => {
+        reportModels[modelId] = serializeCalibration(calibration);
+      });
+    }
+
+    return {
+      version: DETECTOR_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      historicalData,
+      models,
+      riskLevelThresholds: { ...this.riskLevelThresholds },
+      calibrationReport: report
+        ? { ...report, calibratedAt: report.calibratedAt.toISOString(), models: reportModels }
+        : null,
+      patterns: structuredClone(this.patterns),
+      zoneAggregation: { ...this.zoneAggregation }
+    };
+  }
+
+  // Model state is matched by id; snapshot entries for models that are not
+  // registered here (e.g. a custom model from another workstation) are skipped.
+  // Readings already collected this session are kept after the restored ones.
+  restore(raw: unknown): void {
+    const snapshot = parseDetectorSnapshot(raw);
+
+    // Restored readings are folded into this detector's time steps, which
+    // may differ from those of the detector that saved them
+    Object.entries(snapshot.historicalData).forEach(([zoneId, restored]) => {
+      const live = this.historicalData.get(zoneId) ?? [];
+      const liveCounts = this.stepCounts.get(zoneId) ?? [];
+      const firstLive = live[0]?.timestamp ?? Infinity;
+      const history: SensorReading[] = [];
+      const counts: number[] = [];
+      restored
+        .filter(reading => reading.timestamp < firstLive)
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .forEach(reading => addToTimeGrid(history, counts, reading, this.resolutionMs));
+      history.push(...live);
+      counts.push(...liveCounts);
+      trimTimeGrid(history, counts, this.historyHours);
+      this.historicalData.set(zoneId, history);
+      this.stepCounts.set(zoneId, counts);
+    });
+
+    Object.entries(snapshot.models).forEach(([modelId, state]) => {
+      const model = this.models.get(modelId);
+      if (!model) return;
+
+      model.accuracy = state.accuracy;
+      model.lastTrained = new Date(state.lastTrained);
+      model.isActive = state.isActive;
+      model.ensembleWeight = state.ensembleWeight;
+      model.thresholds = { ...state.thresholds };
+      model.weights = { ...state.weights };
+      model.calibration = state.calibration ? deserializeCalibration(state.calibration) : undefined;
+    });
+
+    this.riskLevelThresholds = { ...snapshot.riskLevelThresholds };
+
+    const report = snapshot.calibrationReport;
+    if (report) {
+      const models: Record<string, ModelCalibration> = {};
+      Object.entries(report.models).forEach(([modelId, calibration]) => {
+        models[modelId] = deserializeCalibration(calibration);
+      });
+      this.calibrationReport = { ...report, calibratedAt: new Date(report.calibratedAt), models };
+    } else {
+      this.calibrationReport = null;
+    }
+
+    if (snapshot.patterns) {
+      this.setPatternLibrary(snapshot.patterns);
+    }
+    this.zoneAggregation = { ...snapshot.zoneAggregation };
   }
 }
 
+const AUTOSAVE_INTERVAL_MS = 30000;
+
 // Hook for using the enhanced detector
-export const useEnhancedRockfallDetector = () => {
-  const [detector] = useState(() => new EnhancedRockfallDetector());
+export const useEnhancedRockfallDetector = (options: DetectorOptions = {}) => {
+  const [detector] = useState(() => new EnhancedRockfallDetector(options));
   const [predictions, setPredictions] = useState<Record<string, PredictionResult>>({});
   const [isEnabled, setIsEnabled] = useState(true);
+  const [models, setModels] = useState<DetectionModel[]>(() => detector.getModelStats());
+  const [calibrationReport, setCalibrationReport] = useState<CalibrationReport | null>(null);
+  const [riskLevelThresholds, setRiskLevelThresholds] = useState<RiskLevelThresholds>(() => detector.getRiskLevelThresholds());
+  const [zoneAggregation, setZoneAggregationState] = useState<ZoneAggregation>(() => detector.getZoneAggregation());
+  const [patternLibrary, setPatternLibraryState] = useState<PrecursorPattern[]>(() => detector.getHistoricalPatterns());
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const lastSaveRef = useRef(0);
+  const hasLoadedRef = useRef(false); // Set once the stored state has been restored, or failed to
+
+  const refreshState = useCallback(() => {
+    setModels(detector.getModelStats());
+    setCalibrationReport(detector.getCalibrationReport());
+    setRiskLevelThresholds(detector.getRiskLevelThresholds());
+    setPatternLibraryState(detector.getHistoricalPatterns());
+    setZoneAggregationState(detector.getZoneAggregation());
+  }, [detector]);
+
+  // Prediction ticks only save every AUTOSAVE_INTERVAL_MS, and not before the
+  // stored state has loaded, or the first tick would overwrite it with a
+  // fresh detector; explicit changes (calibration, model edits) save immediately.
+  const persistState = useCallback((immediate: boolean) => {
+    const now = Date.now();
+    if (!immediate && (!hasLoadedRef.current || now - lastSaveRef.current < AUTOSAVE_INTERVAL_MS)) return;
+    lastSaveRef.current = now;
+
+    detectorStateStore.save(detector.snapshot())
+      .then(() => setLastSavedAt(new Date()))
+      .catch(error => console.error('Failed to save detector state:', error));
+  }, [detector]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    detectorStateStore.load()
+      .then(snapshot => {
+        if (cancelled || !snapshot) return;
+        detector.restore(snapshot);
+        refreshState();
+      })
+      .catch(error => console.error('Failed to restore detector state:', error))
+      .finally(() => {
+        if (!cancelled) hasLoadedRef.current = true;
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [detector, refreshState]);
 
   const predict = useCallback((zoneData: Record<string, ZoneData>) => {
     if (!isEnabled) return;
@@ -708,12 +1417,32 @@ export const useEnhancedRockfallDetector = () => {
     const newPredictions: Record<string, PredictionResult> = {};
 
     Object.entries(zoneData).forEach(([zoneId, data]) => {
-      detector.addReading(zoneId, data.lastReading);
-      newPredictions[zoneId] = detector.predict(zoneId, data.lastReading);
+      const sensors = Object.values(data.sensors ?? {});
+      if (sensors.length === 0) {
+        detector.addReading(zoneId, data.lastReading);
+        newPredictions[zoneId] = detector.predict(zoneId, data.lastReading);
+        return;
+      }
+
+      sensors.forEach(({ sensor, lastReading }) => {
+        detector.addReading(sensorSeriesId(zoneId, sensor.sensorId), lastReading);
+      });
+      newPredictions[zoneId] = detector.predictZone(zoneId, sensors);
     });
 
     setPredictions(newPredictions);
-  }, [detector, isEnabled]);
+    persistState(false);
+  }, [detector, isEnabled, persistState]);
+
+  // Starts every series afresh, optionally on a new time step, and primes
+  // them with readings that came before the next one to be predicted
+  const resetHistory = useCallback((options: DetectorOptions = {}, warmUp: Record<string, SensorReading[]> = {}) => {
+    detector.resetHistory(options);
+    Object.entries(warmUp).forEach(([seriesId, readings]) => {
+      readings.forEach(reading => detector.addReading(seriesId, reading));
+    });
+    setPredictions({});
+  }, [detector]);
 
   const getModelStats = useCallback(() => {
     return detector.getModelStats();
@@ -723,17 +1452,114 @@ export const useEnhancedRockfallDetector = () => {
     return detector.getHistoricalPatterns();
   }, [detector]);
 
-  const calibrateModel = useCallback((modelId: string, trainingData: any[]) => {
-    detector.calibrateModel(modelId, trainingData);
+  const calibrateModel = useCallback((modelId: string, datasets: LabeledSequence[], options?: CalibrationOptions) => {
+    const calibration = detector.calibrateModel(modelId, datasets, options);
+    setModels(detector.getModelStats());
+    persistState(true);
+    return calibration;
+  }, [detector, persistState]);
+
+  const calibrate = useCallback((datasets: LabeledSequence[], options?: CalibrationOptions) => {
+    const report = detector.calibrate(datasets, options);
+    setModels(detector.getModelStats());
+    setCalibrationReport(report);
+    persistState(true);
+    return report;
+  }, [detector, persistState]);
+
+  const applyCalibration = useCallback(() => {
+    detector.applyCalibration();
+    setModels(detector.getModelStats());
+    setRiskLevelThresholds(detector.getRiskLevelThresholds());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const registerModel = useCallback((definition: DetectionModelDefinition) => {
+    detector.registerModel(definition);
+    setModels(detector.getModelStats());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const unregisterModel = useCallback((modelId: string) => {
+    const removed = detector.unregisterModel(modelId);
+    setModels(detector.getModelStats());
+    persistState(true);
+    return removed;
+  }, [detector, persistState]);
+
+  const setModelEnabled = useCallback((modelId: string, enabled: boolean) => {
+    detector.setModelEnabled(modelId, enabled);
+    setModels(detector.getModelStats());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const setModelWeight = useCallback((modelId: string, weight: number) => {
+    detector.setModelWeight(modelId, weight);
+    setModels(detector.getModelStats());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const setPatternLibrary = useCallback((patterns: PrecursorPattern[]) => {
+    detector.setPatternLibrary(patterns);
+    setPatternLibraryState(detector.getHistoricalPatterns());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const resetPatternLibrary = useCallback(() => {
+    detector.resetPatternLibrary();
+    setPatternLibraryState(detector.getHistoricalPatterns());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const setZoneAggregation = useCallback((aggregation: ZoneAggregation) => {
+    detector.setZoneAggregation(aggregation);
+    setZoneAggregationState(detector.getZoneAggregation());
+    persistState(true);
+  }, [detector, persistState]);
+
+  const exportState = useCallback(() => {
+    return JSON.stringify(detector.snapshot(), null, 2);
   }, [detector]);
 
+  // Throws when the JSON is not a readable snapshot; the live state is only
+  // touched once the snapshot has been validated.
+  const importState = useCallback((json: string) => {
+    detector.restore(JSON.parse(json));
+    refreshState();
+    persistState(true);
+  }, [detector, refreshState, persistState]);
+
+  const clearSavedState = useCallback(async () => {
+    await detectorStateStore.clear();
+    setLastSavedAt(null);
+  }, []);
+
   return {
     predictions,
     predict,
+    resetHistory,
     isEnabled,
     setIsEnabled,
     getModelStats,
     getPatterns,
-    calibrateModel
+    calibrateModel,
+    calibrate,
+    applyCalibration,
+    calibrationReport,
+    riskLevelThresholds,
+    models,
+    registerModel,
+    unregisterModel,
+    setModelEnabled,
+    setModelWeight,
+    patternLibrary,
+    setPatternLibrary,
+    resetPatternLibrary,
+    zoneAggregation,
+    setZoneAggregation,
+    exportState,
+    importState,
+    clearSavedState,
+    lastSavedAt
   };
 };
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { SensorReading, ZoneData } from './useRockfallDataGenerator';
+import { LOGGED_DATA_DETECTOR_OPTIONS } from './useEnhancedRockfallDetector';
+import { replayFrame, replayFrameAt, replayWarmUp } from '../utils/historicalReplay';
+import type { ReplayDataset } from '../utils/historicalReplay';
+
+const REPLAY_TICK_MS = 250; // Wall-clock time between frames
+const MAX_REPLAY_SPEED = 1000;
+
+// Issued whenever the replay jumps (a dataset is loaded or unloaded, or the
+// position is moved) so the detector can drop the history it built up and be
+// primed with what came before the new position
+export interface ReplayRestart {
+  dataset: ReplayDataset | null;
+  warmUp: Record<string, SensorReading[]>;
+}
+
+// Plays an imported dataset back in the shape of simulator frames, at 1x to
+// 1000x recorded time
+export const useHistoricalReplay = () => {
+  const [dataset, setDataset] = useState<ReplayDataset | null>(null);
+  const [cursor, setCursor] = useState(0); // Recorded time reached
+  const [speed, setSpeedState] = useState(60);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentData, setCurrentData] = useState<Record<string, ZoneData>>({});
+  const [restart, setRestart] = useState<ReplayRestart | null>(null);
+
+  const advance = useCallback(() => {
+    if (!dataset) return;
+    const next = Math.min(dataset.endTime, cursor + speed * REPLAY_TICK_MS);
+    const frame = replayFrame(dataset, cursor, next);
+    // Zones keep their last frame until a newer reading arrives
+    if (Object.keys(frame).length > 0) setCurrentData(prev => ({ ...prev, ...frame }));
+    setCursor(next);
+    if (next >= dataset.endTime) setIsPlaying(false);
+  }, [dataset, cursor, speed]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(advance, REPLAY_TICK_MS);
+    return () => clearInterval(interval);
+  }, [advance, isPlaying]);
+
+  const load = useCallback((next: ReplayDataset | null) => {
+    setDataset(next);
+    setIsPlaying(false);
+    setCursor(next?.startTime ?? 0);
+    setCurrentData(next ? replayFrameAt(next, next.startTime) : {});
+    setRestart({ dataset: next, warmUp: {} });
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    if (!dataset) return;
+    const target = Math.max(dataset.startTime, Math.min(dataset.endTime, time));
+    setCursor(target);
+    setCurrentData(replayFrameAt(dataset, target));
+    setRestart({ dataset, warmUp: replayWarmUp(dataset, target, LOGGED_DATA_DETECTOR_OPTIONS.historyHours ?? 48) });
+  }, [dataset]);
+
+  // Playing from the end starts over
+  const play = useCallback(() => {
+    if (!dataset) return;
+    if (cursor >= dataset.endTime) seek(dataset.startTime);
+    setIsPlaying(true);
+  }, [dataset, cursor, seek]);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  const setSpeed = useCallback((next: number) => {
+    setSpeedState(Math.max(1, Math.min(MAX_REPLAY_SPEED, next)));
+  }, []);
+
+  return {
+    dataset,
+    cursor,
+    speed,
+    isPlaying,
+    currentData,
+    restart,
+    load,
+    seek,
+    play,
+    pause,
+    setSpeed
+  };
+};
+
+export type HistoricalReplay = ReturnType<typeof useHistoricalReplay>;
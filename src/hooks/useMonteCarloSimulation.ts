@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { summarizeMonteCarlo, validateMonteCarloConfig } from '../utils/monteCarlo';
+import type {
+  MonteCarloConfig,
+  MonteCarloRequest,
+  MonteCarloResponse,
+  MonteCarloRunResult,
+  MonteCarloSummary
+} from '../utils/monteCarlo';
+
+const MAX_WORKERS = 4;
+
+// Spreads the runs over a few workers, one core kept free for the page, and
+// summarizes the runs finished so far as results come in
+export const useMonteCarloSimulation = () => {
+  const workers = useRef<Worker[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<MonteCarloSummary | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    workers.current.forEach(worker => worker.terminate());
+    workers.current = [];
+    setIsRunning(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  // Throws when the config is invalid
+  const start = useCallback((config: MonteCarloConfig) => {
+    validateMonteCarloConfig(config);
+    cancel();
+
+    const count = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1, config.runs));
+    const results: MonteCarloRunResult[] = [];
+    let finished = 0;
+
+    const fail = (message: string) => {
+      setError(message);
+      cancel();
+    };
+
+    workers.current = Array.from({ length: count }, (_, index) => {
+      const worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<MonteCarloResponse>) => {
+        const message = event.data;
+        if (message.type === 'result') {
+          results.push(message.result);
+          setProgress({ completed: results.length, total: config.runs });
+          setSummary(summarizeMonteCarlo(config, [...results].sort((a, b) => a.run - b.run)));
+        } else if (message.type === 'done') {
+          finished++;
+          if (finished === count) cancel();
+        } else {
+          fail(message.message);
+        }
+      };
+      worker.onerror = (event) => fail(event.message || 'Monte Carlo worker failed');
+      const request: MonteCarloRequest = {
+        type: 'start',
+        config,
+        runs: Array.from({ length: config.runs }, (_, run) => run).filter(run => run % count === index)
+      };
+      worker.postMessage(request);
+      return worker;
+    });
+
+    setProgress({ completed: 0, total: config.runs });
+    setSummary(null);
+    setError(null);
+    setIsRunning(true);
+  }, [cancel]);
+
+  return { progress, summary, isRunning, error, start, cancel };
+};
@@ -1,294 +1,702 @@
 import { useState, useEffect, useCallback } from 'react';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY, mapSensorParameters } from '../utils/sensorParameters';
+import type { SensorParameter } from '../utils/sensorParameters';
+import { createRandom, gaussian, hashSeed, randomSeed } from '../utils/random';
+import type { RandomSource } from '../utils/random';
+import { MS_PER_HOUR } from '../utils/timeWindows';
+import { describeScenarioEvent, formatScenarioTime, scenarioEventEnd } from '../utils/scenarioScript';
+import type { ScenarioLogEntry, ScenarioScript } from '../utils/scenarioScript';
+import {
+  enterCreepStage,
+  hasFailed,
+  initialCreepState,
+  stepCreep,
+  validateCreepParameters
+} from '../utils/creepModel';
+import type { CreepParameters, CreepStage, CreepState } from '../utils/creepModel';
+import {
+  DEFAULT_SIMULATED_ZONES,
+  profileBaselinePosition,
+  profileCreepParameters,
+  sameZoneProfile
+} from '../utils/simulatedZones';
+import type { SimulatedZone } from '../utils/simulatedZones';
+import { describeFault, distortValue, faultAffects, isFaultActive, validateFault } from '../utils/sensorFaults';
+import type { InjectedFault, InjectedFaultTag, SensorFaultMode } from '../utils/sensorFaults';
+import { recordingToCsv, recordingToJson } from '../utils/simulationRecording';
+import type { RecordedTick, SimulationRecording } from '../utils/simulationRecording';
+import type { PredictionResult } from './useEnhancedRockfallDetector';
 
-export interface SensorReading {
-  timestamp: number;
-  displacement: number;      // mm
-  strain: number;           // microstrains
-  porePressure: number;     // kPa
-  temperature: number;      // °C
-  vibration: number;        // Hz
-  rainfall: number;         // mm/hr
-  windSpeed: number;        // m/s
-  soilMoisture: number;     // %
-  tiltAngle: number;        // degrees
+// One value per registered parameter, in the registry's units
+export type SensorReading = { timestamp: number } & Record<SensorParameter, number>;
+
+export type SensorKind = 'prism' | 'piezometer' | 'extensometer' | 'tiltmeter';
+
+// A physical instrument installed in a zone
+export interface SensorInstance {
+  sensorId: string;
+  kind: SensorKind;
+  label: string;
+  position: { x: number; y: number }; // metres within the zone, x along the crest
+  crestDistance: number; // metres behind (negative) or below (positive) the crest line
+}
+
+export interface ZoneSensorData {
+  sensor: SensorInstance;
+  lastReading: SensorReading;
 }
 
 export interface ZoneData {
   zoneId: string;
   zoneName: string;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  lastReading: SensorReading;
+  lastReading: SensorReading; // Zone-level summary reading
+  sensors?: Record<string, ZoneSensorData>; // Located instruments, each with its own series
   trend: 'improving' | 'stable' | 'worsening' | 'critical';
   confidence: number; // 0-100%
+  creep?: ZoneCreepStatus; // Simulated zones only: the model state behind the reading
+  injectedFaults?: InjectedFaultTag[]; // Simulated zones only: faults injected into this reading
 }
 
-interface SimulationParams {
+export interface ZoneCreepStatus {
+  stage: CreepStage;
+  velocity: number; // mm/hr
+  failureAt: number | null; // Timestamp the tertiary stage fails at
+  failed: boolean;
+}
+
+// Rule-of-thumb risk level from a single reading, before the detector has
+// judged it
+export const readingRiskLevel = (reading: SensorReading): ZoneData['riskLevel'] => {
+  // Advanced risk calculation based on multiple factors
+  let riskScore = 0;
+
+  // Displacement risk (0-30 points)
+  if (reading.displacement > 50) riskScore += 30;
+  else if (reading.displacement > 20) riskScore += 20;
+  else if (reading.displacement > 10) riskScore += 10;
+
+  // Strain risk (0-25 points)
+  if (reading.strain > 1000) riskScore += 25;
+  else if (reading.strain > 500) riskScore += 15;
+  else if (reading.strain > 300) riskScore += 8;
+
+  // Pore pressure risk (0-20 points)
+  if (reading.porePressure > 600) riskScore += 20;
+  else if (reading.porePressure > 400) riskScore += 12;
+  else if (reading.porePressure > 300) riskScore += 6;
+
+  // Vibration risk (0-15 points)
+  if (reading.vibration > 20) riskScore += 15;
+  else if (reading.vibration > 10) riskScore += 10;
+  else if (reading.vibration > 5) riskScore += 5;
+
+  // Environmental factors (0-10 points)
+  if (reading.rainfall > 50 && reading.soilMoisture > 80) riskScore += 10;
+  else if (reading.rainfall > 25 || reading.soilMoisture > 60) riskScore += 5;
+
+  // Tilt angle risk (0-10 points)
+  if (Math.abs(reading.tiltAngle) > 15) riskScore += 10;
+  else if (Math.abs(reading.tiltAngle) > 8) riskScore += 6;
+  else if (Math.abs(reading.tiltAngle) > 4) riskScore += 3;
+
+  // Determine risk level
+  if (riskScore >= 80) return 'critical';
+  if (riskScore >= 50) return 'high';
+  if (riskScore >= 25) return 'medium';
+  return 'low';
+};
+
+export interface SimulationParams {
   speed: number;
   quality: 'low' | 'medium' | 'high';
   noiseLevel: 'minimal' | 'realistic' | 'high';
   scenarioType: 'normal' | 'warning' | 'emergency';
 }
 
-class RockfallDataGenerator {
-  private baseValues: Record<string, SensorReading>;
-  private timeOffset: number;
-  private trends: Record<string, Record<keyof SensorReading, number>>;
-
-  constructor() {
-    this.timeOffset = 0;
-    this.baseValues = {
-      'zone-1': this.generateBaseReading(),
-      'zone-2': this.generateBaseReading(),
-      'zone-3': this.generateBaseReading(),
-      'zone-4': this.generateBaseReading(),
-      'zone-5': this.generateBaseReading(),
-      'zone-6': this.generateBaseReading(),
-    };
-    this.trends = this.initializeTrends();
+// Measurement noise as a share of each parameter's typical span; higher data
+// quality means less of it
+const QUALITY_NOISE = {
+  high: 0.005,
+  medium: 0.01,
+  low: 0.03
+} as const;
+
+// Instruments installed on every simulated bench. Movement is largest at the
+// crest and dies away down the face; piezometers sit deeper and lag.
+const SIMULATED_SENSOR_LAYOUT: Array<SensorInstance & { movementFactor: number }> = [
+  { sensorId: 'prism-crest', kind: 'prism', label: 'Crest prism', position: { x: 20, y: 0 }, crestDistance: 2, movementFactor: 1.3 },
+  { sensorId: 'prism-face', kind: 'prism', label: 'Mid-face prism', position: { x: 45, y: 15 }, crestDistance: 15, movementFactor: 0.8 },
+  { sensorId: 'extensometer-1', kind: 'extensometer', label: 'Tension crack extensometer', position: { x: 30, y: -5 }, crestDistance: -5, movementFactor: 1.1 },
+  { sensorId: 'piezometer-toe', kind: 'piezometer', label: 'Toe piezometer', position: { x: 35, y: 40 }, crestDistance: 40, movementFactor: 0.4 }
+];
+
+const TICK_MS = 1000; // Simulated time per frame at 1x speed
+const MAX_SEEK_FRAMES = 500000;
+
+// Weather and background vibration wander around each zone's resting level
+// (an Ornstein-Uhlenbeck process) instead of drifting without bound
+const ENVIRONMENT_PARAMETERS = ['temperature', 'windSpeed', 'rainfall', 'vibration'] as const;
+type EnvironmentParameter = typeof ENVIRONMENT_PARAMETERS[number];
+const ENVIRONMENT_REVERSION_HOURS = 2;
+const ENVIRONMENT_SPREAD = 0.15; // Long-run standard deviation as a share of the typical span
+
+const MOISTURE_PER_MM = 0.5; // % soil moisture per mm of rain held in the ground
+const MICROSEISMIC_GAIN = 0.05; // Hz of vibration per mm/hr of creep velocity
+const WARNING_SPEEDUP = 5; // Secondary creep rate multiple in the warning scenario
+const BLAST_DECAY_MS = 2 * 60 * 1000;
+const BLAST_DISPLACEMENT = 0.02; // mm of permanent movement per Hz of blast vibration
+const PROFILE_WEIGHT = 0.6; // How far ground conditions, rather than chance, place a resting level
+
+interface ZoneState {
+  zone: SimulatedZone;
+  random: RandomSource; // Per zone, so adding or retiring zones leaves the others' streams unchanged
+  baseline: SensorReading; // Resting levels the zone started from
+  environment: Record<EnvironmentParameter, number>;
+  creep: CreepState;
+  failed: boolean;
+  scriptedRainfall: number; // mm/hr of scripted rain currently falling
+  blasts: Array<{ atMs: number; magnitude: number }>;
+}
+
+// All randomness comes from sources seeded from the run's seed and readings
+// are stamped with a simulated clock, so the same seed, start time, zones and
+// SimulationParams give an identical reading stream.
+export class RockfallDataGenerator {
+  private simulatedZones: SimulatedZone[] = DEFAULT_SIMULATED_ZONES;
+  private zones: Record<string, ZoneState> = {};
+  private creepParameters: Record<string, CreepParameters> = {}; // Kept across resets
+  private lastScenarioType: SimulationParams['scenarioType'] = 'normal';
+  private random: RandomSource;
+  private seed: number;
+  private startTime = 0;
+  private clock = 0; // Simulated ms since startTime
+  private script: ScenarioScript | null = null;
+  private scriptLog: ScenarioLogEntry[] = []; // Replaced, never mutated, on each entry
+  private startedEvents = new Set<number>();
+  private endedEvents = new Set<number>();
+  private faults: InjectedFault[] = []; // Every fault of the run, ended ones included
+  private nextFaultId = 1;
+  private loggedFaults = new Set<string>(); // `${faultId}|start` or `${faultId}|end`
+  private stuckValues: Record<string, number> = {}; // By fault, channel and parameter
+  private deliveryQueues: Record<string, Array<{ takenAt: number; data: ZoneData }>> = {};
+
+  constructor(seed: number, startTime: number = Date.now()) {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.simulatedZones.forEach(zone => {
+      this.creepParameters[zone.zoneId] = profileCreepParameters(zone.profile);
+    });
+    this.resetSimulation(seed, startTime);
   }
 
-  private generateBaseReading(): SensorReading {
-    return {
-      timestamp: Date.now(),
-      displacement: this.randomInRange(0, 5), // Normal displacement 0-5mm
-      strain: this.randomInRange(50, 200), // Normal strain 50-200 microstrains
-      porePressure: this.randomInRange(100, 300), // Normal pore pressure 100-300 kPa
-      temperature: this.randomInRange(15, 25), // Normal temperature 15-25°C
-      vibration: this.randomInRange(0.1, 2.0), // Normal vibration 0.1-2.0 Hz
-      rainfall: this.randomInRange(0, 10), // Normal rainfall 0-10 mm/hr
-      windSpeed: this.randomInRange(0, 15), // Normal wind 0-15 m/s
-      soilMoisture: this.randomInRange(20, 40), // Normal soil moisture 20-40%
-      tiltAngle: this.randomInRange(-2, 2), // Normal tilt -2 to 2 degrees
-    };
+  getSeed(): number {
+    return this.seed;
   }
 
-  private initializeTrends(): Record<string, Record<keyof SensorReading, number>> {
-    const trends: Record<string, Record<keyof SensorReading, number>> = {};
-    
-    Object.keys(this.baseValues).forEach(zoneId => {
-      trends[zoneId] = {
-        timestamp: 0,
-        displacement: this.randomInRange(-0.1, 0.1),
-        strain: this.randomInRange(-2, 2),
-        porePressure: this.randomInRange(-5, 5),
-        temperature: this.randomInRange(-0.5, 0.5),
-        vibration: this.randomInRange(-0.05, 0.05),
-        rainfall: this.randomInRange(-1, 1),
-        windSpeed: this.randomInRange(-1, 1),
-        soilMoisture: this.randomInRange(-1, 1),
-        tiltAngle: this.randomInRange(-0.1, 0.1),
-      };
+  getCreepParameters(): Record<string, CreepParameters> {
+    return this.creepParameters;
+  }
+
+  getZones(): SimulatedZone[] {
+    return this.simulatedZones;
+  }
+
+  // Starts streams for new zones and retires those no longer listed. A zone
+  // whose ground conditions changed restarts with a freshly shaped baseline
+  // and creep parameters; other zones carry on undisturbed. Returns false
+  // when the zones are exactly as before.
+  setZones(zones: SimulatedZone[]): boolean {
+    const unchanged = zones.length === this.simulatedZones.length && zones.every((zone, i) => {
+      const current = this.simulatedZones[i];
+      return zone.zoneId === current.zoneId && zone.zoneName === current.zoneName &&
+        sameZoneProfile(zone.profile, current.profile);
     });
+    if (unchanged) return false;
 
-    return trends;
+    const previous = this.zones;
+    this.zones = {};
+    zones.forEach(zone => {
+      const existing = previous[zone.zoneId];
+      if (existing && sameZoneProfile(existing.zone.profile, zone.profile)) {
+        this.zones[zone.zoneId] = { ...existing, zone };
+      } else {
+        this.creepParameters = { ...this.creepParameters, [zone.zoneId]: profileCreepParameters(zone.profile) };
+        this.createZoneState(zone);
+      }
+    });
+    // Retired zones take their creep tuning with them
+    this.creepParameters = Object.fromEntries(zones.map(zone => [zone.zoneId, this.creepParameters[zone.zoneId]]));
+    this.simulatedZones = zones;
+    return true;
   }
 
-  private randomInRange(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+  // Takes effect from the next frame without restarting the run
+  setCreepParameters(zoneId: string, params: CreepParameters): void {
+    if (!this.creepParameters[zoneId]) throw new Error(`Unknown zone ${zoneId}`);
+    validateCreepParameters(params);
+    this.creepParameters = { ...this.creepParameters, [zoneId]: { ...params } };
   }
 
-  private addNoise(value: number, noiseLevel: string): number {
-    const noiseFactors = {
-      minimal: 0.02,
-      realistic: 0.05,
-      high: 0.1
+  // Starts every parameter somewhere in its typical range, placed mostly by
+  // the zone's ground conditions where they have a bearing on it
+  private generateBaseReading(zone: SimulatedZone, random: RandomSource): SensorReading {
+    return {
+      timestamp: this.startTime,
+      ...mapSensorParameters(key => {
+        const { min, max } = SENSOR_PARAMETER_REGISTRY[key].typicalRange;
+        const shaped = profileBaselinePosition(key, zone.profile);
+        const position = shaped === null ? random() : PROFILE_WEIGHT * shaped + (1 - PROFILE_WEIGHT) * random();
+        return min + position * (max - min);
+      })
     };
-    
-    const noiseFactor = noiseFactors[noiseLevel as keyof typeof noiseFactors] || 0.05;
-    const noise = (Math.random() - 0.5) * 2 * noiseFactor * value;
-    return value + noise;
   }
 
-  private simulateRockfallEvent(reading: SensorReading, severity: number): SensorReading {
-    // Simulate precursor patterns that indicate potential rockfall
-    const eventFactor = Math.sin(this.timeOffset / 1000) * severity;
-    
-    return {
-      ...reading,
-      displacement: Math.max(0, reading.displacement + eventFactor * 20), // Increased displacement
-      strain: Math.max(0, reading.strain + eventFactor * 500), // High strain
-      porePressure: Math.max(0, reading.porePressure + eventFactor * 200), // Pressure buildup
-      vibration: Math.max(0, reading.vibration + eventFactor * 10), // Increased vibration
-      tiltAngle: reading.tiltAngle + eventFactor * 5, // Slope instability
+  private createZoneState(zone: SimulatedZone): void {
+    const random = createRandom(hashSeed(this.seed, zone.zoneId));
+    const baseline = this.generateBaseReading(zone, random);
+    this.zones[zone.zoneId] = {
+      zone,
+      random,
+      baseline,
+      environment: {
+        temperature: baseline.temperature,
+        windSpeed: baseline.windSpeed,
+        rainfall: baseline.rainfall,
+        vibration: baseline.vibration
+      },
+      creep: initialCreepState(this.creepParameters[zone.zoneId], this.clock),
+      failed: false,
+      scriptedRainfall: 0,
+      blasts: []
     };
+    // A zone added mid-run joins whatever the Control scenario has the others doing
+    this.applyScenarioStage(zone.zoneId, this.lastScenarioType, this.clock);
   }
 
-  private applyWeatherEffects(reading: SensorReading): SensorReading {
-    // Simulate weather-related effects on slope stability
-    const weatherSeverity = Math.max(0, reading.rainfall / 50 + reading.windSpeed / 30);
-    
-    if (weatherSeverity > 0.3) {
-      return {
-        ...reading,
-        porePressure: reading.porePressure * (1 + weatherSeverity * 0.5),
-        soilMoisture: Math.min(100, reading.soilMoisture * (1 + weatherSeverity)),
-        displacement: reading.displacement * (1 + weatherSeverity * 0.3),
-      };
-    }
+  private randomInRange(min: number, max: number): number {
+    return this.random() * (max - min) + min;
+  }
+
+  private addNoise(
+    random: RandomSource,
+    key: SensorParameter,
+    value: number,
+    quality: SimulationParams['quality']
+  ): number {
+    const { min, max } = SENSOR_PARAMETER_REGISTRY[key].typicalRange;
+    return value + gaussian(random) * QUALITY_NOISE[quality] * (max - min);
+  }
 
-    return reading;
+  // Exact Ornstein-Uhlenbeck step, so the spread does not depend on speed
+  private stepEnvironment(state: ZoneState, hours: number): void {
+    const reversion = Math.exp(-hours / ENVIRONMENT_REVERSION_HOURS);
+    const shock = Math.sqrt(1 - reversion * reversion);
+    ENVIRONMENT_PARAMETERS.forEach(key => {
+      const { min, max } = SENSOR_PARAMETER_REGISTRY[key].typicalRange;
+      const resting = state.baseline[key];
+      state.environment[key] = resting + (state.environment[key] - resting) * reversion +
+        ENVIRONMENT_SPREAD * (max - min) * shock * gaussian(state.random);
+    });
   }
 
-  generateReading(
-    zoneId: string, 
-    params: SimulationParams,
-    forceEvent: boolean = false
-  ): SensorReading {
-    this.timeOffset += 1000 * params.speed; // Advance time based on speed
+  // Steps one zone from `previous` to the current clock and reads its instruments
+  private generateReading(zoneId: string, previous: number, params: SimulationParams): SensorReading {
+    const state = this.zones[zoneId];
+    const creepParams = this.creepParameters[zoneId];
 
-    let reading = { ...this.baseValues[zoneId] };
-    reading.timestamp = Date.now();
+    this.stepEnvironment(state, (this.clock - previous) / MS_PER_HOUR);
+    const rainfall = Math.max(0, state.environment.rainfall) + state.scriptedRainfall;
+    state.creep = stepCreep(state.creep, creepParams, previous, this.clock, rainfall - state.baseline.rainfall);
 
-    // Apply trends for realistic drift
-    const trend = this.trends[zoneId];
-    Object.keys(trend).forEach(key => {
-      if (key !== 'timestamp') {
-        const trendKey = key as keyof SensorReading;
-        (reading[trendKey] as number) += trend[trendKey] * params.speed;
-      }
+    if (!state.failed && hasFailed(state.creep, this.clock)) {
+      state.failed = true;
+      this.logSimulationEvent(zoneId, `${state.zone.zoneName} failed after ${
+        formatScenarioTime(this.clock - state.creep.stageStartMs).slice(2)
+      } of tertiary creep`);
+    }
+
+    const { baseline, creep } = state;
+    const blastVibration = state.blasts.reduce(
+      (sum, blast) => sum + blast.magnitude * Math.exp(-(this.clock - blast.atMs) / BLAST_DECAY_MS), 0
+    );
+    const reading: SensorReading = {
+      timestamp: this.startTime + this.clock,
+      displacement: baseline.displacement + creep.displacement,
+      strain: baseline.strain + creepParams.strainPerMm * creep.displacement,
+      porePressure: baseline.porePressure + creep.excessPressure,
+      temperature: state.environment.temperature,
+      vibration: Math.max(0, state.environment.vibration) + blastVibration + MICROSEISMIC_GAIN * creep.velocity,
+      rainfall,
+      windSpeed: state.environment.windSpeed,
+      soilMoisture: baseline.soilMoisture + MOISTURE_PER_MM * creep.infiltration,
+      tiltAngle: baseline.tiltAngle + creepParams.tiltPerMm * creep.displacement
+    };
+
+    // Measurement noise is added to what the instruments report, not to the state
+    return this.clampToPhysicalRange({
+      timestamp: reading.timestamp,
+      ...mapSensorParameters(key => this.addNoise(state.random, key, reading[key], params.quality))
     });
+  }
 
-    // Apply scenario-specific modifications
-    switch (params.scenarioType) {
-      case 'warning':
-        reading = this.simulateRockfallEvent(reading, 0.3);
-        break;
-      case 'emergency':
-        reading = this.simulateRockfallEvent(reading, 0.8);
-        break;
-    }
+  // Clamp values to what the instruments can physically report
+  private clampToPhysicalRange(reading: SensorReading): SensorReading {
+    return {
+      timestamp: reading.timestamp,
+      ...mapSensorParameters(key => {
+        const { min, max } = SENSOR_PARAMETER_REGISTRY[key].physicalRange;
+        return Math.max(min, Math.min(max, reading[key]));
+      })
+    };
+  }
 
-    // Force an event if requested
-    if (forceEvent) {
-      reading = this.simulateRockfallEvent(reading, 1.0);
-    }
+  calculateRiskLevel(reading: SensorReading): ZoneData['riskLevel'] {
+    return readingRiskLevel(reading);
+  }
 
-    // Apply weather effects
-    reading = this.applyWeatherEffects(reading);
+  // Each instrument sees the zone's movement scaled by where it sits, plus its
+  // own measurement noise; the environmental channels are shared.
+  private generateSensorReadings(
+    zoneId: string,
+    reading: SensorReading,
+    params: SimulationParams
+  ): Record<string, ZoneSensorData> {
+    const { random } = this.zones[zoneId];
+    const sensors: Record<string, ZoneSensorData> = {};
 
-    // Add noise based on quality setting
-    const invertedQualityNoise = {
-      high: 'minimal',
-      medium: 'realistic',
-      low: 'high'
-    } as const;
-    
-    const noiseLevel = invertedQualityNoise[params.quality];
-    
-    Object.keys(reading).forEach(key => {
-      if (key !== 'timestamp') {
-        const readingKey = key as keyof SensorReading;
-        (reading[readingKey] as number) = this.addNoise(
-          reading[readingKey] as number, 
-          noiseLevel
-        );
-      }
+    SIMULATED_SENSOR_LAYOUT.forEach(({ movementFactor, ...sensor }) => {
+      const pressureFactor = sensor.kind === 'piezometer' ? 1.2 : 1;
+      sensors[sensor.sensorId] = {
+        sensor,
+        lastReading: this.clampToPhysicalRange({
+          ...reading,
+          displacement: this.addNoise(random, 'displacement', reading.displacement * movementFactor, params.quality),
+          strain: this.addNoise(random, 'strain', reading.strain * movementFactor, params.quality),
+          tiltAngle: this.addNoise(random, 'tiltAngle', reading.tiltAngle * movementFactor, params.quality),
+          porePressure: this.addNoise(random, 'porePressure', reading.porePressure * pressureFactor, params.quality)
+        })
+      };
     });
 
-    // Update base values for continuity
-    this.baseValues[zoneId] = { ...reading };
-
-    // Clamp values to realistic ranges
-    reading.displacement = Math.max(0, Math.min(100, reading.displacement));
-    reading.strain = Math.max(0, Math.min(2000, reading.strain));
-    reading.porePressure = Math.max(0, Math.min(1000, reading.porePressure));
-    reading.temperature = Math.max(-20, Math.min(50, reading.temperature));
-    reading.vibration = Math.max(0, Math.min(50, reading.vibration));
-    reading.rainfall = Math.max(0, Math.min(200, reading.rainfall));
-    reading.windSpeed = Math.max(0, Math.min(100, reading.windSpeed));
-    reading.soilMoisture = Math.max(0, Math.min(100, reading.soilMoisture));
-    reading.tiltAngle = Math.max(-45, Math.min(45, reading.tiltAngle));
-
-    return reading;
-  }
-
-  calculateRiskLevel(reading: SensorReading): 'low' | 'medium' | 'high' | 'critical' {
-    // Advanced risk calculation based on multiple factors
-    let riskScore = 0;
-
-    // Displacement risk (0-30 points)
-    if (reading.displacement > 50) riskScore += 30;
-    else if (reading.displacement > 20) riskScore += 20;
-    else if (reading.displacement > 10) riskScore += 10;
-
-    // Strain risk (0-25 points)
-    if (reading.strain > 1000) riskScore += 25;
-    else if (reading.strain > 500) riskScore += 15;
-    else if (reading.strain > 300) riskScore += 8;
-
-    // Pore pressure risk (0-20 points)
-    if (reading.porePressure > 600) riskScore += 20;
-    else if (reading.porePressure > 400) riskScore += 12;
-    else if (reading.porePressure > 300) riskScore += 6;
-
-    // Vibration risk (0-15 points)
-    if (reading.vibration > 20) riskScore += 15;
-    else if (reading.vibration > 10) riskScore += 10;
-    else if (reading.vibration > 5) riskScore += 5;
-
-    // Environmental factors (0-10 points)
-    if (reading.rainfall > 50 && reading.soilMoisture > 80) riskScore += 10;
-    else if (reading.rainfall > 25 || reading.soilMoisture > 60) riskScore += 5;
-
-    // Tilt angle risk (0-10 points)
-    if (Math.abs(reading.tiltAngle) > 15) riskScore += 10;
-    else if (Math.abs(reading.tiltAngle) > 8) riskScore += 6;
-    else if (Math.abs(reading.tiltAngle) > 4) riskScore += 3;
-
-    // Determine risk level
-    if (riskScore >= 80) return 'critical';
-    if (riskScore >= 50) return 'high';
-    if (riskScore >= 25) return 'medium';
-    return 'low';
-  }
-
-  generateZoneData(zoneId: string, params: SimulationParams): ZoneData {
-    const reading = this.generateReading(zoneId, params);
+    return sensors;
+  }
+
+  private generateZoneData(zoneId: string, previous: number, params: SimulationParams): ZoneData {
+    const reading = this.generateReading(zoneId, previous, params);
     const riskLevel = this.calculateRiskLevel(reading);
-    
-    // Calculate trend based on recent history
-    const trend = this.calculateTrend(zoneId, reading);
-    
+    const { zone, creep, failed } = this.zones[zoneId];
+
+    // Trend follows the creep stage the zone is in
+    const trend = this.calculateTrend(zoneId);
+
     // Calculate confidence based on data quality and sensor status
     const confidence = this.calculateConfidence(params.quality, reading);
 
-    const zoneNames = {
-      'zone-1': 'North Face Alpha',
-      'zone-2': 'South Wall Beta',
-      'zone-3': 'East Slope Gamma',
-      'zone-4': 'West Ridge Delta',
-      'zone-5': 'Central Pit Epsilon',
-      'zone-6': 'Access Road Zeta'
-    };
-
     return {
       zoneId,
-      zoneName: zoneNames[zoneId as keyof typeof zoneNames] || `Zone ${zoneId}`,
+      zoneName: zone.zoneName,
       riskLevel,
       lastReading: reading,
+      sensors: this.generateSensorReadings(zoneId, reading, params),
       trend,
-      confidence
+      confidence,
+      creep: {
+        stage: creep.stage,
+        velocity: creep.velocity,
+        failureAt: creep.failureAtMs === null ? null : this.startTime + creep.failureAtMs,
+        failed
+      }
     };
   }
 
-  private calculateTrend(
-    zoneId: string, 
-    _currentReading: SensorReading
-  ): 'improving' | 'stable' | 'worsening' | 'critical' {
-    const trend = this.trends[zoneId];
-    
-    // Calculate overall trend score
-    const trendScore = 
-      trend.displacement * 0.3 +
-      trend.strain * 0.25 +
-      trend.porePressure * 0.2 +
-      trend.vibration * 0.15 +
-      Math.abs(trend.tiltAngle) * 0.1;
+  // Advances the simulated clock by one frame and generates every zone in order
+  generateFrame(params: SimulationParams): Record<string, ZoneData> {
+    const previous = this.clock;
+    this.clock += TICK_MS * params.speed;
+    this.applyScenarioType(params.scenarioType, previous);
+    this.advanceScript();
+    this.logControlFaults();
+    const frame: Record<string, ZoneData> = {};
+    Object.keys(this.zones).forEach(zoneId => {
+      const delivered = this.applyFaults(zoneId, this.generateZoneData(zoneId, previous, params));
+      if (delivered) frame[zoneId] = delivered;
+    });
+    return frame;
+  }
+
+  getFaults(): InjectedFault[] {
+    return this.faults;
+  }
+
+  // Injects a fault from the next frame until cleared
+  injectFault(zoneId: string, mode: SensorFaultMode, parameter: SensorParameter | null, magnitude: number): InjectedFault {
+    if (!this.zones[zoneId]) throw new Error(`Unknown zone ${zoneId}`);
+    validateFault(mode, parameter, magnitude);
+    const fault: InjectedFault = {
+      faultId: `fault-${this.nextFaultId++}`,
+      zoneId,
+      parameter,
+      mode,
+      magnitude,
+      startMs: this.clock,
+      endMs: null,
+      source: 'control'
+    };
+    this.faults = [...this.faults, fault];
+    return fault;
+  }
 
-    if (trendScore > 5) return 'critical';
-    if (trendScore > 2) return 'worsening';
-    if (trendScore > -1) return 'stable';
-    return 'improving';
+  clearFault(faultId: string): void {
+    this.faults = this.faults.map(fault => (
+      fault.faultId === faultId && (fault.endMs === null || fault.endMs > this.clock)
+        ? { ...fault, endMs: this.clock }
+        : fault
+    ));
+  }
+
+  // Scripted faults are logged with their script event
+  private logControlFaults(): void {
+    this.faults.filter(fault => fault.source === 'control').forEach(fault => {
+      if (fault.startMs < this.clock && !this.loggedFaults.has(`${fault.faultId}|start`)) {
+        this.loggedFaults.add(`${fault.faultId}|start`);
+        this.logSimulationEvent(fault.zoneId, `${describeFault(fault)} injected`);
+      }
+      if (fault.endMs !== null && fault.endMs < this.clock && !this.loggedFaults.has(`${fault.faultId}|end`)) {
+        this.loggedFaults.add(`${fault.faultId}|end`);
+        this.logSimulationEvent(fault.zoneId, `${describeFault(fault)} cleared`);
+      }
+    });
+  }
+
+  // Distorts the zone's readings by its active faults and tags them with the
+  // ground truth. Returns null while delayed delivery is holding data back.
+  private applyFaults(zoneId: string, data: ZoneData): ZoneData | null {
+    const active = this.faults.filter(fault => fault.zoneId === zoneId && isFaultActive(fault, this.clock));
+    if (active.length === 0) {
+      delete this.deliveryQueues[zoneId];
+      return data;
+    }
+
+    const { random } = this.zones[zoneId];
+    const skewMs = active
+      .filter(fault => fault.mode === 'clock_skew')
+      .reduce((sum, fault) => sum + fault.magnitude * 1000, 0);
+    const distort = (channel: string, reading: SensorReading): SensorReading => {
+      const faulted = { ...reading, timestamp: reading.timestamp + skewMs };
+      active.forEach(fault => {
+        SENSOR_PARAMETERS.filter(key => faultAffects(fault, key)).forEach(key => {
+          const stuckKey = `${fault.faultId}|${channel}|${key}`;
+          if (fault.mode === 'stuck' && !(stuckKey in this.stuckValues)) {
+            this.stuckValues[stuckKey] = faulted[key];
+          }
+          faulted[key] = distortValue(fault, key, faulted[key], this.clock, this.stuckValues[stuckKey], random);
+        });
+      });
+      return faulted;
+    };
+
+    const faulted: ZoneData = {
+      ...data,
+      lastReading: distort('zone', data.lastReading),
+      sensors: data.sensors && Object.fromEntries(Object.entries(data.sensors).map(([sensorId, sensorData]) => (
+        [sensorId, { ...sensorData, lastReading: distort(sensorId, sensorData.lastReading) }]
+      ))),
+      injectedFaults: active.map(({ faultId, mode, parameter }) => ({ faultId, mode, parameter }))
+    };
+
+    // Delayed delivery hands over the newest reading that is old enough
+    const delayMs = Math.max(0, ...active.filter(fault => fault.mode === 'delayed').map(fault => fault.magnitude * 1000));
+    if (delayMs === 0) {
+      delete this.deliveryQueues[zoneId];
+      return faulted;
+    }
+    const queue = [...(this.deliveryQueues[zoneId] ?? []), { takenAt: this.clock, data: faulted }];
+    const due = queue.filter(entry => entry.takenAt <= this.clock - delayMs);
+    this.deliveryQueues[zoneId] = queue.slice(due.length);
+    return due.length > 0 ? due[due.length - 1].data : null;
+  }
+
+  getElapsedMs(): number {
+    return this.clock;
+  }
+
+  getScript(): ScenarioScript | null {
+    return this.script;
+  }
+
+  getScriptLog(): ScenarioLogEntry[] {
+    return this.scriptLog;
+  }
+
+  // Loading a script restarts the run from the current seed at script time zero
+  loadScript(script: ScenarioScript | null): void {
+    if (script) {
+      const unknown = [...new Set(script.events.flatMap(event => event.zones))]
+        .filter(zoneId => !this.zones[zoneId]);
+      if (unknown.length > 0) {
+        throw new Error(`Scenario "${script.name}" refers to unknown zones: ${unknown.join(', ')}`);
+      }
+    }
+    this.script = script;
+    this.resetSimulation();
+  }
+
+  // Replays the run from its seed up to the target script time with the given
+  // params. Seeking back keeps timestamps increasing so downstream history
+  // sees a discontinuity rather than readings from the past.
+  seek(targetMs: number, params: SimulationParams): Record<string, ZoneData> {
+    const target = Math.max(0, targetMs);
+    const step = TICK_MS * params.speed;
+    if (target / step > MAX_SEEK_FRAMES) {
+      throw new Error('Seek target is too far ahead at this speed; raise the speed and try again');
+    }
+
+    const resumeAt = this.startTime + this.clock;
+    const startTime = target < this.clock ? resumeAt + step - target : this.startTime;
+    // Faults injected from Control are part of the run being replayed
+    const controlFaults = this.faults.filter(fault => fault.source === 'control' && fault.startMs < target);
+    const nextFaultId = this.nextFaultId;
+    this.resetSimulation(this.seed, startTime);
+    this.faults = controlFaults;
+    this.nextFaultId = nextFaultId;
+
+    let frame: Record<string, ZoneData> = {};
+    while (this.clock < target) {
+      frame = this.generateFrame(params);
+    }
+    return frame;
+  }
+
+  private logScriptEvent(eventIndex: number, phase: ScenarioLogEntry['phase']): void {
+    const event = this.script!.events[eventIndex];
+    this.scriptLog = [...this.scriptLog, {
+      eventIndex,
+      phase,
+      elapsedMs: this.clock,
+      timestamp: this.startTime + this.clock,
+      zones: event.zones,
+      message: describeScenarioEvent(event, phase)
+    }];
+  }
+
+  private logSimulationEvent(zoneId: string, message: string): void {
+    this.scriptLog = [...this.scriptLog, {
+      eventIndex: null,
+      phase: 'start',
+      elapsedMs: this.clock,
+      timestamp: this.startTime + this.clock,
+      zones: [zoneId],
+      message
+    }];
+  }
+
+  private enterStage(
+    zoneId: string,
+    stage: CreepStage,
+    atMs: number,
+    options: { rate?: number | null; failureInMs?: number | null } = {}
+  ): void {
+    const state = this.zones[zoneId];
+    state.creep = enterCreepStage(state.creep, this.creepParameters[zoneId], stage, atMs, options);
+    state.failed = false;
+  }
+
+  // The Control scenario selector moves every zone into a creep stage: warning
+  // is fast secondary creep, emergency is tertiary creep heading for failure
+  private applyScenarioType(scenarioType: SimulationParams['scenarioType'], atMs: number): void {
+    if (scenarioType === this.lastScenarioType) return;
+    this.lastScenarioType = scenarioType;
+    Object.keys(this.zones).forEach(zoneId => {
+      if (scenarioType === 'normal') {
+        this.enterStage(zoneId, 'secondary', atMs);
+      } else {
+        this.applyScenarioStage(zoneId, scenarioType, atMs);
+      }
+    });
+  }
+
+  private applyScenarioStage(zoneId: string, scenarioType: SimulationParams['scenarioType'], atMs: number): void {
+    const params = this.creepParameters[zoneId];
+    if (scenarioType === 'warning') {
+      this.enterStage(zoneId, 'secondary', atMs, { rate: params.secondaryRate * WARNING_SPEEDUP });
+    } else if (scenarioType === 'emergency') {
+      this.enterStage(zoneId, 'tertiary', atMs);
+    }
+  }
+
+  // Starts and ends script events crossed up to the current clock and sets
+  // each zone's scripted rain
+  private advanceScript(): void {
+    if (!this.script) return;
+    const events = this.script.events;
+
+    events.forEach((event, index) => {
+      if (!this.startedEvents.has(index) && event.atMs <= this.clock) {
+        this.startedEvents.add(index);
+        this.logScriptEvent(index, 'start');
+        event.zones.forEach(zoneId => {
+          const state = this.zones[zoneId];
+          if (!state) return; // Retired since the script was loaded
+          if (event.type === 'blast') {
+            state.blasts.push({ atMs: event.atMs, magnitude: event.magnitude });
+            state.creep = {
+              ...state.creep,
+              displacement: state.creep.displacement + event.magnitude * BLAST_DISPLACEMENT
+            };
+          } else if (event.type === 'fault') {
+            this.faults = [...this.faults, {
+              faultId: `script-${index}-${zoneId}`,
+              zoneId,
+              parameter: event.parameter,
+              mode: event.mode,
+              magnitude: event.magnitude,
+              startMs: event.atMs,
+              endMs: event.durationMs === null ? null : event.atMs + event.durationMs,
+              source: 'script'
+            }];
+          } else if (event.type === 'creep') {
+            this.enterStage(zoneId, event.stage, event.atMs, { rate: event.rate, failureInMs: event.failureInMs });
+          }
+        });
+      }
+
+      // Storms and faults end on schedule; a creep stage ends when the
+      // simulation says so
+      if ((event.type === 'rainstorm' || event.type === 'fault') && scenarioEventEnd(event) > event.atMs &&
+        this.startedEvents.has(index) && !this.endedEvents.has(index) && scenarioEventEnd(event) <= this.clock) {
+        this.endedEvents.add(index);
+        this.logScriptEvent(index, 'end');
+      }
+    });
+
+    Object.entries(this.zones).forEach(([zoneId, state]) => {
+      state.scriptedRainfall = events.reduce((sum, event) => (
+        event.type === 'rainstorm' && event.zones.includes(zoneId) &&
+        event.atMs <= this.clock && this.clock < scenarioEventEnd(event)
+          ? sum + event.intensity
+          : sum
+      ), 0);
+      state.blasts = state.blasts.filter(blast => this.clock - blast.atMs < 10 * BLAST_DECAY_MS);
+    });
+  }
+
+  private calculateTrend(zoneId: string): 'improving' | 'stable' | 'worsening' | 'critical' {
+    const { creep, failed } = this.zones[zoneId];
+    const params = this.creepParameters[zoneId];
+
+    if (failed) return 'critical';
+    switch (creep.stage) {
+      case 'primary':
+        return 'improving';
+      case 'secondary':
+        return creep.velocity > 2 * params.secondaryRate ? 'worsening' : 'stable';
+      case 'tertiary': {
+        // Critical over the second half of the run to failure
+        const span = (creep.failureAtMs ?? Infinity) - creep.stageStartMs;
+        return this.clock - creep.stageStartMs > span / 2 ? 'critical' : 'worsening';
+      }
+    }
   }
 
   private calculateConfidence(quality: string, reading: SensorReading): number {
@@ -313,32 +721,143 @@ class RockfallDataGenerator {
     return Math.max(30, Math.min(100, confidence));
   }
 
+  // Sends every zone into tertiary creep, each failing somewhere between half
+  // and one and a half times its usual time to failure
   triggerEmergencyScenario(): void {
-    // Modify trends to simulate cascading failure
-    Object.keys(this.trends).forEach(zoneId => {
-      this.trends[zoneId].displacement += this.randomInRange(1, 3);
-      this.trends[zoneId].strain += this.randomInRange(10, 30);
-      this.trends[zoneId].vibration += this.randomInRange(0.5, 2);
+    Object.keys(this.zones).forEach(zoneId => {
+      const failureHours = this.creepParameters[zoneId].failureHours * this.randomInRange(0.5, 1.5);
+      this.enterStage(zoneId, 'tertiary', this.clock, { failureInMs: failureHours * MS_PER_HOUR });
     });
   }
 
-  resetSimulation(): void {
-    this.timeOffset = 0;
-    this.baseValues = {
-      'zone-1': this.generateBaseReading(),
-      'zone-2': this.generateBaseReading(),
-      'zone-3': this.generateBaseReading(),
-      'zone-4': this.generateBaseReading(),
-      'zone-5': this.generateBaseReading(),
-      'zone-6': this.generateBaseReading(),
+  // Restarts the run from its seed, or from a new one
+  resetSimulation(seed: number = this.seed, startTime: number = Date.now()): void {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.startTime = startTime;
+    this.clock = 0;
+    this.lastScenarioType = 'normal';
+    this.zones = {};
+    this.simulatedZones.forEach(zone => this.createZoneState(zone));
+    this.scriptLog = [];
+    this.startedEvents = new Set();
+    this.endedEvents = new Set();
+    this.faults = [];
+    this.nextFaultId = 1;
+    this.loggedFaults = new Set();
+    this.stuckValues = {};
+    this.deliveryQueues = {};
+  }
+}
+
+const MAX_RECORDED_TICKS = 200000;
+
+export interface RecordingStatus {
+  isRecording: boolean;
+  ticks: number;
+  predictions: number;
+  events: number;
+  faults: number;
+  truncated: boolean;
+}
+
+// Captures every frame of a run with the ground truth behind it and the
+// detector's predictions, for export as a labeled dataset
+class SimulationRecorder {
+  private ticks: RecordedTick[] = [];
+  private events: ScenarioLogEntry[] = [];
+  private seenEvents = new Set<ScenarioLogEntry>();
+  private faults = new Map<string, InjectedFault>();
+  private awaitingPrediction = new Map<string, number>(); // Zone to index of its latest tick
+  private predictionCount = 0;
+  private truncated = false;
+  private recording = false;
+
+  start(): void {
+    this.recording = true;
+  }
+
+  stop(): void {
+    this.recording = false;
+  }
+
+  clear(): void {
+    this.ticks = [];
+    this.events = [];
+    this.seenEvents = new Set();
+    this.faults = new Map();
+    this.awaitingPrediction = new Map();
+    this.predictionCount = 0;
+    this.truncated = false;
+  }
+
+  recordFrame(elapsedMs: number, frame: Record<string, ZoneData>, log: ScenarioLogEntry[], faults: InjectedFault[]): void {
+    if (!this.recording) return;
+
+    Object.values(frame).forEach(data => {
+      if (this.ticks.length >= MAX_RECORDED_TICKS) {
+        this.truncated = true;
+        return;
+      }
+      this.awaitingPrediction.set(data.zoneId, this.ticks.length);
+      this.ticks.push({ elapsedMs, data, prediction: null });
+    });
+    // The log is replaced, not appended to, so entries are tracked by identity
+    log.forEach(entry => {
+      if (this.seenEvents.has(entry)) return;
+      this.seenEvents.add(entry);
+      this.events.push(entry);
+    });
+    faults.forEach(fault => this.faults.set(fault.faultId, fault));
+  }
+
+  // Attaches each prediction to the latest tick of its zone
+  recordPredictions(predictions: Record<string, PredictionResult>): void {
+    if (!this.recording) return;
+    Object.entries(predictions).forEach(([zoneId, { riskScore, riskLevel, confidence, timeToEvent }]) => {
+      const index = this.awaitingPrediction.get(zoneId);
+      if (index === undefined) return;
+      this.ticks[index].prediction = { riskScore, riskLevel, confidence, timeToEvent };
+      this.awaitingPrediction.delete(zoneId);
+      this.predictionCount++;
+    });
+  }
+
+  getStatus(): RecordingStatus {
+    return {
+      isRecording: this.recording,
+      ticks: this.ticks.length,
+      predictions: this.predictionCount,
+      events: this.events.length,
+      faults: this.faults.size,
+      truncated: this.truncated
+    };
+  }
+
+  getRecording(seed: number, scenario: string | null): SimulationRecording {
+    return {
+      seed,
+      scenario,
+      ticks: this.ticks,
+      events: this.events,
+      faults: Array.from(this.faults.values()),
+      truncated: this.truncated
     };
-    this.trends = this.initializeTrends();
   }
 }
 
 // Hook for using the data generator
 export const useRockfallDataGenerator = () => {
-  const [generator] = useState(() => new RockfallDataGenerator());
+  const [generator] = useState(() => new RockfallDataGenerator(randomSeed()));
+  const [seed, setSeedState] = useState(() => generator.getSeed());
+  const [scenario, setScenario] = useState<ScenarioScript | null>(null);
+  const [scenarioElapsedMs, setScenarioElapsedMs] = useState(0);
+  const [scenarioLog, setScenarioLog] = useState<ScenarioLogEntry[]>([]);
+  const [faults, setFaults] = useState<InjectedFault[]>([]);
+  const [recorder] = useState(() => new SimulationRecorder());
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus>(() => recorder.getStatus());
+  const [creepParameters, setCreepParametersState] = useState(() => generator.getCreepParameters());
+  const [simulatedZones, setSimulatedZonesState] = useState(() => generator.getZones());
   const [isRunning, setIsRunning] = useState(false);
   const [currentData, setCurrentData] = useState<Record<string, ZoneData>>({});
   const [overallRiskFactor, setOverallRiskFactor] = useState(0.35); // Starting risk factor
@@ -360,12 +879,13 @@ export const useRockfallDataGenerator = () => {
   const generateData = useCallback(() => {
     if (!isRunning) return;
 
-    const newData: Record<string, ZoneData> = {};
-    const zones = ['zone-1', 'zone-2', 'zone-3', 'zone-4', 'zone-5', 'zone-6'];
-    
-    zones.forEach(zoneId => {
-      newData[zoneId] = generator.generateZoneData(zoneId, simulationParams);
-    });
+    const newData = generator.generateFrame(simulationParams);
+    const zones = Object.keys(newData);
+    setScenarioElapsedMs(generator.getElapsedMs());
+    setScenarioLog(generator.getScriptLog());
+    setFaults(generator.getFaults());
+    recorder.recordFrame(generator.getElapsedMs(), newData, generator.getScriptLog(), generator.getFaults());
+    setRecordingStatus(recorder.getStatus());
 
     setCurrentData(newData);
 
@@ -414,7 +934,7 @@ export const useRockfallDataGenerator = () => {
         lastUpdate: now
       }));
     }
-  }, [generator, isRunning, simulationParams, riskProgression.lastUpdate, riskProgression.baseIncreaseRate, riskProgression.thresholdMultiplier]);
+  }, [generator, recorder, isRunning, simulationParams, riskProgression.lastUpdate, riskProgression.baseIncreaseRate, riskProgression.thresholdMultiplier]);
 
   useEffect(() => {
     if (!isRunning) return;
@@ -435,6 +955,9 @@ export const useRockfallDataGenerator = () => {
   const reset = useCallback(() => {
     generator.resetSimulation();
     setCurrentData({});
+    setScenarioElapsedMs(0);
+    setScenarioLog([]);
+    setFaults([]);
     setOverallRiskFactor(0.35); // Reset to initial value
     setRiskProgression({
       baseIncreaseRate: 0.01,
@@ -444,8 +967,90 @@ export const useRockfallDataGenerator = () => {
     });
   }, [generator]);
 
+  // Restarts the simulation from the given seed
+  const setSeed = useCallback((newSeed: number) => {
+    generator.resetSimulation(newSeed >>> 0);
+    setSeedState(generator.getSeed());
+    reset();
+  }, [generator, reset]);
+
+  // Replaces the loaded script (or clears it with null) and restarts the run
+  const loadScenario = useCallback((script: ScenarioScript | null) => {
+    generator.loadScript(script);
+    setScenario(script);
+    reset();
+  }, [generator, reset]);
+
+  // Jumps the run to a script time by replaying it from the seed
+  const seekScenario = useCallback((elapsedMs: number) => {
+    setCurrentData(generator.seek(elapsedMs, simulationParams));
+    setScenarioElapsedMs(generator.getElapsedMs());
+    setScenarioLog(generator.getScriptLog());
+    setFaults(generator.getFaults());
+  }, [generator, simulationParams]);
+
+  // Follows the zones on the map: new zones start streaming, removed ones stop
+  const setSimulatedZones = useCallback((zones: SimulatedZone[]) => {
+    if (!generator.setZones(zones)) return;
+    setSimulatedZonesState(generator.getZones());
+    setCreepParametersState(generator.getCreepParameters());
+    setCurrentData(prev => {
+      const kept = Object.entries(prev).filter(([zoneId]) => zones.some(zone => zone.zoneId === zoneId));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, [generator]);
+
+  // Injects an instrument fault from the next frame; throws on invalid input
+  const injectFault = useCallback((
+    zoneId: string,
+    mode: SensorFaultMode,
+    parameter: SensorParameter | null,
+    magnitude: number
+  ) => {
+    generator.injectFault(zoneId, mode, parameter, magnitude);
+    setFaults(generator.getFaults());
+  }, [generator]);
+
+  const clearFault = useCallback((faultId: string) => {
+    generator.clearFault(faultId);
+    setFaults(generator.getFaults());
+  }, [generator]);
+
+  const startRecording = useCallback(() => {
+    recorder.start();
+    setRecordingStatus(recorder.getStatus());
+  }, [recorder]);
+
+  const stopRecording = useCallback(() => {
+    recorder.stop();
+    setRecordingStatus(recorder.getStatus());
+  }, [recorder]);
+
+  const clearRecording = useCallback(() => {
+    recorder.clear();
+    setRecordingStatus(recorder.getStatus());
+  }, [recorder]);
+
+  // Feed the detector's output back so each recorded tick carries its prediction
+  const recordPredictions = useCallback((predictions: Record<string, PredictionResult>) => {
+    recorder.recordPredictions(predictions);
+    setRecordingStatus(recorder.getStatus());
+  }, [recorder]);
+
+  const exportRecording = useCallback((format: 'csv' | 'json'): string => {
+    const recording = recorder.getRecording(generator.getSeed(), generator.getScript()?.name ?? null);
+    return format === 'csv' ? recordingToCsv(recording) : recordingToJson(recording);
+  }, [generator, recorder]);
+
+  // Retunes one zone's creep and hydrology; throws on invalid values
+  const setCreepParameters = useCallback((zoneId: string, params: CreepParameters) => {
+    generator.setCreepParameters(zoneId, params);
+    setCreepParametersState(generator.getCreepParameters());
+  }, [generator]);
+
   const triggerEmergency = useCallback(() => {
     generator.triggerEmergencyScenario();
+    setScenarioLog(generator.getScriptLog());
     setOverallRiskFactor(prev => Math.min(1.0, prev + 0.3)); // Immediate risk spike
   }, [generator]);
 
@@ -474,6 +1079,26 @@ export const useRockfallDataGenerator = () => {
     triggerEmergency,
     updateParams,
     updateThresholdMultiplier,
-    simulationParams
+    simulationParams,
+    seed,
+    setSeed,
+    scenario,
+    scenarioElapsedMs,
+    scenarioLog,
+    loadScenario,
+    seekScenario,
+    creepParameters,
+    setCreepParameters,
+    simulatedZones,
+    setSimulatedZones,
+    faults,
+    injectFault,
+    clearFault,
+    recordingStatus,
+    startRecording,
+    stopRecording,
+    clearRecording,
+    recordPredictions,
+    exportRecording
   };
 };
\ No newline at end of file
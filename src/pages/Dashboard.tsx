@@ -13,10 +13,19 @@ import { EnhancedAlertsSystem } from '../components/EnhancedAlertsSystem';
 import { DataFlowControl } from '../components/DataFlowControl';
 import { AlertManagementSystem } from '../components/AlertManagementSystem';
 import { DataImportAnalysis } from '../components/DataImportAnalysis';
+import type { ImportedData } from '../components/DataImportAnalysis';
 import { MobileDeviceRegistration } from '../components/MobileDeviceRegistration';
 import { MobileAlertStatusMonitor } from '../components/MobileAlertStatusMonitor';
 import { useRockfallDataGenerator } from '../hooks/useRockfallDataGenerator';
-import { useEnhancedRockfallDetector } from '../hooks/useEnhancedRockfallDetector';
+import {
+  LIVE_SIMULATION_DETECTOR_OPTIONS,
+  LOGGED_DATA_DETECTOR_OPTIONS,
+  useEnhancedRockfallDetector
+} from '../hooks/useEnhancedRockfallDetector';
+import { useHistoricalReplay } from '../hooks/useHistoricalReplay';
+import type { ReplayDataset } from '../utils/historicalReplay';
+import { formatRiskBand, formatTimeToEventBand } from '../utils/predictionUncertainty';
+import { loadSavedCustomZones, simulatedZonesFrom } from '../utils/simulatedZones';
 import { Link } from 'react-router-dom';
 
 export const Dashboard: React.FC = () => {
@@ -41,17 +50,44 @@ export const Dashboard: React.FC = () => {
     currentData: simulationData,
     isRunning: isSimulationRunning,
     start: startSimulation,
-    stop: stopSimulation
+    stop: stopSimulation,
+    setSimulatedZones
   } = useRockfallDataGenerator();
 
+  // Simulate whatever zones are drawn on the map
+  const [customZones] = useState(loadSavedCustomZones);
+  useEffect(() => {
+    setSimulatedZones(simulatedZonesFrom(terrainMaps, customZones));
+  }, [terrainMaps, customZones, setSimulatedZones]);
+
   const {
     predictions,
     predict: runPrediction,
+    resetHistory: resetDetectorHistory,
     isEnabled: isDetectionEnabled
-  } = useEnhancedRockfallDetector();
+  } = useEnhancedRockfallDetector(LIVE_SIMULATION_DETECTOR_OPTIONS);
+
+  // A loaded replay takes the simulator's place as the data source
+  const replay = useHistoricalReplay();
+  const [replayDatasets, setReplayDatasets] = useState<ReplayDataset[]>([]);
+  const sourceData = replay.dataset ? replay.currentData : simulationData;
 
   // Use simulation data when available, otherwise use mock data
-  const currentZoneData = simulationData && Object.keys(simulationData).length > 0 ? simulationData : null;
+  const currentZoneData = sourceData && Object.keys(sourceData).length > 0 ? sourceData : null;
+
+  // Switch the detector's history to suit logged data before the replayed frame is judged
+  const { restart: replayRestart } = replay;
+  useEffect(() => {
+    if (!replayRestart) return;
+    if (replayRestart.dataset) {
+      resetDetectorHistory(
+        { ...LOGGED_DATA_DETECTOR_OPTIONS, channels: replayRestart.dataset.parameters },
+        replayRestart.warmUp
+      );
+    } else {
+      resetDetectorHistory(LIVE_SIMULATION_DETECTOR_OPTIONS);
+    }
+  }, [replayRestart, resetDetectorHistory]);
 
   useEffect(() => {
     if (currentZoneData && isDetectionEnabled) {
@@ -101,6 +137,14 @@ export const Dashboard: React.FC = () => {
     // Handle imported data integration
   };
 
+  const handleReplayableImport = (data: ImportedData) => {
+    const dataset = data.replay;
+    if (!dataset) return;
+    setReplayDatasets(prev => [dataset, ...prev.filter(existing => existing.id !== dataset.id)]);
+    // A remapped file takes over from its earlier mapping mid-replay
+    if (replay.dataset?.id === dataset.id) replay.load(dataset);
+  };
+
   const handleAlertTriggered = (alert: any) => {
     console.log('Alert triggered:', alert);
     // Handle alert processing
@@ -633,6 +677,8 @@ export const Dashboard: React.FC = () => {
             onDataSourceChange={handleDataSourceChange}
             onSimulationToggle={handleSimulationToggle}
             onDataImport={handleDataImport}
+            datasets={replayDatasets}
+            replay={replay}
           />
 
           {/* Terrain Threshold Controls */}
@@ -750,7 +796,16 @@ export const Dashboard: React.FC = () => {
                     <div key={zoneId} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
                       <div>
                         <p className="font-medium text-sm">{zoneId.replace('-', ' ').toUpperCase()}</p>
-                        <p className="text-xs text-gray-500">Confidence: {prediction.confidence}%</p>
+                        <p className="text-xs text-gray-500">
+                          Confidence: {prediction.confidence}% · Risk {prediction.riskScore} (p10–p90 {formatRiskBand(prediction.riskScoreBand)})
+                          {prediction.drivingSensor && ` · driven by ${prediction.drivingSensor.label}`}
+                        </p>
+                        <p className={`text-xs ${
+                          prediction.failureForecast.status === 'forecast' ? 'text-danger-600 font-medium' : 'text-gray-400'
+                        }`}>
+                          {prediction.failureForecast.message}
+                          {prediction.timeToEventBand && ` · ${formatTimeToEventBand(prediction.timeToEventBand)}`}
+                        </p>
                       </div>
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                         prediction.riskLevel === 'critical' ? 'bg-danger-100 text-danger-700' :
@@ -781,6 +836,7 @@ export const Dashboard: React.FC = () => {
           <AlertManagementSystem
             onAlertTriggered={handleAlertTriggered}
             currentZoneData={currentZoneData || undefined}
+            predictions={isDetectionEnabled ? predictions : undefined}
           />
         </motion.div>
       )}
@@ -793,7 +849,7 @@ export const Dashboard: React.FC = () => {
           className="space-y-6"
         >
           <DataImportAnalysis
-            onDataImported={handleDataImport}
+            onDataImported={handleReplayableImport}
             onAnalysisComplete={handleAnalysisComplete}
           />
         </motion.div>
@@ -0,0 +1,64 @@
+// IndexedDB persistence for detector snapshots
+import { parseDetectorSnapshot } from '../utils/detectorSnapshot';
+import type { DetectorSnapshot } from '../utils/detectorSnapshot';
+
+const DB_NAME = 'rockfall-detector';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+const CURRENT_KEY = 'current';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class DetectorStateStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  async save(snapshot: DetectorSnapshot): Promise<void> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.put(snapshot, CURRENT_KEY));
+  }
+
+  // Resolves to null when nothing has been saved yet. Stored snapshots from an
+  // older schema are migrated on the way out.
+  async load(): Promise<DetectorSnapshot | null> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const stored = await requestToPromise(store.get(CURRENT_KEY));
+    return stored === undefined ? null : parseDetectorSnapshot(stored);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await requestToPromise(store.delete(CURRENT_KEY));
+  }
+}
+
+export const detectorStateStore = new DetectorStateStore();
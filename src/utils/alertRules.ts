@@ -0,0 +1,92 @@
+import type { AlertRule } from '../components/AlertManagementSystem';
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import { SENSOR_PARAMETER_REGISTRY, formatParameterValue } from './sensorParameters';
+import { describeBands } from './predictionUncertainty';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: '1',
+    name: 'High Displacement Warning',
+    parameter: 'displacement',
+    threshold: 15,
+    operator: '>',
+    severity: 'high',
+    emailEnabled: true,
+    smsEnabled: true,
+    soundEnabled: true,
+    contacts: ['1', '2'],
+    cooldownMinutes: 30,
+    isActive: true
+  },
+  {
+    id: '2',
+    name: 'Critical Strain Alert',
+    parameter: 'strain',
+    threshold: 800,
+    operator: '>',
+    severity: 'critical',
+    emailEnabled: true,
+    smsEnabled: true,
+    soundEnabled: true,
+    contacts: ['1', '2', '3'],
+    cooldownMinutes: 15,
+    isActive: true
+  },
+  {
+    id: '3',
+    name: 'High Pore Pressure',
+    parameter: 'porePressure',
+    threshold: 500,
+    operator: '>',
+    severity: 'medium',
+    emailEnabled: true,
+    smsEnabled: false,
+    soundEnabled: false,
+    contacts: ['1'],
+    cooldownMinutes: 60,
+    isActive: true
+  }
+];
+
+// Returns the offending parameter value when the rule's condition holds for
+// the reading, otherwise null. Inactive rules and missing (NaN) values never fire.
+export const evaluateAlertRule = (
+  rule: AlertRule,
+  reading: SensorReading
+): number | null => {
+  if (!rule.isActive) return null;
+
+  const paramValue = reading[rule.parameter];
+  if (!Number.isFinite(paramValue)) return null;
+
+  let conditionMet = false;
+  switch (rule.operator) {
+    case '>':
+      conditionMet = paramValue > rule.threshold;
+      break;
+    case '<':
+      conditionMet = paramValue < rule.threshold;
+      break;
+    case '>=':
+      conditionMet = paramValue >= rule.threshold;
+      break;
+    case '=':
+      conditionMet = Math.abs(paramValue - rule.threshold) < 0.01;
+      break;
+  }
+
+  return conditionMet ? paramValue : null;
+};
+
+export const isWithinCooldown = (rule: AlertRule, lastFiredAt: number, now: number): boolean =>
+  (now - lastFiredAt) < (rule.cooldownMinutes * 60 * 1000);
+
+// e.g. "High Displacement Warning: Displacement 16.20 mm > 15.00 mm", with
+// the detector's range for the zone alongside when there is a prediction
+export const describeRuleBreach = (rule: AlertRule, value: number, prediction?: PredictionResult): string => {
+  const breach = `${rule.name}: ${SENSOR_PARAMETER_REGISTRY[rule.parameter].label} ${formatParameterValue(rule.parameter, value)} ${rule.operator} ${formatParameterValue(rule.parameter, rule.threshold)}`;
+  return prediction
+    ? `${breach} — detector ${describeBands(prediction.riskScore, prediction.riskScoreBand, prediction.timeToEventBand)}`
+    : breach;
+};
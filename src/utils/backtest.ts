@@ -0,0 +1,304 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import {
+  EnhancedRockfallDetector,
+  LIVE_SIMULATION_DETECTOR_OPTIONS,
+  LOGGED_DATA_DETECTOR_OPTIONS
+} from '../hooks/useEnhancedRockfallDetector';
+import type { DetectorOptions, PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import type { AlertRule } from '../components/AlertManagementSystem';
+import { DEFAULT_ALERT_RULES, evaluateAlertRule, isWithinCooldown } from './alertRules';
+import { isParameterFaulty } from './sensorHealth';
+import { mapSensorParameters } from './sensorParameters';
+import type { ReplayDataset } from './historicalReplay';
+import type { DetectorSnapshot } from './detectorSnapshot';
+
+type RiskLevel = PredictionResult['riskLevel'];
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface KnownEvent {
+  zoneId: string;
+  time: number; // epoch ms
+  label?: string;
+}
+
+export interface BacktestInput {
+  series: Record<string, SensorReading[]>; // Recorded readings per zone
+  events?: KnownEvent[];
+  rules?: AlertRule[];
+  warningLevel?: Exclude<RiskLevel, 'low'>; // Lowest predicted level that counts as a warning
+  detectorOptions?: DetectorOptions; // Time step and history for the default detector, to suit the reporting rate
+}
+
+export interface BacktestPrediction {
+  time: number;
+  zoneId: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  confidence: number;
+  timeToEvent: number | null;
+}
+
+export interface BacktestAlert {
+  time: number;
+  zoneId: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertRule['severity'];
+  value: number;
+}
+
+export interface EventLeadTime {
+  event: KnownEvent;
+  firstWarningTime: number | null;
+  leadTimeHours: number | null;
+  warnedBy: 'prediction' | 'alert' | null;
+}
+
+export interface BacktestSummary {
+  startTime: number;
+  endTime: number;
+  durationHours: number;
+  readingCount: number;
+  alertCount: number;
+  alertsPerDay: number;
+  alertsPerDayByZone: Record<string, number>;
+  eventLeadTimes: EventLeadTime[];
+  missedEvents: number;
+  hoursAtRiskLevel: Record<string, Record<RiskLevel, number>>;
+}
+
+export interface BacktestResult {
+  predictions: BacktestPrediction[];
+  alerts: BacktestAlert[];
+  summary: BacktestSummary;
+}
+
+// Messages between the page and the backtest worker. The detector is rebuilt
+// in the worker, from the snapshot's tuning when one is given.
+export type BacktestRequest = { type: 'start'; input: BacktestInput; detectorSnapshot: DetectorSnapshot | null };
+
+export type BacktestResponse =
+  | { type: 'result'; result: BacktestResult }
+  | { type: 'error'; message: string };
+
+const emptyLevelHours = (): Record<RiskLevel, number> => ({ low: 0, medium: 0, high: 0, critical: 0 });
+
+// Replays recorded series through a detector and the alert rules in timestamp
+// order. All time (alert cooldowns, lead times, dwell times) is taken from the
+// readings, so a season of data replays in seconds. Pass a detector to replay
+// against tuned settings; it should not be the live one, as replay fills its
+// history and drifts its thresholds. The default detector skips uncertainty
+// resampling, which the summary does not use and which dominates replay time.
+export const runBacktest = (
+  input: BacktestInput,
+  detector: EnhancedRockfallDetector = new EnhancedRockfallDetector({ ...input.detectorOptions, uncertaintyResamples: 0 })
+): BacktestResult => {
+  const rules = input.rules ?? DEFAULT_ALERT_RULES;
+  const warningRank = RISK_LEVELS.indexOf(input.warningLevel ?? 'high');
+
+  const readings = Object.entries(input.series)
+    .flatMap(([zoneId, series]) => series.map(reading => ({ zoneId, reading })))
+    .sort((a, b) => a.reading.timestamp - b.reading.timestamp);
+
+  const predictions: BacktestPrediction[] = [];
+  const alerts: BacktestAlert[] = [];
+  const lastFired = new Map<string, number>(); // `${zoneId}:${ruleId}` -> time
+  const hoursAtRiskLevel: Record<string, Record<RiskLevel, number>> = {};
+  const lastPrediction = new Map<string, BacktestPrediction>();
+
+  readings.forEach(({ zoneId, reading }) => {
+    detector.addReading(zoneId, reading);
+    const result = detector.predict(zoneId, reading);
+
+    // Dwell time is credited to the level in force since the previous reading
+    const previous = lastPrediction.get(zoneId);
+    if (previous) {
+      hoursAtRiskLevel[zoneId] = hoursAtRiskLevel[zoneId] ?? emptyLevelHours();
+      hoursAtRiskLevel[zoneId][previous.riskLevel] += (reading.timestamp - previous.time) / MS_PER_HOUR;
+    }
+
+    const prediction: BacktestPrediction = {
+      time: reading.timestamp,
+      zoneId,
+      riskScore: result.riskScore,
+      riskLevel: result.riskLevel,
+      confidence: result.confidence,
+      timeToEvent: result.timeToEvent
+    };
+    predictions.push(prediction);
+    lastPrediction.set(zoneId, prediction);
+
+    rules.forEach(rule => {
+      // Instrument faults are not slope alerts
+      if (isParameterFaulty(result.sensorHealth, rule.parameter)) return;
+
+      const value = evaluateAlertRule(rule, reading);
+      if (value === null) return;
+
+      const key = `${zoneId}:${rule.id}`;
+      const firedAt = lastFired.get(key);
+      if (firedAt !== undefined && isWithinCooldown(rule, firedAt, reading.timestamp)) return;
+
+      lastFired.set(key, reading.timestamp);
+      alerts.push({
+        time: reading.timestamp,
+        zoneId,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        severity: rule.severity,
+        value
+      });
+    });
+  });
+
+  const startTime = readings[0]?.reading.timestamp ?? 0;
+  const endTime = readings[readings.length - 1]?.reading.timestamp ?? startTime;
+  const durationHours = (endTime - startTime) / MS_PER_HOUR;
+  const days = durationHours / 24;
+
+  const alertsPerDayByZone: Record<string, number> = {};
+  Object.keys(input.series).forEach(zoneId => {
+    const count = alerts.filter(alert => alert.zoneId === zoneId).length;
+    alertsPerDayByZone[zoneId] = days > 0 ? count / days : count;
+  });
+
+  // A warning counts for an event if it came after the zone's previous event
+  // (or the start of the record) and no later than the event itself.
+  const events = [...(input.events ?? [])].sort((a, b) => a.time - b.time);
+  const eventLeadTimes: EventLeadTime[] = events.map((event, index) => {
+    const previousEvent = events.slice(0, index).reverse().find(e => e.zoneId === event.zoneId);
+    const windowStart = previousEvent ? previousEvent.time : -Infinity;
+    const inWindow = (time: number, zoneId: string) =>
+      zoneId === event.zoneId && time > windowStart && time <= event.time;
+
+    const firstPrediction = predictions.find(p =>
+      inWindow(p.time, p.zoneId) && RISK_LEVELS.indexOf(p.riskLevel) >= warningRank);
+    const firstAlert = alerts.find(a =>
+      inWindow(a.time, a.zoneId) && RISK_LEVELS.indexOf(a.severity) >= warningRank);
+
+    const candidates = [
+      firstPrediction && { time: firstPrediction.time, source: 'prediction' as const },
+      firstAlert && { time: firstAlert.time, source: 'alert' as const }
+    ].filter((c): c is { time: number; source: 'prediction' | 'alert' } => Boolean(c));
+    const first = candidates.sort((a, b) => a.time - b.time)[0];
+
+    return {
+      event,
+      firstWarningTime: first?.time ?? null,
+      leadTimeHours: first ? (event.time - first.time) / MS_PER_HOUR : null,
+      warnedBy: first?.source ?? null
+    };
+  });
+
+  return {
+    predictions,
+    alerts,
+    summary: {
+      startTime,
+      endTime,
+      durationHours,
+      readingCount: readings.length,
+      alertCount: alerts.length,
+      alertsPerDay: days > 0 ? alerts.length / days : alerts.length,
+      alertsPerDayByZone,
+      eventLeadTimes,
+      missedEvents: eventLeadTimes.filter(lead => lead.firstWarningTime === null).length,
+      hoursAtRiskLevel
+    }
+  };
+};
+
+// Imported series carry no known events; without some entered or imported
+// alongside, they give alert rates and time at each risk level but no lead times
+export const backtestInputFromDataset = (dataset: ReplayDataset): BacktestInput => ({
+  series: Object.fromEntries(Object.entries(dataset.zones).map(([zoneId, zone]) => [zoneId, zone.readings])),
+  events: [],
+  detectorOptions: { ...LOGGED_DATA_DETECTOR_OPTIONS, channels: dataset.parameters }
+});
+
+interface RecordingFileTick {
+  zoneId: string;
+  zoneName?: string;
+  reading: Record<string, unknown>;
+  labels?: { failureAt?: number | null };
+}
+
+const isRecordingFile = (value: unknown): value is { format: string; ticks: RecordingFileTick[] } => {
+  const candidate = value as { format?: unknown; ticks?: RecordingFileTick[] } | null;
+  return candidate?.format === 'rockfall-simulation-recording' &&
+    Array.isArray(candidate.ticks) &&
+    candidate.ticks.every(tick => typeof tick?.zoneId === 'string' && typeof tick.reading?.timestamp === 'number');
+};
+
+const isSeriesFile = (value: unknown): value is BacktestInput => {
+  const candidate = value as BacktestInput;
+  return typeof candidate === 'object' && candidate !== null &&
+    typeof candidate.series === 'object' && candidate.series !== null &&
+    Object.values(candidate.series).every(series =>
+      Array.isArray(series) && series.every(r => typeof r?.timestamp === 'number')) &&
+    (candidate.events === undefined || Array.isArray(candidate.events));
+};
+
+// A simulation recording export replays its zone-level readings on the live
+// simulator's time step; each zone whose failure falls inside the recording
+// is a known event.
+const backtestInputFromRecording = (ticks: RecordingFileTick[]): BacktestInput => {
+  const series: Record<string, SensorReading[]> = {};
+  const failures = new Map<string, { zoneName: string; failureAt: number | null }>();
+  ticks.forEach(({ zoneId, zoneName, reading, labels }) => {
+    // JSON writes missing values as null
+    series[zoneId] = series[zoneId] ?? [];
+    series[zoneId].push({
+      timestamp: reading.timestamp as number,
+      ...mapSensorParameters(key => (typeof reading[key] === 'number' ? reading[key] as number : NaN))
+    });
+    failures.set(zoneId, { zoneName: zoneName ?? zoneId, failureAt: labels?.failureAt ?? null });
+  });
+
+  const events: KnownEvent[] = [];
+  failures.forEach(({ zoneName, failureAt }, zoneId) => {
+    const readings = series[zoneId];
+    if (failureAt !== null && failureAt <= readings[readings.length - 1].timestamp) {
+      events.push({ zoneId, time: failureAt, label: `${zoneName} failure` });
+    }
+  });
+  return { series, events, detectorOptions: LIVE_SIMULATION_DETECTOR_OPTIONS };
+};
+
+// Reads a backtest file: either a simulation recording export or
+// { series: { zoneId: SensorReading[] }, events: [{ zoneId, time }] }.
+// Throws when it is neither.
+export const parseBacktestFile = (value: unknown): BacktestInput => {
+  if (isRecordingFile(value)) {
+    if (value.ticks.length === 0) {
+      throw new Error('The recording has no ticks');
+    }
+    return backtestInputFromRecording(value.ticks);
+  }
+  if (isSeriesFile(value)) {
+    return value;
+  }
+  throw new Error('Expected a simulation recording export or { "series": { zoneId: SensorReading[] }, "events": [{ zoneId, time }] }');
+};
+
+// Reads a known-event list: [{ zoneId, time, label? }] or { events: [...] },
+// with each time in epoch ms or as an ISO 8601 string. Throws on anything else.
+export const parseKnownEvents = (value: unknown): KnownEvent[] => {
+  const list = Array.isArray(value) ? value : (value as { events?: unknown } | null)?.events;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected [{ "zoneId": "...", "time": "2024-03-01T06:00:00Z", "label": "..." }]');
+  }
+  return list.map((entry, index) => {
+    const time = typeof entry?.time === 'string' ? Date.parse(entry.time) : entry?.time;
+    if (typeof entry?.zoneId !== 'string' || entry.zoneId === '' || typeof time !== 'number' || !Number.isFinite(time)) {
+      throw new Error(`Event ${index + 1} needs a zoneId and a time`);
+    }
+    return {
+      zoneId: entry.zoneId,
+      time,
+      ...(typeof entry.label === 'string' && entry.label !== '' ? { label: entry.label } : {})
+    };
+  });
+};
@@ -0,0 +1,192 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+
+// One labeled reading sequence. `outcome` is true when the sequence ended in
+// (or contained) a rockfall event; `eventTime` defaults to the last reading.
+export interface LabeledSequence {
+  readings: SensorReading[];
+  outcome: boolean;
+  eventTime?: number; // epoch ms
+  label?: string;
+}
+
+// Risk score trace produced by replaying a sequence through a model.
+export interface ScoredSequence {
+  outcome: boolean;
+  eventTime: number | null;
+  scores: Array<{ timestamp: number; score: number }>;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+}
+
+export interface OperatingPoint extends ConfusionMatrix {
+  threshold: number;
+  truePositiveRate: number; // recall
+  falsePositiveRate: number;
+  precision: number;
+  accuracy: number;
+  meanLeadTimeHours: number | null;
+}
+
+export interface LeadTimeSummary {
+  mean: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface CalibrationMetrics {
+  sequenceCount: number;
+  positiveCount: number;
+  targetFalseAlarmRate: number;
+  selected: OperatingPoint;
+  rocCurve: Array<{ threshold: number; falsePositiveRate: number; truePositiveRate: number }>;
+  prCurve: Array<{ threshold: number; recall: number; precision: number }>;
+  rocAuc: number;
+  prAuc: number;
+  leadTimeHours: LeadTimeSummary;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Candidate alarm thresholds on the 0-100 risk score scale.
+export const SCORE_THRESHOLDS = Array.from({ length: 101 }, (_, i) => i);
+
+const safeRatio = (numerator: number, denominator: number, fallback: number): number =>
+  denominator > 0 ? numerator / denominator : fallback;
+
+const firstAlarm = (sequence: ScoredSequence, threshold: number) =>
+  sequence.scores.find(s => s.score >= threshold) ?? null;
+
+const leadTimesAt = (sequences: ScoredSequence[], threshold: number): number[] =>
+  sequences
+    .filter(sequence => sequence.outcome && sequence.eventTime !== null)
+    .map(sequence => {
+      const alarm = firstAlarm(sequence, threshold);
+      return alarm ? (sequence.eventTime! - alarm.timestamp) / MS_PER_HOUR : null;
+    })
+    .filter((lead): lead is number => lead !== null);
+
+export const evaluateThreshold = (sequences: ScoredSequence[], threshold: number): OperatingPoint => {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, trueNegatives: 0, falseNegatives: 0 };
+
+  sequences.forEach(sequence => {
+    const alarmed = firstAlarm(sequence, threshold) !== null;
+    if (sequence.outcome) {
+      if (alarmed) matrix.truePositives++;
+      else matrix.falseNegatives++;
+    } else if (alarmed) {
+      matrix.falsePositives++;
+    } else {
+      matrix.trueNegatives++;
+    }
+  });
+
+  const leadTimes = leadTimesAt(sequences, threshold);
+
+  return {
+    ...matrix,
+    threshold,
+    truePositiveRate: safeRatio(matrix.truePositives, matrix.truePositives + matrix.falseNegatives, 0),
+    falsePositiveRate: safeRatio(matrix.falsePositives, matrix.falsePositives + matrix.trueNegatives, 0),
+    precision: safeRatio(matrix.truePositives, matrix.truePositives + matrix.falsePositives, 1),
+    accuracy: safeRatio(matrix.truePositives + matrix.trueNegatives, sequences.length, 0),
+    meanLeadTimeHours: leadTimes.length > 0
+      ? leadTimes.reduce((sum, lead) => sum + lead, 0) / leadTimes.length
+      : null
+  };
+};
+
+// Area under a curve given as (x, y) points, integrated with the trapezoid rule.
+const trapezoidArea = (points: Array<[number, number]>): number => {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  let area = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    area += (sorted[i][0] - sorted[i - 1][0]) * (sorted[i][1] + sorted[i - 1][1]) / 2;
+  }
+  return area;
+};
+
+const summarizeLeadTimes = (leadTimes: number[]): LeadTimeSummary => {
+  if (leadTimes.length === 0) {
+    return { mean: null, median: null, min: null, max: null };
+  }
+  const sorted = [...leadTimes].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    mean: sorted.reduce((sum, lead) => sum + lead, 0) / sorted.length,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    min: sorted[0],
+    max: sorted[sorted.length - 1]
+  };
+};
+
+// The lowest threshold whose false-positive rate stays within the target,
+// i.e. the most sensitive setting the false-alarm budget allows.
+export const selectOperatingPoint = (
+  points: OperatingPoint[],
+  targetFalseAlarmRate: number
+): OperatingPoint => {
+  const admissible = points
+    .filter(point => point.falsePositiveRate <= targetFalseAlarmRate)
+    .sort((a, b) => a.threshold - b.threshold);
+  return admissible[0] ?? points.reduce((best, point) => point.threshold > best.threshold ? point : best);
+};
+
+export const computeCalibrationMetrics = (
+  sequences: ScoredSequence[],
+  targetFalseAlarmRate: number
+): CalibrationMetrics => {
+  const points = SCORE_THRESHOLDS.map(threshold => evaluateThreshold(sequences, threshold));
+  const selected = selectOperatingPoint(points, targetFalseAlarmRate);
+
+  // Anchor the ROC curve at (0,0) and (1,1) so the AUC is well defined even
+  // when the score range never reaches either extreme.
+  const rocPoints: Array<[number, number]> = [
+    [0, 0],
+    [1, 1],
+    ...points.map(p => [p.falsePositiveRate, p.truePositiveRate] as [number, number])
+  ];
+  const prPoints = points.map(p => [p.truePositiveRate, p.precision] as [number, number]);
+
+  return {
+    sequenceCount: sequences.length,
+    positiveCount: sequences.filter(s => s.outcome).length,
+    targetFalseAlarmRate,
+    selected,
+    rocCurve: points.map(p => ({
+      threshold: p.threshold,
+      falsePositiveRate: p.falsePositiveRate,
+      truePositiveRate: p.truePositiveRate
+    })),
+    prCurve: points.map(p => ({ threshold: p.threshold, recall: p.truePositiveRate, precision: p.precision })),
+    rocAuc: trapezoidArea(rocPoints),
+    prAuc: trapezoidArea(prPoints),
+    leadTimeHours: summarizeLeadTimes(leadTimesAt(sequences, selected.threshold))
+  };
+};
+
+// Value of a raw sensor parameter that at most `targetFalseAlarmRate` of the
+// event-free sequences ever exceed. Returns null when there are no negatives.
+export const parameterThresholdForFalseAlarmRate = (
+  sequences: LabeledSequence[],
+  parameter: keyof SensorReading,
+  targetFalseAlarmRate: number
+): number | null => {
+  const negativeMaxima = sequences
+    .filter(sequence => !sequence.outcome && sequence.readings.length > 0)
+    // Reduced rather than spread: recorded sequences can outgrow the call stack
+    .map(sequence => sequence.readings.reduce((max, r) => Math.max(max, r[parameter] as number), -Infinity))
+    .filter(value => Number.isFinite(value))
+    .sort((a, b) => a - b);
+
+  if (negativeMaxima.length === 0) return null;
+
+  // Allow floor(n * rate) negatives above the threshold
+  const allowed = Math.floor(negativeMaxima.length * targetFalseAlarmRate);
+  return negativeMaxima[negativeMaxima.length - 1 - allowed];
+};
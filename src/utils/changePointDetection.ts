@@ -0,0 +1,203 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import type { SensorParameter } from './sensorParameters';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface SeriesPoint {
+  timestamp: number; // epoch ms
+  value: number;
+}
+
+export interface ChangePoint {
+  index: number; // Series index where the new regime starts
+  timestamp: number;
+  direction: 'increase' | 'decrease'; // Change in rate of change
+  rateBefore: number; // units per hour
+  rateAfter: number; // units per hour
+}
+
+export interface Kinematics {
+  velocity: number; // units per hour at the latest sample
+  acceleration: number; // units per hour²
+  accelerationTStat: number; // acceleration / standard error; 0 when undetermined
+  samples: number;
+}
+
+export interface MotionAnalysis {
+  parameter: SensorParameter;
+  kinematics: Kinematics | null;
+  changePoints: ChangePoint[];
+}
+
+export interface ChangePointOptions {
+  minSegment: number; // Rates used to establish each regime's baseline
+  drift: number; // CUSUM allowance k, in baseline standard deviations
+  threshold: number; // CUSUM decision interval h, in baseline standard deviations
+}
+
+const DEFAULT_CHANGE_POINT_OPTIONS: ChangePointOptions = {
+  minSegment: 10,
+  drift: 0.5,
+  threshold: 8
+};
+
+export const seriesFor = (history: SensorReading[], parameter: keyof SensorReading): SeriesPoint[] =>
+  history.map(reading => ({ timestamp: reading.timestamp, value: reading[parameter] }));
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Two-sided tabular CUSUM on the rate of change between samples. Each regime's
+// baseline rate and robust spread come from its first `minSegment` rates; when
+// either sum crosses the threshold, the change is dated to where that sum last
+// left zero and a new baseline starts there.
+export const detectChangePoints = (
+  series: SeriesPoint[],
+  options: Partial<ChangePointOptions> = {}
+): ChangePoint[] => {
+  const { minSegment, drift, threshold } = { ...DEFAULT_CHANGE_POINT_OPTIONS, ...options };
+
+  // rates[j] covers series[index - 1] -> series[index]
+  const rates: Array<{ index: number; rate: number }> = [];
+  for (let i = 1; i < series.length; i++) {
+    const hours = (series[i].timestamp - series[i - 1].timestamp) / MS_PER_HOUR;
+    if (hours > 0 && Number.isFinite(series[i].value) && Number.isFinite(series[i - 1].value)) {
+      rates.push({ index: i, rate: (series[i].value - series[i - 1].value) / hours });
+    }
+  }
+
+  const changePoints: ChangePoint[] = [];
+  let start = 0;
+
+  while (start + minSegment < rates.length) {
+    const baseline = rates.slice(start, start + minSegment).map(r => r.rate);
+    const mean = baseline.reduce((sum, rate) => sum + rate, 0) / baseline.length;
+    const mad = median(baseline.map(rate => Math.abs(rate - mean)));
+    const sigma = Math.max(1.4826 * mad, 0.05 * Math.abs(mean), 1e-9);
+
+    let upper = 0;
+    let lower = 0;
+    let upperStart = start + minSegment;
+    let lowerStart = start + minSegment;
+    let detected: { at: number; direction: ChangePoint['direction']; end: number } | null = null;
+
+    for (let j = start + minSegment; j < rates.length; j++) {
+      const z = (rates[j].rate - mean) / sigma;
+      upper = Math.max(0, upper + z - drift);
+      lower = Math.max(0, lower - z - drift);
+      if (upper === 0) upperStart = j + 1;
+      if (lower === 0) lowerStart = j + 1;
+
+      if (upper > threshold) {
+        detected = { at: upperStart, direction: 'increase', end: j };
+        break;
+      }
+      if (lower > threshold) {
+        detected = { at: lowerStart, direction: 'decrease', end: j };
+        break;
+      }
+    }
+
+    if (!detected) break;
+
+    const after = rates.slice(detected.at, detected.end + 1).map(r => r.rate);
+    const onset = rates[detected.at].index - 1;
+    changePoints.push({
+      index: onset,
+      timestamp: series[onset].timestamp,
+      direction: detected.direction,
+      rateBefore: mean,
+      rateAfter: after.reduce((sum, rate) => sum + rate, 0) / after.length
+    });
+    start = detected.at;
+  }
+
+  return changePoints;
+};
+
+// Least-squares quadratic over the most recent `window` samples; velocity is
+// the fitted slope at the latest sample and acceleration twice the curvature.
+export const estimateKinematics = (series: SeriesPoint[], window: number = 12): Kinematics | null => {
+  const points = series.slice(-window).filter(p => Number.isFinite(p.value));
+  if (points.length < 4) return null;
+
+  const t0 = points[points.length - 1].timestamp;
+  const ts = points.map(p => (p.timestamp - t0) / MS_PER_HOUR);
+  const ys = points.map(p => p.value);
+  if (ts[0] === 0) return null;
+
+  // Normal equations for y = a + b t + c t²
+  const n = points.length;
+  const s = [0, 0, 0, 0, 0]; // Σt^k
+  const r = [0, 0, 0]; // Σ y t^k
+  ts.forEach((t, i) => {
+    let power = 1;
+    for (let k = 0; k < 5; k++) {
+      s[k] += power;
+      if (k < 3) r[k] += ys[i] * power;
+      power *= t;
+    }
+  });
+  const m = [
+    [s[0], s[1], s[2]],
+    [s[1], s[2], s[3]],
+    [s[2], s[3], s[4]]
+  ];
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+
+  const withColumn = (col: number) => m.map((row, i) => row.map((value, j) => (j === col ? r[i] : value)));
+  const a = det(withColumn(0)) / d;
+  const b = det(withColumn(1)) / d;
+  const c = det(withColumn(2)) / d;
+
+  const residualVariance = n > 3
+    ? ts.reduce((sum, t, i) => sum + (ys[i] - (a + b * t + c * t * t)) ** 2, 0) / (n - 3)
+    : 0;
+  // Variance of c is σ² times the (2,2) cofactor of the inverse
+  const cofactor = m[0][0] * m[1][1] - m[0][1] * m[1][0];
+  const seC = Math.sqrt(residualVariance * cofactor / d);
+
+  return {
+    velocity: b, // Fit is centred on the latest sample, so slope there is b
+    acceleration: 2 * c,
+    accelerationTStat: seC > 0 ? c / seC : 0,
+    samples: n
+  };
+};
+
+// Kinematics come from the last `kinematicsHours` when given, otherwise from
+// the default number of samples
+export const analyzeMotion = (
+  history: SensorReading[],
+  parameter: SensorParameter,
+  options: Partial<ChangePointOptions> = {},
+  kinematicsHours?: number
+): MotionAnalysis => {
+  const series = seriesFor(history, parameter);
+  const latest = series[series.length - 1]?.timestamp ?? 0;
+  const recent = kinematicsHours === undefined
+    ? series
+    : series.filter(point => point.timestamp > latest - kinematicsHours * MS_PER_HOUR);
+  return {
+    parameter,
+    kinematics: kinematicsHours === undefined ? estimateKinematics(series) : estimateKinematics(recent, recent.length),
+    changePoints: detectChangePoints(series, options)
+  };
+};
+
+// Built once: constructing a formatter per call dominates prediction time
+const TIME_FORMAT = new Intl.DateTimeFormat(undefined, { hour: '2-digit', minute: '2-digit' });
+
+export const describeChangePoint = (parameter: string, changePoint: ChangePoint, unit: string = ''): string => {
+  const time = TIME_FORMAT.format(changePoint.timestamp);
+  const rate = (value: number) => `${value.toFixed(2)}${unit ? ` ${unit}` : ''}/h`;
+  return `${parameter} regime change at ${time} (${rate(changePoint.rateBefore)} → ${rate(changePoint.rateAfter)})`;
+};
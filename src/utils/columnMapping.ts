@@ -0,0 +1,308 @@
+// Turns imported rows into per-zone SensorReading series. A mapping says
+// which column holds the time, which (if any) the zone, and which each
+// sensor parameter, and the unit each parameter column was recorded in;
+// everything else is ignored. Mappings can be saved as named templates and
+// are matched to new files by their headers.
+
+import { SENSOR_PARAMETERS, findSensorParameter, isSensorParameter, mapSensorParameters } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+import type { ReplayDataset, ReplayZone } from './historicalReplay';
+import { canonicalUnit, findUnit, unitConverter } from './unitConversion';
+
+export type ColumnTarget = 'timestamp' | 'zoneId' | 'zoneName' | SensorParameter;
+
+export interface ColumnMapping {
+  columns: Record<string, ColumnTarget>; // Unlisted columns are ignored
+  fixedZoneId: string; // Zone for every row when no column is mapped to zoneId
+  units: Record<string, string>; // Unit of each parameter column as recorded; the registry unit when unlisted
+}
+
+export interface MappingTemplate {
+  name: string;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+export const DEFAULT_FIXED_ZONE_ID = 'imported';
+
+const TEMPLATES_KEY = 'columnMappingTemplates';
+const HEADER_SIMILARITY = 0.75; // Dice coefficient for two headers to count as the same column
+const TEMPLATE_MATCH = 0.6; // Share of a template's columns a file must have
+const UNIT_ROW_SEARCH = 3; // Rows under the header that may hold units instead of readings
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Headers often carry the unit, e.g. "Displacement (mm)" or "Disp_mm"
+const headerParameter = (header: string): SensorParameter | null =>
+  findSensorParameter(header.replace(/\s*[([][^)\]]*[)\]]\s*$/, '')) ??
+  findSensorParameter(header.replace(/[\s_-]+[^\s_-]+$/, ''));
+
+// The unit a header or a units row names for the column, e.g. "Disp (in)",
+// "Temp_F" or a Campbell TOA5 row of "mm", "kPa"; null when none does
+export const inferColumnUnit = (
+  parameter: SensorParameter,
+  column: string,
+  records: Array<Record<string, unknown>> = []
+): string | null => {
+  const bracketed = column.match(/[([]([^)\]]*)[)\]]/g)?.map(part => part.slice(1, -1)) ?? [];
+  const trailing = column.match(/[\s_-]+([^\s_-]+)$/)?.[1];
+  const candidates = [
+    ...bracketed,
+    ...(trailing ? [trailing] : []),
+    ...records.slice(0, UNIT_ROW_SEARCH).map(record => record[column]).filter((value): value is string => typeof value === 'string')
+  ];
+  for (const candidate of candidates) {
+    const unit = findUnit(parameter, candidate);
+    if (unit) return unit.symbol;
+  }
+  return null;
+};
+
+const findColumn = (columns: string[], names: string[]): string | undefined =>
+  columns.find(column => names.includes(normalizeHeader(column)));
+
+// Epoch seconds, epoch milliseconds or any string Date can parse
+export const parseTimestamp = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < 1e11 ? value * 1000 : value;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) return parseTimestamp(numeric);
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+// A first guess from the headers and first rows: a timestamp, optionally a
+// zone id and zone name, and any column named after a sensor parameter, in
+// the unit its header or units row names
+export const suggestColumnMapping = (
+  columns: string[],
+  records: Array<Record<string, unknown>> = []
+): ColumnMapping => {
+  const mapped: Record<string, ColumnTarget> = {};
+  const timeColumn = findColumn(columns, ['timestamp', 'datetime', 'time', 'date']) ??
+    columns.find(column => /time|date/i.test(column));
+  if (timeColumn) mapped[timeColumn] = 'timestamp';
+  const zoneColumn = findColumn(columns, ['zoneid', 'zone']);
+  if (zoneColumn) mapped[zoneColumn] = 'zoneId';
+  const zoneNameColumn = findColumn(columns, ['zonename']);
+  if (zoneNameColumn) mapped[zoneNameColumn] = 'zoneName';
+
+  const claimed = new Set<SensorParameter>();
+  const units: Record<string, string> = {};
+  columns.forEach(column => {
+    const parameter = mapped[column] ? null : headerParameter(column);
+    if (parameter && !claimed.has(parameter)) {
+      mapped[column] = parameter;
+      units[column] = inferColumnUnit(parameter, column, records) ?? canonicalUnit(parameter);
+      claimed.add(parameter);
+    }
+  });
+  return { columns: mapped, fixedZoneId: DEFAULT_FIXED_ZONE_ID, units };
+};
+
+// What stops a mapping from producing series; empty when it can be applied
+export const mappingProblems = (mapping: ColumnMapping): string[] => {
+  const problems: string[] = [];
+  const targets = Object.values(mapping.columns);
+  const count = (target: ColumnTarget) => targets.filter(mapped => mapped === target).length;
+
+  if (count('timestamp') === 0) problems.push('Map a column to the timestamp');
+  if (!targets.some(isSensorParameter)) problems.push('Map at least one column to a sensor parameter');
+  if (count('zoneId') === 0 && mapping.fixedZoneId.trim() === '') problems.push('Map a zone ID column or name a zone for every row');
+  (['timestamp', 'zoneId', 'zoneName', ...SENSOR_PARAMETERS] as ColumnTarget[]).forEach(target => {
+    if (count(target) > 1) problems.push(`More than one column is mapped to ${target}`);
+  });
+  Object.entries(mapping.columns).forEach(([column, target]) => {
+    const unit = mapping.units[column];
+    if (isSensorParameter(target) && unit !== undefined && !findUnit(target, unit)) {
+      problems.push(`${unit} is not a known unit for ${target} (${column})`);
+    }
+  });
+  return problems;
+};
+
+// Builds per-zone series from imported rows, converting every value to the
+// registry unit. Rows without a readable time are dropped; unreadable values
+// become NaN. Throws when the mapping is incomplete or no row can be used.
+export const applyColumnMapping = (
+  id: string,
+  name: string,
+  records: Array<Record<string, unknown>>,
+  mapping: ColumnMapping
+): ReplayDataset => {
+  const problems = mappingProblems(mapping);
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '));
+  }
+  const entries = Object.entries(mapping.columns);
+  const columnFor = (target: ColumnTarget) => entries.find(([, mapped]) => mapped === target)?.[0];
+  const timeColumn = columnFor('timestamp') as string;
+  const zoneColumn = columnFor('zoneId');
+  const zoneNameColumn = columnFor('zoneName');
+  const parameterColumns = entries.filter((entry): entry is [string, SensorParameter] => isSensorParameter(entry[1]));
+  const sourceUnits = Object.fromEntries(parameterColumns.map(([column, parameter]) =>
+    [parameter, mapping.units[column] ?? canonicalUnit(parameter)]
+  )) as Partial<Record<SensorParameter, string>>;
+  const converters = parameterColumns.map(([, parameter]) => unitConverter(parameter, sourceUnits[parameter] as string));
+  const fixedZoneId = mapping.fixedZoneId.trim();
+
+  const zones: Record<string, ReplayZone> = {};
+  let readingCount = 0;
+  records.forEach(record => {
+    const timestamp = parseTimestamp(record[timeColumn]);
+    if (timestamp === null) return;
+    const zoneValue = zoneColumn ? record[zoneColumn] : undefined;
+    const zoneId = zoneValue !== undefined && zoneValue !== null && zoneValue !== ''
+      ? String(zoneValue)
+      : fixedZoneId || DEFAULT_FIXED_ZONE_ID;
+    const values = new Map(parameterColumns.map(([column, parameter], index) =>
+      [parameter, converters[index](toNumber(record[column]))]
+    ));
+    zones[zoneId] = zones[zoneId] ?? {
+      zoneName: zoneNameColumn && record[zoneNameColumn] ? String(record[zoneNameColumn]) : zoneColumn ? zoneId : name,
+      readings: []
+    };
+    zones[zoneId].readings.push({ timestamp, ...mapSensorParameters(key => values.get(key) ?? NaN) });
+    readingCount++;
+  });
+  if (readingCount === 0) {
+    throw new Error(`No row has a readable ${timeColumn}`);
+  }
+
+  Object.values(zones).forEach(zone => zone.readings.sort((a, b) => a.timestamp - b.timestamp));
+  const series = Object.values(zones);
+  return {
+    id,
+    name,
+    zones,
+    parameters: SENSOR_PARAMETERS.filter(key => parameterColumns.some(([, parameter]) => parameter === key)),
+    startTime: Math.min(...series.map(zone => zone.readings[0].timestamp)),
+    endTime: Math.max(...series.map(zone => zone.readings[zone.readings.length - 1].timestamp)),
+    readingCount,
+    sourceUnits
+  };
+};
+
+// Sørensen-Dice over character bigrams of the normalized headers, so
+// "Disp_mm", "Disp (mm)" and "disp mm" all match
+const headerSimilarity = (a: string, b: string): number => {
+  const x = normalizeHeader(a);
+  const y = normalizeHeader(b);
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+  const bigrams = (text: string) => Array.from({ length: text.length - 1 }, (_, i) => text.slice(i, i + 2));
+  const remaining = bigrams(y);
+  let shared = 0;
+  bigrams(x).forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index >= 0) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  return 2 * shared / (x.length - 1 + y.length - 1);
+};
+
+// A template's mapping carried over to a file's own column names, matching
+// headers loosely, and the share of the template's columns that were found.
+// A unit the file itself names wins over the template's.
+export const fitMappingTemplate = (
+  template: MappingTemplate,
+  columns: string[],
+  records: Array<Record<string, unknown>> = []
+): { mapping: ColumnMapping; score: number } => {
+  const templateColumns = Object.entries(template.mapping.columns);
+  const free = new Set(columns);
+  const mapped: Record<string, ColumnTarget> = {};
+  const units: Record<string, string> = {};
+  for (const [templateColumn, target] of templateColumns) {
+    let match: { column: string; similarity: number } | null = null;
+    for (const column of free) {
+      const similarity = headerSimilarity(templateColumn, column);
+      if (similarity >= HEADER_SIMILARITY && (!match || similarity > match.similarity)) {
+        match = { column, similarity };
+      }
+    }
+    if (match) {
+      mapped[match.column] = target;
+      if (isSensorParameter(target)) {
+        units[match.column] = inferColumnUnit(target, match.column, records) ??
+          template.mapping.units[templateColumn] ?? canonicalUnit(target);
+      }
+      free.delete(match.column);
+    }
+  }
+  return {
+    mapping: { columns: mapped, fixedZoneId: template.mapping.fixedZoneId, units },
+    score: templateColumns.length > 0 ? Object.keys(mapped).length / templateColumns.length : 0
+  };
+};
+
+// The saved template that best fits the file's headers; null when none
+// covers enough of its columns
+export const matchMappingTemplate = (
+  templates: MappingTemplate[],
+  columns: string[],
+  records: Array<Record<string, unknown>> = []
+): { template: MappingTemplate; mapping: ColumnMapping; score: number } | null => {
+  let best: { template: MappingTemplate; mapping: ColumnMapping; score: number } | null = null;
+  for (const template of templates) {
+    const { mapping, score } = fitMappingTemplate(template, columns, records);
+    if (score >= TEMPLATE_MATCH && (!best || score > best.score)) {
+      best = { template, mapping, score };
+    }
+  }
+  return best;
+};
+
+const isMappingTemplate = (value: unknown): value is MappingTemplate => {
+  const template = value as MappingTemplate | null;
+  return typeof template?.name === 'string' &&
+    typeof template.mapping?.fixedZoneId === 'string' &&
+    typeof template.mapping.columns === 'object' && template.mapping.columns !== null;
+};
+
+export const loadMappingTemplates = (): MappingTemplate[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+    // Templates saved before units were recorded assume the registry units
+    return Array.isArray(saved)
+      ? saved.filter(isMappingTemplate).map(template => ({
+        ...template,
+        mapping: { ...template.mapping, units: template.mapping.units ?? {} }
+      }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+// Saves over any template with the same name and returns the new list
+export const saveMappingTemplate = (name: string, mapping: ColumnMapping): MappingTemplate[] => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Give the template a name');
+  }
+  const templates = [
+    ...loadMappingTemplates().filter(template => template.name !== trimmed),
+    { name: trimmed, mapping, savedAt: new Date().toISOString() }
+  ];
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  return templates;
+};
+
+export const deleteMappingTemplate = (name: string): MappingTemplate[] => {
+  const templates = loadMappingTemplates().filter(template => template.name !== name);
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  return templates;
+};
@@ -0,0 +1,199 @@
+// Slope creep and hydrology for the simulator. Displacement follows the three
+// classic creep stages: primary creep decelerates into steady secondary creep,
+// and tertiary creep accelerates to failure with inverse velocity falling
+// linearly in time (Fukuzono 1985), the signature the inverse-velocity
+// forecast looks for. Rain infiltrates with a lag, raises pore pressure that
+// drains away again, and excess pore pressure speeds creep up by lowering
+// effective stress.
+
+import { MS_PER_HOUR } from './timeWindows';
+
+export type CreepStage = 'primary' | 'secondary' | 'tertiary';
+
+export const CREEP_STAGES: CreepStage[] = ['primary', 'secondary', 'tertiary'];
+
+export interface CreepParameters {
+  primaryRate: number; // mm/hr at the onset of primary creep
+  primaryDecayHours: number; // Time constant of the primary slowdown
+  secondaryRate: number; // mm/hr of steady creep
+  tertiaryRate: number; // mm/hr at the onset of tertiary creep
+  failureHours: number; // From tertiary onset to failure
+  porePressureSensitivity: number; // per kPa; velocity scales by e^(sensitivity × excess pressure)
+  infiltrationLagHours: number; // Delay between rain at surface and recharge at depth
+  drainageHours: number; // Decay time of excess pore pressure
+  rechargeGain: number; // kPa of excess pore pressure per mm of recharge
+  strainPerMm: number; // µε of strain per mm of displacement
+  tiltPerMm: number; // ° of tilt per mm of displacement
+}
+
+export const DEFAULT_CREEP_PARAMETERS: CreepParameters = {
+  primaryRate: 0.2,
+  primaryDecayHours: 6,
+  secondaryRate: 0.02,
+  tertiaryRate: 0.5,
+  failureHours: 12,
+  porePressureSensitivity: 0.002,
+  infiltrationLagHours: 3,
+  drainageHours: 24,
+  rechargeGain: 2,
+  strainPerMm: 15,
+  tiltPerMm: 0.05
+};
+
+export const CREEP_PARAMETER_FIELDS: Array<{ key: keyof CreepParameters; label: string; unit: string }> = [
+  { key: 'primaryRate', label: 'Primary onset rate', unit: 'mm/hr' },
+  { key: 'primaryDecayHours', label: 'Primary decay time', unit: 'h' },
+  { key: 'secondaryRate', label: 'Secondary rate', unit: 'mm/hr' },
+  { key: 'tertiaryRate', label: 'Tertiary onset rate', unit: 'mm/hr' },
+  { key: 'failureHours', label: 'Tertiary time to failure', unit: 'h' },
+  { key: 'porePressureSensitivity', label: 'Pore pressure sensitivity', unit: '1/kPa' },
+  { key: 'infiltrationLagHours', label: 'Infiltration lag', unit: 'h' },
+  { key: 'drainageHours', label: 'Drainage time', unit: 'h' },
+  { key: 'rechargeGain', label: 'Recharge gain', unit: 'kPa/mm' },
+  { key: 'strainPerMm', label: 'Strain coupling', unit: 'µε/mm' },
+  { key: 'tiltPerMm', label: 'Tilt coupling', unit: '°/mm' }
+];
+
+// Tertiary velocity stops growing at this multiple of its onset rate, which
+// stands in for the slope having failed
+export const MAX_TERTIARY_SPEEDUP = 200;
+
+export interface CreepState {
+  stage: CreepStage;
+  stageStartMs: number; // Simulated clock time the stage began
+  stageRate: number; // mm/hr at the start of the stage
+  failureAtMs: number | null; // Tertiary only
+  displacement: number; // mm accumulated by creep
+  velocity: number; // mm/hr at the latest step, pore pressure included
+  infiltration: number; // mm of rain stored above the water table
+  excessPressure: number; // kPa above the zone's resting pore pressure
+}
+
+export const validateCreepParameters = (params: CreepParameters): void => {
+  CREEP_PARAMETER_FIELDS.forEach(({ key, label }) => {
+    const value = params[key];
+    const allowZero = key === 'porePressureSensitivity' || key === 'strainPerMm' || key === 'tiltPerMm';
+    if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+      throw new Error(`${label} must be a ${allowZero ? 'non-negative' : 'positive'} number (got ${value})`);
+    }
+  });
+};
+
+export const initialCreepState = (params: CreepParameters, nowMs: number = 0): CreepState => ({
+  stage: 'primary',
+  stageStartMs: nowMs,
+  stageRate: params.primaryRate,
+  failureAtMs: null,
+  displacement: 0,
+  velocity: params.primaryRate,
+  infiltration: 0,
+  excessPressure: 0
+});
+
+// Moves a zone into a creep stage; rate and time to failure default to the
+// zone's parameters
+export const enterCreepStage = (
+  state: CreepState,
+  params: CreepParameters,
+  stage: CreepStage,
+  nowMs: number,
+  options: { rate?: number | null; failureInMs?: number | null } = {}
+): CreepState => {
+  const defaults: Record<CreepStage, number> = {
+    primary: params.primaryRate,
+    secondary: params.secondaryRate,
+    tertiary: params.tertiaryRate
+  };
+  return {
+    ...state,
+    stage,
+    stageStartMs: nowMs,
+    stageRate: options.rate ?? defaults[stage],
+    failureAtMs: stage === 'tertiary' ? nowMs + (options.failureInMs ?? params.failureHours * MS_PER_HOUR) : null
+  };
+};
+
+// Share of the way from tertiary onset to failure where velocity is capped
+const TERTIARY_CAP = 1 - 1 / MAX_TERTIARY_SPEEDUP;
+
+// Stage velocity in mm/hr at a time, before the pore pressure effect
+export const stageVelocity = (state: CreepState, params: CreepParameters, atMs: number): number => {
+  const hours = Math.max(0, atMs - state.stageStartMs) / MS_PER_HOUR;
+  switch (state.stage) {
+    case 'primary': {
+      const floor = Math.min(params.secondaryRate, state.stageRate);
+      return floor + (state.stageRate - floor) * Math.exp(-hours / params.primaryDecayHours);
+    }
+    case 'secondary':
+      return state.stageRate;
+    case 'tertiary': {
+      const span = (state.failureAtMs ?? Infinity) - state.stageStartMs;
+      const progress = Math.min((atMs - state.stageStartMs) / span, TERTIARY_CAP);
+      return state.stageRate / (1 - progress);
+    }
+  }
+};
+
+// Exact displacement between two times for the current stage, so the result
+// does not depend on how finely the simulation steps
+const stageDisplacement = (state: CreepState, params: CreepParameters, fromMs: number, toMs: number): number => {
+  const h0 = Math.max(0, fromMs - state.stageStartMs) / MS_PER_HOUR;
+  const h1 = Math.max(0, toMs - state.stageStartMs) / MS_PER_HOUR;
+  switch (state.stage) {
+    case 'primary': {
+      const floor = Math.min(params.secondaryRate, state.stageRate);
+      const tau = params.primaryDecayHours;
+      return floor * (h1 - h0) + (state.stageRate - floor) * tau * (Math.exp(-h0 / tau) - Math.exp(-h1 / tau));
+    }
+    case 'secondary':
+      return state.stageRate * (h1 - h0);
+    case 'tertiary': {
+      const tf = ((state.failureAtMs ?? Infinity) - state.stageStartMs) / MS_PER_HOUR;
+      const capHours = TERTIARY_CAP * tf;
+      const accelerating = Math.max(0, Math.min(h1, capHours) - h0);
+      let total = 0;
+      if (accelerating > 0) {
+        const u0 = h0 / tf;
+        const u1 = Math.min(h1, capHours) / tf;
+        total += state.stageRate * tf * (Math.log(1 - u0) - Math.log(1 - u1));
+      }
+      const capped = h1 - Math.max(h0, capHours);
+      if (capped > 0) total += state.stageRate * MAX_TERTIARY_SPEEDUP * capped;
+      return total;
+    }
+  }
+};
+
+// Advances creep and hydrology over one step. `excessRainfall` is rain above
+// the zone's usual level, in mm/hr, held constant over the step.
+export const stepCreep = (
+  state: CreepState,
+  params: CreepParameters,
+  fromMs: number,
+  toMs: number,
+  excessRainfall: number
+): CreepState => {
+  const hours = Math.max(0, toMs - fromMs) / MS_PER_HOUR;
+
+  // Linear reservoirs with exact exponential updates, stable at any step
+  const lag = Math.exp(-hours / params.infiltrationLagHours);
+  const infiltration = state.infiltration * lag + excessRainfall * params.infiltrationLagHours * (1 - lag);
+  const recharge = (state.infiltration + infiltration) / 2 / params.infiltrationLagHours; // mm/hr
+  const drain = Math.exp(-hours / params.drainageHours);
+  const excessPressure = state.excessPressure * drain +
+    params.rechargeGain * recharge * params.drainageHours * (1 - drain);
+
+  const meanPressure = (state.excessPressure + excessPressure) / 2;
+  const weakening = Math.exp(params.porePressureSensitivity * meanPressure);
+
+  return {
+    ...state,
+    displacement: state.displacement + stageDisplacement(state, params, fromMs, toMs) * weakening,
+    velocity: stageVelocity(state, params, toMs) * Math.exp(params.porePressureSensitivity * excessPressure),
+    infiltration,
+    excessPressure
+  };
+};
+
+export const hasFailed = (state: CreepState, atMs: number): boolean =>
+  state.stage === 'tertiary' && state.failureAtMs !== null && atMs >= state.failureAtMs;
@@ -0,0 +1,170 @@
+// Streams delimited text files through papaparse a chunk at a time, so large
+// logger exports never sit in memory as one string and the page stays
+// responsive while they parse.
+
+import Papa from 'papaparse';
+import type { Parser } from 'papaparse';
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+export type ImportValue = number | boolean | string | null;
+
+export interface CsvImportResult {
+  columns: string[];
+  columnTypes: Record<string, ColumnType>;
+  records: Array<Record<string, ImportValue>>;
+  delimiter: string;
+  hasHeader: boolean;
+  skippedRows: number; // Rows whose field count did not match the header
+}
+
+const CHUNK_BYTES = 1024 * 1024;
+const TYPE_SAMPLE_ROWS = 500;
+const MISSING_VALUES = new Set(['', 'null', 'na', 'n/a', 'nan', '-', '--']);
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+const isMissing = (value: string): boolean => MISSING_VALUES.has(value.trim().toLowerCase());
+
+// Semicolon-delimited exports usually come from locales that write 1,5
+const toNumber = (value: string, decimalComma: boolean): number => {
+  const text = value.trim();
+  return Number(decimalComma ? text.replace(',', '.') : text);
+};
+
+const looksNumeric = (value: string, decimalComma: boolean): boolean =>
+  value.trim() !== '' && Number.isFinite(toNumber(value, decimalComma));
+
+const looksLikeDate = (value: string): boolean =>
+  /\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}/.test(value) && !Number.isNaN(Date.parse(value));
+
+// A first row counts as a header when none of its cells is a number or date
+// but some of the rows below hold one in the same column
+const detectHeader = (rows: string[][], decimalComma: boolean): boolean => {
+  const [first, ...rest] = rows;
+  if (!first || first.some(cell => looksNumeric(cell, decimalComma) || looksLikeDate(cell))) return false;
+  if (rest.length === 0) return true;
+  return first.some((_, column) =>
+    rest.some(row => row[column] !== undefined && (looksNumeric(row[column], decimalComma) || looksLikeDate(row[column])))
+  );
+};
+
+// Blank or repeated headers get a position-based name so no column is lost
+const headerNames = (cells: string[]): string[] => {
+  const seen = new Set<string>();
+  return cells.map((cell, index) => {
+    let name = cell.replace(/^\uFEFF/, '').trim() || `column_${index + 1}`;
+    while (seen.has(name)) name = `${name}_${index + 1}`;
+    seen.add(name);
+    return name;
+  });
+};
+
+const inferColumnType = (values: string[], decimalComma: boolean): ColumnType => {
+  const present = values.filter(value => !isMissing(value));
+  if (present.length === 0) return 'string';
+  if (present.every(value => looksNumeric(value, decimalComma))) return 'number';
+  if (present.every(value => value.trim().toLowerCase() in BOOLEAN_VALUES)) return 'boolean';
+  if (present.every(looksLikeDate)) return 'date';
+  return 'string';
+};
+
+// Dates keep their text; the replay and analysis code parse them as needed
+const convertValue = (value: string | undefined, type: ColumnType, decimalComma: boolean): ImportValue => {
+  if (value === undefined || isMissing(value)) return null;
+  switch (type) {
+    case 'number': {
+      const number = toNumber(value, decimalComma);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'boolean':
+      return BOOLEAN_VALUES[value.trim().toLowerCase()] ?? null;
+    default:
+      return value.trim();
+  }
+};
+
+// Parses a CSV, TSV or semicolon-separated file. `onProgress` receives the
+// fraction of the file read so far. Rejects with "Import cancelled" once
+// `signal` aborts.
+export const streamCsvFile = (
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<CsvImportResult> => new Promise((resolve, reject) => {
+  const records: Array<Record<string, ImportValue>> = [];
+  const pending: string[][] = []; // Rows held back until the columns are typed
+  let columns: string[] | null = null;
+  let columnTypes: Record<string, ColumnType> = {};
+  let delimiter = ',';
+  let decimalComma = false;
+  let hasHeader = false;
+  let skippedRows = 0;
+
+  const addRow = (row: string[]) => {
+    if (!columns) return;
+    if (row.length !== columns.length && !(row.length > columns.length && row.slice(columns.length).every(isMissing))) {
+      skippedRows++;
+      return;
+    }
+    const record: Record<string, ImportValue> = {};
+    columns.forEach((column, index) => {
+      record[column] = convertValue(row[index], columnTypes[column], decimalComma);
+    });
+    records.push(record);
+  };
+
+  // Settles the header and column types from the first rows, then flushes them
+  const settleColumns = () => {
+    hasHeader = detectHeader(pending.slice(0, 20), decimalComma);
+    const width = pending.reduce((max, row) => Math.max(max, row.length), 0);
+    columns = hasHeader
+      ? headerNames(pending[0])
+      : headerNames(Array.from({ length: width }, () => ''));
+    const body = hasHeader ? pending.slice(1) : pending;
+    columnTypes = Object.fromEntries(columns.map((column, index) =>
+      [column, inferColumnType(body.map(row => row[index] ?? ''), decimalComma)]
+    ));
+    body.forEach(addRow);
+    pending.length = 0;
+  };
+
+  Papa.parse<string[]>(file, {
+    skipEmptyLines: 'greedy',
+    chunkSize: CHUNK_BYTES,
+    delimitersToGuess: [',', ';', '\t', '|'],
+    chunk: (results, parser: Parser) => {
+      if (signal?.aborted) {
+        parser.abort();
+        return;
+      }
+      if (!columns) {
+        delimiter = results.meta.delimiter;
+        decimalComma = delimiter === ';';
+        results.data.forEach(row => pending.push(row));
+        if (pending.length > TYPE_SAMPLE_ROWS) settleColumns();
+      } else {
+        results.data.forEach(addRow);
+      }
+      // The cursor counts characters parsed so far, which is bytes for ASCII
+      // exports and a slight undercount for multi-byte text
+      onProgress(file.size > 0 ? Math.min(1, results.meta.cursor / file.size) : 1);
+    },
+    complete: () => {
+      if (signal?.aborted) {
+        reject(new Error('Import cancelled'));
+        return;
+      }
+      if (!columns && pending.length > 0) settleColumns();
+      onProgress(1);
+      resolve({
+        columns: columns ?? [],
+        columnTypes,
+        records,
+        delimiter,
+        hasHeader,
+        skippedRows
+      });
+    },
+    error: (error) => reject(new Error(`Could not read ${file.name}: ${error.message}`))
+  });
+});
@@ -0,0 +1,445 @@
+// Statistics for an imported dataset once its columns are mapped: per
+// parameter descriptive statistics, trends with significance, robust outlier
+// counts and logging gaps, and the insights and recommendations read off them.
+
+import { SENSOR_PARAMETER_REGISTRY } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+import { quantile } from './predictionUncertainty';
+import type { ReplayDataset } from './historicalReplay';
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+export type QualityGrade = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface ParameterTrend {
+  slopePerDay: number;
+  standardError: number; // Per day, widened for autocorrelated readings
+  pValue: number;
+  rSquared: number; // Share of within-zone variance the line explains
+  direction: TrendDirection;
+}
+
+export interface ParameterStatistics {
+  parameter: SensorParameter;
+  count: number;
+  missing: number;
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  p25: number;
+  median: number;
+  p75: number;
+  max: number;
+  trend: ParameterTrend | null; // Null with too few readings to fit
+  anomalies: number; // Hampel outliers against the local median
+  outOfRange: number; // Outside the instrument's physical range
+}
+
+export interface ZoneTrend {
+  zoneId: string;
+  zoneName: string;
+  parameter: SensorParameter;
+  trend: ParameterTrend;
+  latest: number;
+}
+
+export interface DataGap {
+  zoneId: string;
+  zoneName: string;
+  start: number;
+  hours: number;
+}
+
+export interface DatasetAnalysis {
+  summary: {
+    totalRecords: number;
+    zones: number;
+    dateRange: { start: Date; end: Date };
+    samplingMinutes: number | null; // Typical interval between readings
+    averageValues: Partial<Record<SensorParameter, number>>;
+    trends: Partial<Record<SensorParameter, TrendDirection>>;
+    anomalies: number;
+    completeness: number; // 0-1 share of expected values present
+    quality: QualityGrade;
+  };
+  parameters: ParameterStatistics[];
+  zoneTrends: ZoneTrend[]; // Per zone and parameter, most significant first
+  gaps: DataGap[]; // Longest first
+  insights: string[];
+  recommendations: string[];
+}
+
+const MS_PER_DAY = 86400000;
+const SIGNIFICANCE = 0.05;
+const MIN_TREND_POINTS = 5;
+const HAMPEL_HALF_WINDOW = 5;
+const HAMPEL_THRESHOLD = 3.5; // Robust z-score beyond which a reading is an outlier
+const GAP_FACTOR = 3; // Intervals this many times the usual one count as gaps
+const CORRELATION_NOTE = 0.5;
+
+const QUALITY_GRADES: Array<{ grade: QualityGrade; completeness: number; outliers: number }> = [
+  { grade: 'excellent', completeness: 0.98, outliers: 0.005 },
+  { grade: 'good', completeness: 0.95, outliers: 0.01 },
+  { grade: 'fair', completeness: 0.85, outliers: 0.03 }
+];
+
+const median = (values: number[]): number => quantile([...values].sort((a, b) => a - b), 0.5);
+
+// --- Student t distribution, for trend p-values ---
+
+const logGamma = (x: number): number => {
+  // Lanczos approximation, g = 7
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the regularized incomplete beta function
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    const step = d * c;
+    h *= step;
+    if (Math.abs(step - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+};
+
+// Two-sided p-value of a t statistic
+const tTestPValue = (t: number, degreesOfFreedom: number): number =>
+  Number.isFinite(t) ? incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5) : 0;
+
+// --- Trends ---
+
+interface Series {
+  zoneId: string;
+  zoneName: string;
+  times: number[]; // Days since the dataset starts
+  values: number[];
+}
+
+// Least-squares slope within zones (each zone keeps its own level), so zones
+// sitting at different values do not read as a trend. Readings logged minutes
+// apart are strongly autocorrelated; the standard error and degrees of
+// freedom are adjusted by the residuals' lag-1 autocorrelation.
+const fitTrend = (series: Series[]): ParameterTrend | null => {
+  const usable = series.filter(s => s.values.length >= 2);
+  const n = usable.reduce((sum, s) => sum + s.values.length, 0);
+  const degreesOfFreedom = n - usable.length - 1;
+  if (n < MIN_TREND_POINTS || degreesOfFreedom < 1) return null;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  const centred = usable.map(s => {
+    const meanT = s.times.reduce((sum, t) => sum + t, 0) / s.times.length;
+    const meanV = s.values.reduce((sum, v) => sum + v, 0) / s.values.length;
+    const x = s.times.map(t => t - meanT);
+    const y = s.values.map(v => v - meanV);
+    x.forEach((xi, i) => {
+      sxx += xi * xi;
+      sxy += xi * y[i];
+      syy += y[i] * y[i];
+    });
+    return { x, y };
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const residualSS = Math.max(0, syy - slope * sxy);
+  let lagged = 0;
+  let squared = 0;
+  centred.forEach(({ x, y }) => {
+    const residuals = y.map((yi, i) => yi - slope * x[i]);
+    residuals.forEach((r, i) => {
+      squared += r * r;
+      if (i > 0) lagged += r * residuals[i - 1];
+    });
+  });
+  const rho = squared > 0 ? Math.min(0.99, Math.max(0, lagged / squared)) : 0;
+  const inflation = (1 + rho) / (1 - rho);
+  const standardError = Math.sqrt(residualSS / degreesOfFreedom / sxx * inflation);
+  const effectiveDegrees = Math.max(1, degreesOfFreedom / inflation);
+  const pValue = standardError > 0 ? tTestPValue(slope / standardError, effectiveDegrees) : slope === 0 ? 1 : 0;
+
+  return {
+    slopePerDay: slope,
+    standardError,
+    pValue,
+    rSquared: syy > 0 ? 1 - residualSS / syy : 0,
+    direction: pValue < SIGNIFICANCE && slope !== 0 ? (slope > 0 ? 'increasing' : 'decreasing') : 'stable'
+  };
+};
+
+// --- Outliers ---
+
+// Hampel filter: distance from the median of the surrounding readings,
+// scaled by the series' median absolute deviation from those medians
+const countHampelOutliers = (values: number[]): number => {
+  if (values.length < 2 * HAMPEL_HALF_WINDOW + 1) return 0;
+  const residuals = values.map((value, i) =>
+    value - median(values.slice(Math.max(0, i - HAMPEL_HALF_WINDOW), i + HAMPEL_HALF_WINDOW + 1))
+  );
+  const scale = Math.max(1.4826 * median(residuals.map(Math.abs)), 1e-3 * Math.abs(median(values)), 1e-9);
+  return residuals.filter(r => Math.abs(r) > HAMPEL_THRESHOLD * scale).length;
+};
+
+// Pearson correlation within zones, over readings where both parameters are present
+const withinZoneCorrelation = (dataset: ReplayDataset, a: SensorParameter, b: SensorParameter): number | null => {
+  let sab = 0;
+  let saa = 0;
+  let sbb = 0;
+  let n = 0;
+  Object.values(dataset.zones).forEach(zone => {
+    const pairs = zone.readings.filter(r => Number.isFinite(r[a]) && Number.isFinite(r[b]));
+    if (pairs.length < 2) return;
+    const meanA = pairs.reduce((sum, r) => sum + r[a], 0) / pairs.length;
+    const meanB = pairs.reduce((sum, r) => sum + r[b], 0) / pairs.length;
+    pairs.forEach(r => {
+      sab += (r[a] - meanA) * (r[b] - meanB);
+      saa += (r[a] - meanA) ** 2;
+      sbb += (r[b] - meanB) ** 2;
+    });
+    n += pairs.length;
+  });
+  return n >= MIN_TREND_POINTS && saa > 0 && sbb > 0 ? sab / Math.sqrt(saa * sbb) : null;
+};
+
+// --- Formatting ---
+
+const formatNumber = (value: number): string => {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0) return '0';
+  if (magnitude >= 100) return value.toFixed(0);
+  if (magnitude >= 1) return value.toFixed(2);
+  return value.toPrecision(2);
+};
+
+export const formatPValue = (p: number): string => (p < 0.001 ? 'p < 0.001' : `p = ${p.toFixed(3)}`);
+
+const percent = (share: number): string => `${(share * 100).toFixed(share < 0.01 ? 2 : 1)}%`;
+
+const describeTrend = (parameter: SensorParameter, trend: ParameterTrend): string => {
+  const { label, unit } = SENSOR_PARAMETER_REGISTRY[parameter];
+  return `${label} ${trend.slopePerDay > 0 ? 'rises' : 'falls'} ${formatNumber(Math.abs(trend.slopePerDay))} ${unit}/day ` +
+    `(${formatPValue(trend.pValue)}, R² ${trend.rSquared.toFixed(2)})`;
+};
+
+// Throws when the dataset holds no readings
+export const analyzeDataset = (dataset: ReplayDataset): DatasetAnalysis => {
+  const zones = Object.entries(dataset.zones);
+  if (dataset.readingCount === 0 || zones.length === 0) {
+    throw new Error('The dataset holds no readings to analyze');
+  }
+
+  // Logging cadence and gaps, per zone
+  const gaps: DataGap[] = [];
+  const zoneIntervals: number[] = [];
+  let gapSamples = 0;
+  zones.forEach(([zoneId, zone]) => {
+    const intervals = zone.readings.slice(1).map((r, i) => r.timestamp - zone.readings[i].timestamp).filter(dt => dt > 0);
+    if (intervals.length === 0) return;
+    const usual = median(intervals);
+    zoneIntervals.push(usual);
+    zone.readings.slice(1).forEach((r, i) => {
+      const interval = r.timestamp - zone.readings[i].timestamp;
+      if (interval > GAP_FACTOR * usual) {
+        gaps.push({ zoneId, zoneName: zone.zoneName, start: zone.readings[i].timestamp, hours: interval / 3600000 });
+        gapSamples += Math.round(interval / usual) - 1;
+      }
+    });
+  });
+  gaps.sort((a, b) => b.hours - a.hours);
+  const samplingMinutes = zoneIntervals.length > 0 ? median(zoneIntervals) / 60000 : null;
+
+  // Per-parameter statistics
+  const zoneTrends: ZoneTrend[] = [];
+  let missingValues = 0;
+  let presentValues = 0;
+  const parameters = dataset.parameters.map((parameter): ParameterStatistics => {
+    const { physicalRange } = SENSOR_PARAMETER_REGISTRY[parameter];
+    const series: Series[] = zones.map(([zoneId, zone]) => {
+      const present = zone.readings.filter(r => Number.isFinite(r[parameter]));
+      return {
+        zoneId,
+        zoneName: zone.zoneName,
+        times: present.map(r => (r.timestamp - dataset.startTime) / MS_PER_DAY),
+        values: present.map(r => r[parameter])
+      };
+    });
+    const values = series.flatMap(s => s.values);
+    const sorted = [...values].sort((a, b) => a - b);
+    const count = values.length;
+    const missing = dataset.readingCount - count;
+    const mean = count > 0 ? values.reduce((sum, v) => sum + v, 0) / count : NaN;
+    const variance = count > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (count - 1) : 0;
+    missingValues += missing;
+    presentValues += count;
+
+    series.forEach(s => {
+      const trend = fitTrend([s]);
+      if (trend) {
+        zoneTrends.push({ zoneId: s.zoneId, zoneName: s.zoneName, parameter, trend, latest: s.values[s.values.length - 1] });
+      }
+    });
+
+    return {
+      parameter,
+      count,
+      missing,
+      mean,
+      standardDeviation: Math.sqrt(variance),
+      min: count > 0 ? sorted[0] : NaN,
+      p25: quantile(sorted, 0.25),
+      median: quantile(sorted, 0.5),
+      p75: quantile(sorted, 0.75),
+      max: count > 0 ? sorted[count - 1] : NaN,
+      trend: fitTrend(series),
+      anomalies: series.reduce((sum, s) => sum + countHampelOutliers(s.values), 0),
+      outOfRange: values.filter(v => v < physicalRange.min || v > physicalRange.max).length
+    };
+  });
+  zoneTrends.sort((a, b) => a.trend.pValue - b.trend.pValue);
+
+  // Quality from completeness (missing values and logging gaps) and outliers
+  const anomalies = parameters.reduce((sum, p) => sum + p.anomalies, 0);
+  const outOfRange = parameters.reduce((sum, p) => sum + p.outOfRange, 0);
+  const expectedValues = presentValues + missingValues + gapSamples * dataset.parameters.length;
+  const completeness = expectedValues > 0 ? presentValues / expectedValues : 0;
+  const outlierShare = presentValues > 0 ? (anomalies + outOfRange) / presentValues : 0;
+  const quality = QUALITY_GRADES.find(g => completeness >= g.completeness && outlierShare <= g.outliers)?.grade ?? 'poor';
+
+  const averageValues: Partial<Record<SensorParameter, number>> = {};
+  const trends: Partial<Record<SensorParameter, TrendDirection>> = {};
+  parameters.forEach(p => {
+    if (p.count > 0) averageValues[p.parameter] = p.mean;
+    trends[p.parameter] = p.trend?.direction ?? 'stable';
+  });
+
+  // Insights
+  const insights: string[] = [];
+  const start = new Date(dataset.startTime);
+  const end = new Date(dataset.endTime);
+  insights.push(
+    `${dataset.readingCount.toLocaleString()} readings from ${zones.length} zone(s) between ` +
+    `${start.toLocaleString()} and ${end.toLocaleString()}` +
+    (samplingMinutes !== null ? `, typically every ${formatNumber(samplingMinutes)} min` : '')
+  );
+  const trending = parameters.filter(p => p.trend && p.trend.direction !== 'stable');
+  trending.forEach(p => insights.push(`${describeTrend(p.parameter, p.trend as ParameterTrend)} across zones`));
+  const flat = parameters.filter(p => p.trend?.direction === 'stable');
+  if (flat.length > 0) {
+    insights.push(`No significant trend in ${flat.map(p => SENSOR_PARAMETER_REGISTRY[p.parameter].label.toLowerCase()).join(', ')}`);
+  }
+  if (gaps.length > 0) {
+    const longest = gaps[0];
+    insights.push(
+      `${gaps.length} logging gap(s) longer than ${GAP_FACTOR}× the usual interval; the longest is ` +
+      `${longest.hours.toFixed(1)} h in ${longest.zoneName} from ${new Date(longest.start).toLocaleString()}`
+    );
+  } else {
+    insights.push(`No logging gaps longer than ${GAP_FACTOR}× the usual interval`);
+  }
+  if (anomalies > 0) {
+    const worst = parameters.reduce((a, b) => (b.anomalies > a.anomalies ? b : a));
+    insights.push(
+      `${anomalies.toLocaleString()} outlying readings (${percent(anomalies / Math.max(1, presentValues))} of values), ` +
+      `most in ${SENSOR_PARAMETER_REGISTRY[worst.parameter].label.toLowerCase()}`
+    );
+  }
+  dataset.parameters.forEach((a, i) => dataset.parameters.slice(i + 1).forEach(b => {
+    const r = withinZoneCorrelation(dataset, a, b);
+    if (r !== null && Math.abs(r) >= CORRELATION_NOTE) {
+      insights.push(
+        `${SENSOR_PARAMETER_REGISTRY[a].label} and ${SENSOR_PARAMETER_REGISTRY[b].label.toLowerCase()} ` +
+        `move ${r > 0 ? 'together' : 'in opposite directions'} within zones (r = ${r.toFixed(2)})`
+      );
+    }
+  }));
+
+  // Recommendations
+  const recommendations: string[] = [];
+  zoneTrends
+    .filter(z => z.trend.direction === 'increasing' && SENSOR_PARAMETER_REGISTRY[z.parameter].hazard)
+    .slice(0, 3)
+    .forEach(z => {
+      const { label, unit, typicalRange } = SENSOR_PARAMETER_REGISTRY[z.parameter];
+      recommendations.push(
+        `Review ${z.zoneName}: ${label.toLowerCase()} is rising ${formatNumber(z.trend.slopePerDay)} ${unit}/day ` +
+        `(${formatPValue(z.trend.pValue)})` +
+        (z.latest > typicalRange.max ? ` and its latest reading, ${formatNumber(z.latest)} ${unit}, is above the typical maximum of ${typicalRange.max} ${unit}` : '')
+      );
+    });
+  const longGaps = gaps.filter(g => g.hours >= 6);
+  if (longGaps.length > 0 || completeness < QUALITY_GRADES[1].completeness) {
+    const zoneNames = [...new Set((longGaps.length > 0 ? longGaps : gaps).map(g => g.zoneName))].slice(0, 3);
+    recommendations.push(
+      `Check logger power and telemetry${zoneNames.length > 0 ? ` in ${zoneNames.join(', ')}` : ''}: ` +
+      `only ${percent(completeness)} of expected values were recorded`
+    );
+  }
+  parameters
+    .filter(p => p.count > 0 && p.anomalies / p.count > QUALITY_GRADES[1].outliers)
+    .forEach(p => recommendations.push(
+      `Inspect the ${SENSOR_PARAMETER_REGISTRY[p.parameter].label.toLowerCase()} sensors: ` +
+      `${percent(p.anomalies / p.count)} of readings are outliers against their neighbours`
+    ));
+  parameters
+    .filter(p => p.outOfRange > 0)
+    .forEach(p => {
+      const { label, unit, physicalRange } = SENSOR_PARAMETER_REGISTRY[p.parameter];
+      recommendations.push(
+        `${p.outOfRange.toLocaleString()} ${label.toLowerCase()} readings fall outside the instrument range ` +
+        `(${physicalRange.min} to ${physicalRange.max} ${unit}); check the column's units and the sensor calibration`
+      );
+    });
+  if (recommendations.length === 0) {
+    recommendations.push(`No action indicated: no hazard parameter is rising and data quality is ${quality}`);
+  }
+
+  return {
+    summary: {
+      totalRecords: dataset.readingCount,
+      zones: zones.length,
+      dateRange: { start, end },
+      samplingMinutes,
+      averageValues,
+      trends,
+      anomalies,
+      completeness,
+      quality
+    },
+    parameters,
+    zoneTrends,
+    gaps,
+    insights,
+    recommendations
+  };
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { EnhancedRockfallDetector } from '../hooks/useEnhancedRockfallDetector';
+import { parseDetectorSnapshot } from './detectorSnapshot';
+
+// A snapshot as written to a file and read back
+const exported = () => JSON.parse(JSON.stringify(new EnhancedRockfallDetector().snapshot()));
+
+describe('parseDetectorSnapshot', () => {
+  it('accepts a snapshot the detector exported', () => {
+    const snapshot = exported();
+    expect(parseDetectorSnapshot(snapshot).models).toEqual(snapshot.models);
+  });
+
+  it('rejects malformed model state', () => {
+    const snapshot = exported();
+    const [modelId] = Object.keys(snapshot.models);
+    snapshot.models[modelId] = { ...snapshot.models[modelId], lastTrained: 'yesterday', ensembleWeight: 'heavy' };
+
+    expect(() => parseDetectorSnapshot(snapshot)).toThrow(`malformed state for model "${modelId}"`);
+  });
+
+  it('leaves the detector untouched when an import is malformed', () => {
+    const detector = new EnhancedRockfallDetector();
+    const before = detector.snapshot().models;
+    const snapshot = exported();
+    const [modelId] = Object.keys(snapshot.models);
+    snapshot.models[modelId].weights = { displacement: null };
+
+    expect(() => detector.restore(snapshot)).toThrow();
+    expect(() => detector.snapshot()).not.toThrow();
+    expect(detector.snapshot().models).toEqual(before);
+  });
+});
@@ -0,0 +1,142 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import type { CalibrationMetrics } from './calibrationMetrics';
+import type { PrecursorPattern } from './precursorPatterns';
+import { DEFAULT_ZONE_AGGREGATION } from './zoneAggregation';
+import type { ZoneAggregation } from './zoneAggregation';
+
+// Bump when the snapshot layout changes, and add a migration from the
+// previous version below so stored and exported snapshots keep loading.
+export const DETECTOR_SNAPSHOT_VERSION = 3;
+
+export interface SerializedModelCalibration {
+  calibratedAt: string; // ISO 8601
+  metrics: CalibrationMetrics;
+  suggestedThresholds: Record<string, number>;
+}
+
+export interface SerializedModelState {
+  accuracy: number;
+  lastTrained: string; // ISO 8601
+  isActive: boolean;
+  ensembleWeight: number;
+  thresholds: Record<string, number>;
+  weights: Record<string, number>;
+  calibration?: SerializedModelCalibration;
+}
+
+export interface SerializedCalibrationReport {
+  calibratedAt: string; // ISO 8601
+  targetFalseAlarmRate: number;
+  ensemble: CalibrationMetrics;
+  suggestedRiskLevels: { medium: number; high: number; critical: number };
+  models: Record<string, SerializedModelCalibration>;
+}
+
+// Plain-JSON view of everything the detector learns at runtime. Model code
+// cannot be serialized, so models are stored by id and only restored onto
+// models registered under the same id.
+export interface DetectorSnapshot {
+  version: number;
+  savedAt: string; // ISO 8601
+  historicalData: Record<string, SensorReading[]>;
+  models: Record<string, SerializedModelState>;
+  riskLevelThresholds: { medium: number; high: number; critical: number };
+  calibrationReport: SerializedCalibrationReport | null;
+  patterns: PrecursorPattern[] | null; // null keeps the detector's built-in library
+  zoneAggregation: ZoneAggregation;
+}
+
+type SnapshotMigration = (snapshot: Record<string, unknown>) => Record<string, unknown>;
+
+// Keyed by the version a migration upgrades *from*.
+const MIGRATIONS: Record<number, SnapshotMigration> = {
+  // v2 added the editable precursor pattern library
+  1: snapshot => ({ ...snapshot, patterns: null }),
+  // v3 added per-zone sensor aggregation
+  2: snapshot => ({ ...snapshot, zoneAggregation: { ...DEFAULT_ZONE_AGGREGATION } })
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Restored dates are written back out with toISOString, which throws on an
+// Invalid Date
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isNumberRecord = (value: unknown): value is Record<string, number> =>
+  isRecord(value) && Object.values(value).every(isFiniteNumber);
+
+const isModelCalibration = (value: unknown): value is SerializedModelCalibration =>
+  isRecord(value) && isDateString(value.calibratedAt) && isRecord(value.metrics) &&
+  isNumberRecord(value.suggestedThresholds);
+
+const isModelState = (value: unknown): value is SerializedModelState =>
+  isRecord(value) &&
+  isFiniteNumber(value.accuracy) &&
+  isDateString(value.lastTrained) &&
+  typeof value.isActive === 'boolean' &&
+  isFiniteNumber(value.ensembleWeight) && value.ensembleWeight >= 0 &&
+  isNumberRecord(value.thresholds) &&
+  isNumberRecord(value.weights) &&
+  (value.calibration === undefined || isModelCalibration(value.calibration));
+
+const isRiskLevels = (value: unknown): value is DetectorSnapshot['riskLevelThresholds'] =>
+  isRecord(value) && isFiniteNumber(value.medium) && isFiniteNumber(value.high) && isFiniteNumber(value.critical);
+
+const isCalibrationReport = (value: unknown): value is SerializedCalibrationReport =>
+  isRecord(value) &&
+  isDateString(value.calibratedAt) &&
+  isFiniteNumber(value.targetFalseAlarmRate) &&
+  isRecord(value.ensemble) &&
+  isRiskLevels(value.suggestedRiskLevels) &&
+  isRecord(value.models) && Object.values(value.models).every(isModelCalibration);
+
+export const parseDetectorSnapshot = (raw: unknown): DetectorSnapshot => {
+  if (!isRecord(raw) || typeof raw.version !== 'number') {
+    throw new Error('Not a detector snapshot: missing version');
+  }
+  if (raw.version > DETECTOR_SNAPSHOT_VERSION) {
+    throw new Error(`Detector snapshot version ${raw.version} is newer than supported version ${DETECTOR_SNAPSHOT_VERSION}`);
+  }
+
+  let snapshot: Record<string, unknown> = raw;
+  for (let version = raw.version; version < DETECTOR_SNAPSHOT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from detector snapshot version ${version}`);
+    }
+    snapshot = { ...migrate(snapshot), version: version + 1 };
+  }
+
+  if (!isRecord(snapshot.historicalData) || !isRecord(snapshot.models) || !isRecord(snapshot.riskLevelThresholds)) {
+    throw new Error('Detector snapshot is missing required sections');
+  }
+  if (snapshot.patterns !== null && !Array.isArray(snapshot.patterns)) {
+    throw new Error('Detector snapshot contains a malformed pattern library');
+  }
+  if (!isRecord(snapshot.zoneAggregation)) {
+    throw new Error('Detector snapshot is missing its zone aggregation settings');
+  }
+  const historyValid = Object.values(snapshot.historicalData).every(series =>
+    Array.isArray(series) && series.every(r => isRecord(r) && typeof r.timestamp === 'number'));
+  if (!historyValid) {
+    throw new Error('Detector snapshot contains malformed reading history');
+  }
+  const malformedModel = Object.entries(snapshot.models).find(([, state]) => !isModelState(state));
+  if (malformedModel) {
+    throw new Error(`Detector snapshot contains malformed state for model "${malformedModel[0]}"`);
+  }
+  if (!isRiskLevels(snapshot.riskLevelThresholds)) {
+    throw new Error('Detector snapshot contains malformed risk level thresholds');
+  }
+  const report = snapshot.calibrationReport ?? null;
+  if (report !== null && !isCalibrationReport(report)) {
+    throw new Error('Detector snapshot contains a malformed calibration report');
+  }
+
+  return snapshot as unknown as DetectorSnapshot;
+};
@@ -0,0 +1,186 @@
+// Excel workbooks come in as a grid per sheet. The user picks the sheet and
+// the header row(s); cells under a merged header take its label, and date
+// cells become text in the same ISO shape CSV imports use.
+
+import { read, utils } from 'xlsx';
+import type { CellObject, Range, WorkBook, WorkSheet } from 'xlsx';
+import type { ColumnType, ImportValue } from './csvImport';
+
+export interface ExcelSheet {
+  name: string;
+  rows: ImportValue[][]; // Merged ranges filled with their top-left value
+  date1904: boolean; // Serials count from 1904 (older Mac workbooks)
+}
+
+export interface SheetImportResult {
+  columns: string[];
+  columnTypes: Record<string, ColumnType>;
+  records: Array<Record<string, ImportValue>>;
+}
+
+export const MAX_HEADER_ROWS = 3;
+
+const MS_PER_DAY = 86400000;
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // Serial of 1970-01-01 in the 1900 date system
+const DATE_1904_OFFSET_DAYS = 1462;
+const HEADER_SEARCH_ROWS = 20;
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+// Serials from 1954 to 2119; anything outside is a reading, not a date
+const SERIAL_RANGE = { min: 20000, max: 80000 };
+
+// Number formats that show a date or time, ignoring literals, escapes and
+// colour codes ("General" and "0.00" have no y/m/d/h/s token)
+const isDateFormat = (format: string | number | undefined): boolean =>
+  typeof format === 'number'
+    ? BUILTIN_DATE_FORMATS.has(format)
+    : !!format && /[ymdhs]/i.test(format.replace(/"[^"]*"|\\.|\[(?!h\]|m\]|s\])[^\]]*\]/gi, ''));
+
+// Excel stores wall-clock time with no zone, so it is kept that way: the
+// text has no offset and parses as local time
+export const excelSerialToText = (serial: number, date1904 = false): string => {
+  const days = serial + (date1904 ? DATE_1904_OFFSET_DAYS : 0) - EXCEL_EPOCH_OFFSET_DAYS;
+  return new Date(Math.round(days * MS_PER_DAY / 1000) * 1000).toISOString().slice(0, 19);
+};
+
+const cellValue = (cell: CellObject | undefined, date1904: boolean): ImportValue => {
+  if (!cell || cell.v === undefined || cell.t === 'z' || cell.t === 'e') return null;
+  if (cell.v instanceof Date) return cell.v.toISOString().slice(0, 19);
+  if (cell.t === 'n' && typeof cell.v === 'number' && isDateFormat(cell.z)) {
+    return excelSerialToText(cell.v, date1904);
+  }
+  if (typeof cell.v === 'string') return cell.v.trim() === '' ? null : cell.v.trim();
+  return cell.v;
+};
+
+const sheetGrid = (sheet: WorkSheet, date1904: boolean): ImportValue[][] => {
+  if (!sheet['!ref']) return [];
+  const range = utils.decode_range(sheet['!ref']);
+  const rows: ImportValue[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: ImportValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellValue(sheet[utils.encode_cell({ r, c })] as CellObject | undefined, date1904));
+    }
+    rows.push(row);
+  }
+
+  // Merged cells only hold a value in their top-left corner
+  (sheet['!merges'] ?? []).forEach((merge: Range) => {
+    const value = rows[merge.s.r - range.s.r]?.[merge.s.c - range.s.c] ?? null;
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = rows[r - range.s.r];
+        if (row && c - range.s.c < row.length) row[c - range.s.c] = value;
+      }
+    }
+  });
+  return rows;
+};
+
+// Reads every sheet of an .xlsx or .xls file. Throws when the file is not a
+// workbook or has no sheet with data.
+export const readWorkbook = async (file: File): Promise<ExcelSheet[]> => {
+  let workbook: WorkBook;
+  try {
+    workbook = read(await file.arrayBuffer(), { type: 'array', cellNF: true });
+  } catch (err) {
+    throw new Error(`${file.name} is not a readable Excel workbook${err instanceof Error ? `: ${err.message}` : ''}`);
+  }
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+  const sheets = workbook.SheetNames
+    .map(name => ({ name, rows: sheetGrid(workbook.Sheets[name], date1904), date1904 }))
+    .filter(sheet => sheet.rows.length > 0);
+  if (sheets.length === 0) {
+    throw new Error(`${file.name} has no sheet with data`);
+  }
+  return sheets;
+};
+
+const isBlank = (row: ImportValue[]): boolean => row.every(value => value === null);
+
+// Distinct labels and nothing else; a title merged across the sheet fills
+// its row with one repeated label and does not count
+const isLabelRow = (row: ImportValue[]): boolean => {
+  const present = row.filter(value => value !== null);
+  return present.every(value => typeof value === 'string') && new Set(present).size >= 2;
+};
+
+// The first block of up to MAX_HEADER_ROWS label rows, among the top few,
+// with a row of readings right under it; survey exports often start with a
+// title block
+export const suggestHeader = (rows: ImportValue[][]): { headerRow: number; headerRows: number } => {
+  const candidates = rows.slice(0, HEADER_SEARCH_ROWS);
+  for (let headerRow = 0; headerRow < candidates.length; headerRow++) {
+    let headerRows = 0;
+    while (headerRows < MAX_HEADER_ROWS && candidates[headerRow + headerRows] && isLabelRow(candidates[headerRow + headerRows])) {
+      headerRows++;
+    }
+    const below = rows[headerRow + headerRows];
+    if (headerRows > 0 && below && below.some(value => typeof value === 'number')) {
+      return { headerRow, headerRows };
+    }
+  }
+  return { headerRow: 0, headerRows: 1 };
+};
+
+// Joins the labels of a column across the header rows, so a merged group
+// label above becomes a prefix ("Prism P1 Easting")
+const headerNames = (rows: ImportValue[][]): string[] => {
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const seen = new Set<string>();
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    rows.forEach(row => {
+      const label = row[column] === null || row[column] === undefined ? '' : String(row[column]).trim();
+      if (label && parts[parts.length - 1] !== label) parts.push(label);
+    });
+    let name = parts.join(' ') || `column_${column + 1}`;
+    while (seen.has(name)) name = `${name}_${column + 1}`;
+    seen.add(name);
+    return name;
+  });
+};
+
+const isDateText = (value: ImportValue): boolean =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/.test(value);
+
+const inferColumnType = (values: ImportValue[]): ColumnType => {
+  const present = values.filter(value => value !== null);
+  if (present.length === 0) return 'string';
+  if (present.every(value => typeof value === 'number')) return 'number';
+  if (present.every(value => typeof value === 'boolean')) return 'boolean';
+  if (present.every(isDateText)) return 'date';
+  return 'string';
+};
+
+// Records from the rows below the header. Throws when the header is outside
+// the sheet.
+export const sheetRecords = (sheet: ExcelSheet, headerRow: number, headerRows = 1): SheetImportResult => {
+  if (headerRow < 0 || headerRow + headerRows > sheet.rows.length) {
+    throw new Error(`Row ${headerRow + 1} is outside sheet ${sheet.name}`);
+  }
+  const columns = headerNames(sheet.rows.slice(headerRow, headerRow + headerRows));
+  const body = sheet.rows.slice(headerRow + headerRows);
+  const rows = body.filter(row => !isBlank(row));
+  const columnTypes = Object.fromEntries(columns.map((column, index) =>
+    [column, inferColumnType(rows.map(row => row[index] ?? null))]
+  ));
+
+  // A timestamp column left in General format shows up as bare serials
+  const serialColumns = new Set(columns.filter((column, index) =>
+    /time|date/i.test(column) &&
+    columnTypes[column] === 'number' &&
+    rows.every(row => row[index] === null || (row[index] as number) >= SERIAL_RANGE.min && (row[index] as number) <= SERIAL_RANGE.max)
+  ));
+  serialColumns.forEach(column => {
+    columnTypes[column] = 'date';
+  });
+
+  const records = rows.map(row => Object.fromEntries(columns.map((column, index) => {
+    const value = row[index] ?? null;
+    if (value !== null && serialColumns.has(column)) return [column, excelSerialToText(value as number, sheet.date1904)];
+    // Mixed columns keep readings as text, like a CSV would
+    return [column, columnTypes[column] === 'string' && value !== null ? String(value) : value];
+  })));
+  return { columns, columnTypes, records };
+};
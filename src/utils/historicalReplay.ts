@@ -0,0 +1,88 @@
+// Recorded sensor data replayed through the live pipeline as if it were
+// arriving now, so past incidents can be walked through on the dashboard.
+// Readings keep their recorded timestamps; a replay clock decides which of
+// them have "arrived".
+
+import { readingRiskLevel } from '../hooks/useRockfallDataGenerator';
+import type { SensorReading, ZoneData } from '../hooks/useRockfallDataGenerator';
+import { SENSOR_PARAMETERS } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+import { MS_PER_HOUR } from './timeWindows';
+
+export const REPLAY_SPEEDS = [1, 10, 60, 100, 300, 1000];
+
+export interface ReplayZone {
+  zoneName: string;
+  readings: SensorReading[]; // Ascending by timestamp; missing values are NaN
+}
+
+export interface ReplayDataset {
+  id: string;
+  name: string;
+  zones: Record<string, ReplayZone>;
+  parameters: SensorParameter[]; // Channels the file carries
+  startTime: number;
+  endTime: number;
+  readingCount: number;
+  sourceUnits: Partial<Record<SensorParameter, string>>; // Unit each channel was recorded in, before conversion
+}
+
+// Index of the last reading at or before `time`, or -1
+const lastIndexAtOrBefore = (readings: SensorReading[], time: number): number => {
+  let low = 0;
+  let high = readings.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (readings[mid].timestamp <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+const toZoneData = (zoneId: string, zone: ReplayZone, reading: SensorReading): ZoneData => {
+  const recorded = SENSOR_PARAMETERS.filter(key => Number.isFinite(reading[key])).length;
+  return {
+    zoneId,
+    zoneName: zone.zoneName,
+    riskLevel: readingRiskLevel(reading),
+    lastReading: reading,
+    trend: 'stable',
+    confidence: Math.round(recorded / SENSOR_PARAMETERS.length * 100)
+  };
+};
+
+// Zones with a reading in (fromTime, toTime], each with its latest one. When
+// the replay runs faster than the file was logged, earlier readings in the
+// window are passed over.
+export const replayFrame = (dataset: ReplayDataset, fromTime: number, toTime: number): Record<string, ZoneData> => {
+  const frame: Record<string, ZoneData> = {};
+  Object.entries(dataset.zones).forEach(([zoneId, zone]) => {
+    const index = lastIndexAtOrBefore(zone.readings, toTime);
+    if (index >= 0 && zone.readings[index].timestamp > fromTime) {
+      frame[zoneId] = toZoneData(zoneId, zone, zone.readings[index]);
+    }
+  });
+  return frame;
+};
+
+// Each zone's latest reading at or before `time`, for the frame shown after a seek
+export const replayFrameAt = (dataset: ReplayDataset, time: number): Record<string, ZoneData> =>
+  replayFrame(dataset, -Infinity, time);
+
+// The readings in the `hours` before each zone's latest one at `time`, to
+// prime the detector after a seek
+export const replayWarmUp = (dataset: ReplayDataset, time: number, hours: number): Record<string, SensorReading[]> => {
+  const warmUp: Record<string, SensorReading[]> = {};
+  Object.entries(dataset.zones).forEach(([zoneId, zone]) => {
+    const index = lastIndexAtOrBefore(zone.readings, time);
+    if (index <= 0) return;
+    const start = zone.readings[index].timestamp - hours * MS_PER_HOUR;
+    warmUp[zoneId] = zone.readings.slice(0, index).filter(reading => reading.timestamp > start);
+  });
+  return warmUp;
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import { forecastFailureTime } from './inverseVelocityForecast';
+import { mapSensorParameters } from './sensorParameters';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const STEP_HOURS = 5 / 60;
+const CREEP_HOURS = 6;
+const CREEP_RATE = 0.02; // mm/hr
+const TERTIARY_HOURS = 6; // Onset to failure
+
+// Ideal Fukuzono tertiary creep: 1/v = A (tf - t), continuous with the steady
+// creep rate at onset, so displacement grows as ln(tf / (tf - t)) / A
+const A = 1 / (CREEP_RATE * TERTIARY_HOURS);
+const displacementAt = (hours: number): number => {
+  if (hours <= CREEP_HOURS) return CREEP_RATE * hours;
+  const t = hours - CREEP_HOURS;
+  return CREEP_RATE * CREEP_HOURS + Math.log(TERTIARY_HOURS / (TERTIARY_HOURS - t)) / A;
+};
+
+const historyUntil = (hours: number): SensorReading[] => {
+  const readings: SensorReading[] = [];
+  for (let step = 0; step * STEP_HOURS <= hours + 1e-9; step++) {
+    const at = step * STEP_HOURS;
+    readings.push({
+      timestamp: at * MS_PER_HOUR,
+      ...mapSensorParameters(key => (key === 'displacement' ? displacementAt(at) : 0))
+    });
+  }
+  return readings;
+};
+
+describe('forecastFailureTime', () => {
+  it('reports no acceleration during steady creep', () => {
+    expect(forecastFailureTime(historyUntil(CREEP_HOURS)).status).toBe('no_acceleration');
+  });
+
+  it('fits only the tertiary segment after steady creep', () => {
+    const failureHours = CREEP_HOURS + TERTIARY_HOURS;
+    [4.25, 3, 2, 1].forEach(hoursBefore => {
+      const forecast = forecastFailureTime(historyUntil(failureHours - hoursBefore));
+      expect(forecast.status).toBe('forecast');
+      expect(forecast.hoursToFailure).toBeCloseTo(hoursBefore, 0);
+      expect(forecast.predictedFailureTime! / MS_PER_HOUR).toBeGreaterThan(failureHours - 0.25);
+      expect(forecast.predictedFailureTime! / MS_PER_HOUR).toBeLessThan(failureHours + 0.25);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import { detectChangePoints, seriesFor } from './changePointDetection';
+
+// Fukuzono (1985) inverse-velocity method: during tertiary creep 1/velocity
+// decreases roughly linearly with time, and the time at which the fitted line
+// reaches zero is taken as the predicted time of slope failure.
+
+export type FailureForecastStatus =
+  | 'forecast'           // Accelerating creep, failure time estimated
+  | 'insufficient_data'  // Not enough displacement history to fit
+  | 'no_movement'        // Displacement is not increasing
+  | 'no_acceleration'    // Moving, but 1/v is not trending towards zero
+  | 'poor_fit';          // Accelerating, but the linear fit is too noisy to trust
+
+export interface FailureForecast {
+  method: 'inverse-velocity';
+  status: FailureForecastStatus;
+  predictedFailureTime: number | null; // epoch ms
+  hoursToFailure: number | null;
+  window: { earliest: number; latest: number } | null; // epoch ms, confidence window
+  velocity: number | null; // mm/hr, latest smoothed velocity
+  rSquared: number | null;
+  pointsUsed: number;
+  message: string;
+}
+
+export interface InverseVelocityOptions {
+  smoothingSpan: number;   // Readings per local velocity estimate
+  minPoints: number;       // Minimum velocity samples needed for a fit
+  maxPoints: number;       // Most recent velocity samples of the accelerating segment used for the fit
+  minRSquared: number;     // Minimum goodness of fit to report a forecast
+  minSlopeTStat: number;   // Required significance of the 1/v decrease
+  confidenceZ: number;     // Normal quantile for the confidence window
+}
+
+const DEFAULT_OPTIONS: InverseVelocityOptions = {
+  smoothingSpan: 5,
+  minPoints: 8,
+  maxPoints: 30,
+  minRSquared: 0.6,
+  minSlopeTStat: 2,
+  confidenceZ: 1.96
+};
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+interface LinearFit {
+  slope: number;
+  intercept: number;
+  rSquared: number;
+  slopeVariance: number;
+  interceptVariance: number;
+  covariance: number;
+}
+
+const fitLine = (xs: number[], ys: number[]): LinearFit | null => {
+  const n = xs.length;
+  if (n < 3) return null;
+
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const residualSS = Math.max(0, syy - slope * sxy);
+  const residualVariance = residualSS / (n - 2);
+
+  return {
+    slope,
+    intercept,
+    rSquared: syy === 0 ? 0 : 1 - residualSS / syy,
+    slopeVariance: residualVariance / sxx,
+    interceptVariance: residualVariance * (1 / n + (meanX * meanX) / sxx),
+    covariance: -meanX * residualVariance / sxx
+  };
+};
+
+// Local velocity (mm/hr) from a least-squares slope over `span` readings,
+// stamped at the centre of the span. Differencing single readings amplifies
+// sensor noise far too much for 1/v to be usable.
+const smoothedVelocities = (
+  history: SensorReading[],
+  span: number
+): Array<{ time: number; velocity: number }> => {
+  const samples: Array<{ time: number; velocity: number }> = [];
+
+  for (let end = span; end <= history.length; end++) {
+    const slice = history.slice(end - span, end);
+    const origin = slice[0].timestamp;
+    const fit = fitLine(
+      slice.map(r => (r.timestamp - origin) / MS_PER_HOUR),
+      slice.map(r => r.displacement)
+    );
+    if (!fit) continue;
+
+    const midTime = (slice[0].timestamp + slice[slice.length - 1].timestamp) / 2;
+    samples.push({ time: midTime, velocity: fit.slope });
+  }
+
+  return samples;
+};
+
+const emptyForecast = (
+  status: FailureForecastStatus,
+  message: string,
+  extras: Partial<FailureForecast> = {}
+): FailureForecast => ({
+  method: 'inverse-velocity',
+  status,
+  predictedFailureTime: null,
+  hoursToFailure: null,
+  window: null,
+  velocity: null,
+  rSquared: null,
+  pointsUsed: 0,
+  message,
+  ...extras
+});
+
+// Start of the accelerating segment: the first of the trailing run of
+// increasing displacement-rate change points. Steady creep from before onset
+// has a far larger 1/v than the tertiary phase and would drag the fitted line
+// to an early zero crossing. With no such run the whole history is used.
+const accelerationOnset = (history: SensorReading[]): number => {
+  const changePoints = detectChangePoints(seriesFor(history, 'displacement'));
+  let onset = 0;
+  for (let i = changePoints.length - 1; i >= 0 && changePoints[i].direction === 'increase'; i--) {
+    onset = changePoints[i].index;
+  }
+  return onset;
+};
+
+export const forecastFailureTime = (
+  history: SensorReading[],
+  options: Partial<InverseVelocityOptions> = {}
+): FailureForecast => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const requiredReadings = config.minPoints + config.smoothingSpan - 1;
+
+  if (history.length < requiredReadings) {
+    return emptyForecast(
+      'insufficient_data',
+      `Need at least ${requiredReadings} displacement readings for an inverse-velocity forecast (have ${history.length})`
+    );
+  }
+
+  const onset = accelerationOnset(history);
+  const segment = history.slice(onset);
+  if (segment.length < requiredReadings) {
+    return emptyForecast(
+      'insufficient_data',
+      `Acceleration began ${segment.length} readings ago; need ${requiredReadings} for an inverse-velocity forecast`
+    );
+  }
+
+  const samples = smoothedVelocities(segment, config.smoothingSpan).slice(-config.maxPoints);
+  const latestVelocity = samples.length > 0 ? samples[samples.length - 1].velocity : null;
+  const moving = samples.filter(s => s.velocity > 0);
+
+  // 1/v is undefined for a stationary or retreating prism, and a handful of
+  // positive samples amongst many negative ones is just noise.
+  if (moving.length < config.minPoints || moving.length < samples.length * 0.8) {
+    return emptyForecast(
+      'no_movement',
+      'Displacement is not consistently increasing; no failure forecast',
+      { velocity: latestVelocity, pointsUsed: moving.length }
+    );
+  }
+
+  const lastTime = history[history.length - 1].timestamp;
+  const xs = moving.map(s => (s.time - lastTime) / MS_PER_HOUR);
+  const ys = moving.map(s => 1 / s.velocity);
+  const fit = fitLine(xs, ys);
+
+  if (!fit) {
+    return emptyForecast(
+      'insufficient_data',
+      'Readings do not span enough time for an inverse-velocity fit',
+      { velocity: latestVelocity, pointsUsed: moving.length }
+    );
+  }
+
+  const slopeStdErr = Math.sqrt(fit.slopeVariance);
+  const slopeTStat = slopeStdErr > 0 ? fit.slope / slopeStdErr : fit.slope < 0 ? -Infinity : Infinity;
+
+  if (fit.slope >= 0 || slopeTStat > -config.minSlopeTStat) {
+    return emptyForecast(
+      'no_acceleration',
+      'Inverse velocity is not decreasing; movement is steady or decelerating',
+      { velocity: latestVelocity, rSquared: fit.rSquared, pointsUsed: moving.length }
+    );
+  }
+
+  if (fit.rSquared < config.minRSquared) {
+    return emptyForecast(
+      'poor_fit',
+      `Acceleration detected but inverse-velocity trend is too scattered (R² ${fit.rSquared.toFixed(2)})`,
+      { velocity: latestVelocity, rSquared: fit.rSquared, pointsUsed: moving.length }
+    );
+  }
+
+  // Zero crossing of 1/v = intercept + slope * t, with t in hours from the
+  // latest reading. The window comes from the delta-method variance of -a/b.
+  const crossing = -fit.intercept / fit.slope;
+  const crossingVariance = (
+    fit.interceptVariance +
+    crossing * crossing * fit.slopeVariance +
+    2 * crossing * fit.covariance
+  ) / (fit.slope * fit.slope);
+  const halfWidth = config.confidenceZ * Math.sqrt(Math.max(0, crossingVariance));
+
+  const hoursToFailure = Math.max(0, crossing);
+  const earliestHours = Math.max(0, crossing - halfWidth);
+  const latestHours = Math.max(earliestHours, crossing + halfWidth);
+
+  return {
+    method: 'inverse-velocity',
+    status: 'forecast',
+    predictedFailureTime: lastTime + hoursToFailure * MS_PER_HOUR,
+    hoursToFailure,
+    window: {
+      earliest: lastTime + earliestHours * MS_PER_HOUR,
+      latest: lastTime + latestHours * MS_PER_HOUR
+    },
+    velocity: latestVelocity,
+    rSquared: fit.rSquared,
+    pointsUsed: moving.length,
+    message: hoursToFailure === 0
+      ? 'Inverse velocity has reached zero; failure is imminent'
+      : `Tertiary creep: failure forecast in ${hoursToFailure.toFixed(1)} h (${earliestHours.toFixed(1)}–${latestHours.toFixed(1)} h)`
+  };
+};
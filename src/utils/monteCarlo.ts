@@ -0,0 +1,398 @@
+// Headless Monte Carlo evaluation of the detector against the simulator. Each
+// run simulates weeks of every zone from its own seed and a randomly drawn
+// scenario (storms, blasts, sensor faults, creep surges and slope failures),
+// feeds every frame through a fresh detector as the dashboard does, and scores
+// the warnings against the failures the simulator knows about. No rendering
+// or wall-clock pacing is involved, so it runs as fast as the detector allows.
+
+import { RockfallDataGenerator } from '../hooks/useRockfallDataGenerator';
+import type { SimulationParams, ZoneData } from '../hooks/useRockfallDataGenerator';
+import { EnhancedRockfallDetector } from '../hooks/useEnhancedRockfallDetector';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import type { CreepParameters } from './creepModel';
+import type { DetectorSnapshot } from './detectorSnapshot';
+import { createRandom, hashSeed } from './random';
+import type { RandomSource } from './random';
+import { quantile } from './predictionUncertainty';
+import type { ScenarioEvent, ScenarioScript } from './scenarioScript';
+import { SENSOR_FAULT_MODES } from './sensorFaults';
+import type { SensorFaultMode } from './sensorFaults';
+import { SENSOR_PARAMETERS } from './sensorParameters';
+import type { SimulatedZone } from './simulatedZones';
+import { sensorSeriesId } from './zoneAggregation';
+import { MS_PER_HOUR } from './timeWindows';
+
+type RiskLevel = PredictionResult['riskLevel'];
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+const HOURS_PER_WEEK = 7 * 24;
+const RUN_START_TIME = Date.UTC(2025, 0, 1); // Fixed so a run's stream depends on its seed alone
+const WARM_UP_HOURS = 12; // No failure is scheduled before the detector has this much history
+const ALARM_RESET_HOURS = 1; // A warning ends once the risk has stayed below the level this long
+const SURGE_SPEEDUP = 5; // Secondary creep rate multiple during a creep surge
+const FAULT_MODES: SensorFaultMode[] = ['dropout', 'stuck', 'drift', 'spikes'];
+const LEAD_TIME_BIN_HOURS = 2;
+const MAX_RUNS = 1000;
+const MAX_FRAMES_PER_RUN = 50000;
+
+export interface MonteCarloConfig {
+  runs: number;
+  runWeeks: number; // Simulated length of each run
+  sampleMinutes: number; // Simulated time between frames
+  baseSeed: number; // Run i uses a seed derived from this and i
+  quality: SimulationParams['quality'];
+  warningLevel: Exclude<RiskLevel, 'low'>; // Lowest predicted level that counts as a warning
+  alarmHorizonHours: number; // A warning this close before a failure counts for it
+  failureProbability: number; // 0-1, chance each zone fails during a run
+  surgesPerWeek: number; // Per zone: spells of fast secondary creep that do not end in failure
+  stormsPerWeek: number; // Per zone
+  blastsPerWeek: number; // Per zone
+  faultsPerWeek: number; // Per zone
+  zones: SimulatedZone[];
+  detectorSnapshot: DetectorSnapshot | null; // Tuning each run's detector starts from; null uses the defaults
+}
+
+export const DEFAULT_MONTE_CARLO_CONFIG: Omit<MonteCarloConfig, 'baseSeed' | 'zones' | 'detectorSnapshot'> = {
+  runs: 100,
+  runWeeks: 1,
+  sampleMinutes: 15,
+  quality: 'medium',
+  warningLevel: 'high',
+  alarmHorizonHours: 24,
+  failureProbability: 0.3,
+  surgesPerWeek: 1,
+  stormsPerWeek: 2,
+  blastsPerWeek: 3,
+  faultsPerWeek: 0.5
+};
+
+export interface MonteCarloRunResult {
+  run: number;
+  seed: number;
+  zoneHours: number; // Monitored time summed over zones, up to each zone's failure
+  events: number; // Slope failures
+  leadTimesHours: number[]; // One per detected failure
+  missedEvents: number;
+  falseAlarms: number; // Warnings with no failure within the horizon after them
+}
+
+export interface LeadTimeStats {
+  mean: number;
+  p10: number;
+  median: number;
+  p90: number;
+  min: number;
+  max: number;
+}
+
+export interface MonteCarloSummary {
+  runs: number;
+  simulatedHours: number;
+  zoneHours: number;
+  events: number;
+  detectedEvents: number;
+  missedEvents: number;
+  missedEventRate: number | null; // 0-1; null without events
+  falseAlarms: number;
+  falseAlarmsPer1000Hours: number; // Per 1000 zone-hours of monitoring
+  leadTime: LeadTimeStats | null;
+  leadTimeHistogram: Array<{ fromHours: number; toHours: number; count: number }>;
+  results: MonteCarloRunResult[];
+}
+
+// Messages between the page and a Monte Carlo worker, which takes a share of
+// the runs and reports each as it finishes
+export type MonteCarloRequest = { type: 'start'; config: MonteCarloConfig; runs: number[] };
+
+export type MonteCarloResponse =
+  | { type: 'result'; result: MonteCarloRunResult }
+  | { type: 'done' }
+  | { type: 'error'; message: string };
+
+export const validateMonteCarloConfig = (config: MonteCarloConfig): void => {
+  if (!Number.isInteger(config.runs) || config.runs < 1 || config.runs > MAX_RUNS) {
+    throw new Error(`Runs must be a whole number from 1 to ${MAX_RUNS}`);
+  }
+  if (!(config.runWeeks > 0) || !(config.sampleMinutes > 0)) {
+    throw new Error('Run length and sample interval must be positive');
+  }
+  if (config.runWeeks * HOURS_PER_WEEK * 60 / config.sampleMinutes > MAX_FRAMES_PER_RUN) {
+    throw new Error('Too many frames per run; shorten the runs or lengthen the sample interval');
+  }
+  if (config.runWeeks * HOURS_PER_WEEK <= WARM_UP_HOURS) {
+    throw new Error(`Runs must be longer than the ${WARM_UP_HOURS} h detector warm-up`);
+  }
+  if (!(config.alarmHorizonHours > 0)) {
+    throw new Error('Alarm horizon must be positive');
+  }
+  if (!(config.failureProbability >= 0 && config.failureProbability <= 1)) {
+    throw new Error('Failure probability must be between 0 and 1');
+  }
+  [config.surgesPerWeek, config.stormsPerWeek, config.blastsPerWeek, config.faultsPerWeek].forEach(rate => {
+    if (!(rate >= 0)) throw new Error('Event rates cannot be negative');
+  });
+  if (config.zones.length === 0) {
+    throw new Error('There are no zones to simulate');
+  }
+};
+
+export const runSeed = (baseSeed: number, run: number): number => hashSeed(baseSeed, 'monte-carlo', run);
+
+const between = (random: RandomSource, min: number, max: number): number => min + random() * (max - min);
+
+// Knuth's method; rates here are small
+const poisson = (random: RandomSource, mean: number): number => {
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+// Draws one run's scenario. Failures are placed so they land after the
+// warm-up and before the run ends.
+export const randomScenario = (
+  random: RandomSource,
+  config: MonteCarloConfig,
+  creepParameters: Record<string, CreepParameters>
+): ScenarioScript => {
+  const runMs = config.runWeeks * HOURS_PER_WEEK * MS_PER_HOUR;
+  const weeks = config.runWeeks;
+  const events: ScenarioEvent[] = [];
+
+  config.zones.forEach(({ zoneId }) => {
+    const params = creepParameters[zoneId];
+    const zones = [zoneId];
+    const at = () => random() * runMs;
+
+    for (let i = poisson(random, config.stormsPerWeek * weeks); i > 0; i--) {
+      events.push({
+        type: 'rainstorm',
+        atMs: at(),
+        zones,
+        intensity: between(random, 5, 40),
+        durationMs: between(random, 1, 8) * MS_PER_HOUR
+      });
+    }
+    for (let i = poisson(random, config.blastsPerWeek * weeks); i > 0; i--) {
+      events.push({ type: 'blast', atMs: at(), zones, magnitude: between(random, 5, 20) });
+    }
+    for (let i = poisson(random, config.faultsPerWeek * weeks); i > 0; i--) {
+      const mode = FAULT_MODES[Math.floor(random() * FAULT_MODES.length)];
+      events.push({
+        type: 'fault',
+        atMs: at(),
+        zones,
+        mode,
+        parameter: SENSOR_PARAMETERS[Math.floor(random() * SENSOR_PARAMETERS.length)],
+        magnitude: SENSOR_FAULT_MODES[mode].defaultMagnitude,
+        durationMs: between(random, 0.5, 6) * MS_PER_HOUR
+      });
+    }
+
+    // A surge is fast secondary creep that settles back to the usual rate
+    const creep: ScenarioEvent[] = [];
+    for (let i = poisson(random, config.surgesPerWeek * weeks); i > 0; i--) {
+      const atMs = at();
+      creep.push(
+        { type: 'creep', atMs, zones, stage: 'secondary', rate: params.secondaryRate * SURGE_SPEEDUP, failureInMs: null },
+        { type: 'creep', atMs: atMs + between(random, 2, 12) * MS_PER_HOUR, zones, stage: 'secondary', rate: null, failureInMs: null }
+      );
+    }
+
+    if (random() < config.failureProbability) {
+      const failureInMs = params.failureHours * between(random, 0.5, 1.5) * MS_PER_HOUR;
+      const earliest = WARM_UP_HOURS * MS_PER_HOUR;
+      const latest = runMs - failureInMs - MS_PER_HOUR;
+      if (latest > earliest) {
+        const onsetMs = between(random, earliest, latest);
+        // Surges overlapping the run to failure would cut it short
+        events.push(
+          ...creep.filter(event => event.atMs < onsetMs),
+          { type: 'creep', atMs: onsetMs, zones, stage: 'tertiary', rate: null, failureInMs }
+        );
+        return;
+      }
+    }
+    events.push(...creep);
+  });
+
+  return {
+    name: 'Monte Carlo run',
+    events: events.sort((a, b) => a.atMs - b.atMs)
+  };
+};
+
+interface WarningEpisode {
+  start: number;
+  end: number | null;
+}
+
+interface ZoneTally {
+  episodes: WarningEpisode[];
+  belowSince: number | null; // When the risk last dropped below the warning level during an episode
+  failureAt: number | null;
+  firstTime: number | null;
+  lastTime: number | null;
+}
+
+// Same routing as the dashboard: per-sensor series when the zone has
+// instruments, the zone reading otherwise
+const predictFrame = (detector: EnhancedRockfallDetector, frame: Record<string, ZoneData>) =>
+  Object.entries(frame).map(([zoneId, data]) => {
+    const sensors = Object.values(data.sensors ?? {});
+    if (sensors.length === 0) {
+      detector.addReading(zoneId, data.lastReading);
+      return { zoneId, data, prediction: detector.predict(zoneId, data.lastReading) };
+    }
+    sensors.forEach(({ sensor, lastReading }) => {
+      detector.addReading(sensorSeriesId(zoneId, sensor.sensorId), lastReading);
+    });
+    return { zoneId, data, prediction: detector.predictZone(zoneId, sensors) };
+  });
+
+export const runMonteCarloTrial = (config: MonteCarloConfig, run: number): MonteCarloRunResult => {
+  const seed = runSeed(config.baseSeed, run);
+  const generator = new RockfallDataGenerator(seed, RUN_START_TIME);
+  generator.setZones(config.zones);
+  generator.loadScript(randomScenario(createRandom(hashSeed(seed, 'scenario')), config, generator.getCreepParameters()));
+
+  // Bands are not scored, so the bootstrap that dominates predict time is skipped
+  const detector = new EnhancedRockfallDetector({
+    uncertaintyResamples: 0,
+    resolutionSeconds: config.sampleMinutes * 60
+  });
+  if (config.detectorSnapshot) {
+    detector.restore({ ...config.detectorSnapshot, historicalData: {} });
+  }
+
+  const params: SimulationParams = {
+    speed: config.sampleMinutes * 60,
+    quality: config.quality,
+    noiseLevel: 'realistic',
+    scenarioType: 'normal'
+  };
+  const warningRank = RISK_LEVELS.indexOf(config.warningLevel);
+  const resetMs = ALARM_RESET_HOURS * MS_PER_HOUR;
+  const runMs = config.runWeeks * HOURS_PER_WEEK * MS_PER_HOUR;
+  const tallies = new Map<string, ZoneTally>();
+
+  while (generator.getElapsedMs() < runMs) {
+    predictFrame(detector, generator.generateFrame(params)).forEach(({ zoneId, data, prediction }) => {
+      const tally = tallies.get(zoneId) ?? { episodes: [], belowSince: null, failureAt: null, firstTime: null, lastTime: null };
+      tallies.set(zoneId, tally);
+      // Scoring stops at the failure; later warnings belong to the event
+      if (tally.failureAt !== null) return;
+
+      const time = data.lastReading.timestamp;
+      tally.firstTime = tally.firstTime ?? time;
+      tally.lastTime = time;
+
+      const open = tally.episodes[tally.episodes.length - 1];
+      const isOpen = open !== undefined && open.end === null;
+      if (RISK_LEVELS.indexOf(prediction.riskLevel) >= warningRank) {
+        if (!isOpen) tally.episodes.push({ start: time, end: null });
+        tally.belowSince = null;
+      } else if (isOpen) {
+        tally.belowSince = tally.belowSince ?? time;
+        if (time - tally.belowSince >= resetMs) open.end = tally.belowSince;
+      }
+
+      if (data.creep?.failed && data.creep.failureAt !== null) {
+        tally.failureAt = data.creep.failureAt;
+      }
+    });
+  }
+
+  const horizonMs = config.alarmHorizonHours * MS_PER_HOUR;
+  const result: MonteCarloRunResult = {
+    run,
+    seed,
+    zoneHours: 0,
+    events: 0,
+    leadTimesHours: [],
+    missedEvents: 0,
+    falseAlarms: 0
+  };
+
+  tallies.forEach(tally => {
+    if (tally.firstTime !== null && tally.lastTime !== null) {
+      result.zoneHours += (tally.lastTime - tally.firstTime) / MS_PER_HOUR;
+    }
+    const failureAt = tally.failureAt;
+    const counts = (episode: WarningEpisode) =>
+      failureAt !== null && episode.start <= failureAt && (episode.end === null || episode.end >= failureAt - horizonMs);
+    const warnings = tally.episodes.filter(counts);
+    result.falseAlarms += tally.episodes.length - warnings.length;
+
+    if (failureAt === null) return;
+    result.events++;
+    if (warnings.length === 0) {
+      result.missedEvents++;
+    } else {
+      result.leadTimesHours.push((failureAt - warnings[0].start) / MS_PER_HOUR);
+    }
+  });
+
+  return result;
+};
+
+export const summarizeMonteCarlo = (config: MonteCarloConfig, results: MonteCarloRunResult[]): MonteCarloSummary => {
+  const leadTimes = results.flatMap(result => result.leadTimesHours).sort((a, b) => a - b);
+  const events = results.reduce((sum, result) => sum + result.events, 0);
+  const missedEvents = results.reduce((sum, result) => sum + result.missedEvents, 0);
+  const falseAlarms = results.reduce((sum, result) => sum + result.falseAlarms, 0);
+  const zoneHours = results.reduce((sum, result) => sum + result.zoneHours, 0);
+
+  const binCount = leadTimes.length > 0 ? Math.floor(leadTimes[leadTimes.length - 1] / LEAD_TIME_BIN_HOURS) + 1 : 0;
+  const leadTimeHistogram = Array.from({ length: binCount }, (_, bin) => ({
+    fromHours: bin * LEAD_TIME_BIN_HOURS,
+    toHours: (bin + 1) * LEAD_TIME_BIN_HOURS,
+    count: 0
+  }));
+  leadTimes.forEach(hours => leadTimeHistogram[Math.floor(hours / LEAD_TIME_BIN_HOURS)].count++);
+
+  return {
+    runs: results.length,
+    simulatedHours: results.length * config.runWeeks * HOURS_PER_WEEK,
+    zoneHours,
+    events,
+    detectedEvents: leadTimes.length,
+    missedEvents,
+    missedEventRate: events > 0 ? missedEvents / events : null,
+    falseAlarms,
+    falseAlarmsPer1000Hours: zoneHours > 0 ? falseAlarms / zoneHours * 1000 : 0,
+    leadTime: leadTimes.length > 0
+      ? {
+        mean: leadTimes.reduce((sum, hours) => sum + hours, 0) / leadTimes.length,
+        p10: quantile(leadTimes, 0.1),
+        median: quantile(leadTimes, 0.5),
+        p90: quantile(leadTimes, 0.9),
+        min: leadTimes[0],
+        max: leadTimes[leadTimes.length - 1]
+      }
+      : null,
+    leadTimeHistogram,
+    results
+  };
+};
+
+// Downloadable report; zones are listed by id and the detector tuning is
+// noted rather than embedded
+export const monteCarloReportJson = (config: MonteCarloConfig, summary: MonteCarloSummary): string => {
+  const { zones, detectorSnapshot, ...settings } = config;
+  return JSON.stringify({
+    format: 'rockfall-monte-carlo-report',
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    config: {
+      ...settings,
+      zones: zones.map(zone => zone.zoneId),
+      detectorTuning: detectorSnapshot ? `snapshot saved ${detectorSnapshot.savedAt}` : 'defaults'
+    },
+    summary
+  }, null, 2);
+};
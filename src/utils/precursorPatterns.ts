@@ -0,0 +1,311 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import { estimateKinematics } from './changePointDetection';
+import { SENSOR_PARAMETER_REGISTRY, isSensorParameter } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+import { MS_PER_HOUR, ratePerHour, readingsWithin, timeIntegral } from './timeWindows';
+
+// value: the current reading. The others are computed over the readings in
+// the last `windowHours`: mean, cumulative (time integral, e.g. mm of rain
+// from mm/hr), change (last minus first), range (max minus min), rate
+// (least-squares slope per hour) and acceleration (per hour², quadratic fit).
+export type PrecursorMetric = 'value' | 'mean' | 'cumulative' | 'change' | 'range' | 'rate' | 'acceleration';
+
+export type PrecursorOperator = '>' | '>=' | '<' | '<=' | 'between';
+
+export interface PrecursorCondition {
+  parameter: SensorParameter;
+  metric: PrecursorMetric;
+  operator: PrecursorOperator;
+  value: number; // Lower bound for 'between'
+  upper?: number; // Upper bound for 'between'
+  windowHours?: number; // Required for every metric except 'value'
+  durationHours?: number; // Condition must have held at every reading for this long
+}
+
+export interface Precursor {
+  id: string;
+  label: string;
+  conditions: PrecursorCondition[];
+  minMatches?: number; // Conditions that must hold; defaults to all of them
+  weight: number; // Added to the pattern score when the precursor matches
+}
+
+export interface PrecursorPattern {
+  pattern: string;
+  frequency: number;
+  severity: number;
+  duration: number; // hours
+  precursors: Precursor[];
+}
+
+export interface PatternWarning {
+  pattern: string;
+  precursorId?: string;
+  message: string;
+}
+
+// The ML model only reports a pattern once its score exceeds this
+export const PATTERN_REPORT_THRESHOLD = 0.6;
+
+export const PRECURSOR_METRICS: PrecursorMetric[] = ['value', 'mean', 'cumulative', 'change', 'range', 'rate', 'acceleration'];
+export const PRECURSOR_OPERATORS: PrecursorOperator[] = ['>', '>=', '<', '<=', 'between'];
+
+export const DEFAULT_PRECURSOR_PATTERNS: PrecursorPattern[] = [
+  {
+    pattern: 'Gradual_Displacement_Increase',
+    frequency: 0.3,
+    severity: 0.7,
+    duration: 48,
+    precursors: [
+      { id: 'increased_strain', label: 'Increased strain', weight: 0.2,
+        conditions: [{ parameter: 'strain', metric: 'value', operator: '>', value: 500 }] },
+      { id: 'pore_pressure_buildup', label: 'Pore pressure build-up', weight: 0.2,
+        conditions: [{ parameter: 'porePressure', metric: 'value', operator: '>', value: 400 }] },
+      { id: 'steady_creep', label: 'Steady displacement creep', weight: 0.3,
+        conditions: [{ parameter: 'displacement', metric: 'rate', operator: '>', value: 0.1, windowHours: 6 }] }
+    ]
+  },
+  {
+    pattern: 'Rainfall_Induced_Instability',
+    frequency: 0.25,
+    severity: 0.8,
+    duration: 24,
+    precursors: [
+      { id: 'high_rainfall', label: 'High rainfall', weight: 0.3,
+        conditions: [{ parameter: 'rainfall', metric: 'value', operator: '>', value: 25 }] },
+      { id: 'soil_saturation', label: 'Soil saturation', weight: 0.2,
+        conditions: [{ parameter: 'soilMoisture', metric: 'value', operator: '>', value: 80 }] },
+      { id: 'increased_pore_pressure', label: 'Rising pore pressure', weight: 0.2,
+        conditions: [{ parameter: 'porePressure', metric: 'change', operator: '>', value: 50, windowHours: 6 }] },
+      { id: 'antecedent_rainfall', label: 'Heavy rain over the last day', weight: 0.2,
+        conditions: [{ parameter: 'rainfall', metric: 'cumulative', operator: '>', value: 50, windowHours: 24 }] }
+    ]
+  },
+  {
+    pattern: 'Vibration_Triggered_Event',
+    frequency: 0.15,
+    severity: 0.9,
+    duration: 6,
+    precursors: [
+      { id: 'equipment_vibration', label: 'Equipment vibration', weight: 0.3,
+        conditions: [{ parameter: 'vibration', metric: 'value', operator: '>', value: 5 }] },
+      { id: 'blasting_activity', label: 'Blasting activity', weight: 0.3,
+        conditions: [{ parameter: 'vibration', metric: 'range', operator: '>', value: 10, windowHours: 1 }] },
+      { id: 'structural_resonance', label: 'Sustained resonance', weight: 0.2,
+        conditions: [{ parameter: 'vibration', metric: 'mean', operator: '>', value: 4, windowHours: 1, durationHours: 0.5 }] }
+    ]
+  },
+  {
+    pattern: 'Temperature_Cycle_Fatigue',
+    frequency: 0.2,
+    severity: 0.6,
+    duration: 72,
+    precursors: [
+      { id: 'freeze_thaw_cycles', label: 'Freeze-thaw range', weight: 0.1,
+        conditions: [{ parameter: 'temperature', metric: 'value', operator: 'between', value: -5, upper: 5 }] },
+      { id: 'thermal_expansion', label: 'Large daily temperature swing', weight: 0.3,
+        conditions: [{ parameter: 'temperature', metric: 'range', operator: '>', value: 15, windowHours: 24 }] },
+      { id: 'joint_degradation', label: 'Joint opening (tilt drift)', weight: 0.3,
+        conditions: [{ parameter: 'tiltAngle', metric: 'range', operator: '>', value: 0.5, windowHours: 24 }] }
+    ]
+  },
+  {
+    pattern: 'Progressive_Failure',
+    frequency: 0.1,
+    severity: 1.0,
+    duration: 12,
+    precursors: [
+      { id: 'multiple_parameter_escalation', label: 'Multiple parameters escalated', weight: 0.4, minMatches: 2,
+        conditions: [
+          { parameter: 'displacement', metric: 'value', operator: '>', value: 10 },
+          { parameter: 'strain', metric: 'value', operator: '>', value: 600 },
+          { parameter: 'porePressure', metric: 'value', operator: '>', value: 450 }
+        ] },
+      { id: 'accelerating_displacement', label: 'Accelerating displacement', weight: 0.3,
+        conditions: [{ parameter: 'displacement', metric: 'acceleration', operator: '>', value: 0.05, windowHours: 6 }] },
+      { id: 'structural_damage', label: 'Rapid strain growth', weight: 0.3,
+        conditions: [{ parameter: 'strain', metric: 'rate', operator: '>', value: 20, windowHours: 6 }] }
+    ]
+  }
+];
+
+// Metric value at `reading`, given the history up to and including it.
+// Null when the window does not hold enough readings.
+const computeMetric = (
+  condition: PrecursorCondition,
+  reading: SensorReading,
+  history: SensorReading[]
+): number | null => {
+  const { parameter, metric } = condition;
+  if (metric === 'value') return reading[parameter];
+
+  const readings = readingsWithin(history, condition.windowHours ?? 0, reading.timestamp);
+  if (readings.length === 0) return null;
+  const values = readings.map(r => r[parameter]);
+
+  switch (metric) {
+    case 'mean':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'cumulative':
+      return timeIntegral(readings, parameter);
+    case 'change':
+      return values.length < 2 ? null : values[values.length - 1] - values[0];
+    case 'range':
+      return values.length < 2 ? null : Math.max(...values) - Math.min(...values);
+    case 'rate':
+      return ratePerHour(readings, parameter);
+    case 'acceleration':
+      return estimateKinematics(readings.map(r => ({ timestamp: r.timestamp, value: r[parameter] })), readings.length)
+        ?.acceleration ?? null;
+  }
+};
+
+const compare = (condition: PrecursorCondition, value: number): boolean => {
+  switch (condition.operator) {
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case 'between': return value >= condition.value && value <= (condition.upper ?? condition.value);
+  }
+};
+
+const conditionHolds = (
+  condition: PrecursorCondition,
+  history: SensorReading[],
+  currentReading: SensorReading
+): boolean => {
+  const duration = condition.durationHours ?? 0;
+  const holdsAt = (reading: SensorReading, upTo: SensorReading[]) => {
+    const value = computeMetric(condition, reading, upTo);
+    return value !== null && Number.isFinite(value) && compare(condition, value);
+  };
+
+  // Include the current reading even if the caller's history does not yet
+  const series = history[history.length - 1] === currentReading ? history : [...history, currentReading];
+  if (duration <= 0) return holdsAt(currentReading, series);
+
+  // History must reach back over the whole duration, and the condition must
+  // hold at every reading inside it.
+  const start = currentReading.timestamp - duration * MS_PER_HOUR;
+  if (series.length === 0 || series[0].timestamp > start) return false;
+  return series.every((reading, index) =>
+    reading.timestamp < start || holdsAt(reading, series.slice(0, index + 1)));
+};
+
+export const precursorMatches = (
+  precursor: Precursor,
+  history: SensorReading[],
+  currentReading: SensorReading
+): boolean => {
+  if (precursor.conditions.length === 0) return false;
+  const required = precursor.minMatches ?? precursor.conditions.length;
+  const matched = precursor.conditions.filter(condition => conditionHolds(condition, history, currentReading)).length;
+  return matched >= required;
+};
+
+// Sum of the weights of matched precursors, capped at 1
+export const matchPattern = (
+  pattern: PrecursorPattern,
+  history: SensorReading[],
+  currentReading: SensorReading
+): number => {
+  const score = pattern.precursors
+    .filter(precursor => precursorMatches(precursor, history, currentReading))
+    .reduce((sum, precursor) => sum + precursor.weight, 0);
+  return Math.min(1, score);
+};
+
+const conditionProblem = (condition: PrecursorCondition): string | null => {
+  if (!isSensorParameter(condition.parameter)) return `unknown parameter "${condition.parameter}"`;
+  if (!PRECURSOR_METRICS.includes(condition.metric)) return `unknown metric "${condition.metric}"`;
+  if (!Number.isFinite(condition.value)) return 'threshold is not a number';
+  if (condition.operator === 'between') {
+    if (condition.upper === undefined || !Number.isFinite(condition.upper)) return 'missing upper bound';
+    if (condition.upper < condition.value) return 'upper bound is below lower bound';
+  }
+  if (condition.metric !== 'value' && !(condition.windowHours && condition.windowHours > 0)) {
+    return `${condition.metric} needs a positive window`;
+  }
+  if (condition.durationHours !== undefined && condition.durationHours < 0) return 'negative duration';
+
+  // Bounds that the metric cannot reach given the instrument's measuring range
+  const { min, max } = SENSOR_PARAMETER_REGISTRY[condition.parameter].physicalRange;
+  const span = max - min;
+  const bounds: Partial<Record<PrecursorMetric, [number, number]>> = {
+    value: [min, max],
+    mean: [min, max],
+    change: [-span, span],
+    range: [0, span]
+  };
+  const reachable = bounds[condition.metric];
+  if (!reachable) return null;
+
+  const [low, high] = reachable;
+  const lower = condition.value;
+  const upper = condition.upper ?? condition.value;
+  switch (condition.operator) {
+    case '>': return lower >= high ? `${condition.metric} never exceeds ${high}` : null;
+    case '>=': return lower > high ? `${condition.metric} never exceeds ${high}` : null;
+    case '<': return lower <= low ? `${condition.metric} is never below ${low}` : null;
+    case '<=': return lower < low ? `${condition.metric} is never below ${low}` : null;
+    case 'between': return upper < low || lower > high ? `range ${lower}–${upper} is outside ${low}–${high}` : null;
+  }
+};
+
+// Checks that can be decided from the definitions alone: a condition that no
+// sensor value could satisfy, a precursor that can never contribute, or a
+// pattern whose weights cannot reach the reporting threshold.
+export const validatePatternLibrary = (patterns: PrecursorPattern[]): PatternWarning[] => {
+  const warnings: PatternWarning[] = [];
+  const seen = new Set<string>();
+
+  patterns.forEach(pattern => {
+    const warn = (message: string, precursorId?: string) =>
+      warnings.push({ pattern: pattern.pattern, precursorId, message });
+
+    if (!pattern.pattern.trim()) warn('Pattern has no name');
+    if (seen.has(pattern.pattern)) warn('Duplicate pattern name');
+    seen.add(pattern.pattern);
+
+    if (pattern.precursors.length === 0) {
+      warn('Pattern has no precursors and can never match');
+      return;
+    }
+
+    const precursorIds = new Set<string>();
+    let reachableWeight = 0;
+
+    pattern.precursors.forEach(precursor => {
+      const never = (reason: string) => warn(`Can never match: ${reason}`, precursor.id);
+      if (precursorIds.has(precursor.id)) warn('Duplicate precursor id', precursor.id);
+      precursorIds.add(precursor.id);
+
+      const required = precursor.minMatches ?? precursor.conditions.length;
+      const satisfiable = precursor.conditions.filter(condition => {
+        const problem = conditionProblem(condition);
+        if (problem) warn(`Condition on ${condition.parameter} can never hold: ${problem}`, precursor.id);
+        return !problem;
+      }).length;
+
+      if (precursor.conditions.length === 0) {
+        never('no conditions');
+      } else if (required < 1 || required > precursor.conditions.length) {
+        never(`requires ${required} of ${precursor.conditions.length} conditions`);
+      } else if (satisfiable < required) {
+        never(`only ${satisfiable} of the ${required} required conditions can hold`);
+      } else if (precursor.weight <= 0) {
+        warn('Weight is not positive, so a match never raises the score', precursor.id);
+      } else {
+        reachableWeight += precursor.weight;
+      }
+    });
+
+    if (reachableWeight <= PATTERN_REPORT_THRESHOLD) {
+      warn(`Matching precursors add up to at most ${reachableWeight.toFixed(2)}, ` +
+        `so the pattern is never reported (needs more than ${PATTERN_REPORT_THRESHOLD})`);
+    }
+  });
+
+  return warnings;
+};
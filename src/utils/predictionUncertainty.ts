@@ -0,0 +1,68 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import type { RandomSource } from './random';
+
+export interface UncertaintyBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface TimeToEventBand extends UncertaintyBand {
+  forecastShare: number; // 0-1, share of resamples that produced a failure forecast
+}
+
+// Linear-interpolated quantile of an ascending array
+export const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const toBand = (values: number[]): UncertaintyBand | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9)
+  };
+};
+
+export const pointBand = (value: number): UncertaintyBand => ({ p10: value, p50: value, p90: value });
+
+// A band carried forward with its point estimate, between bootstrap runs
+export const shiftBand = <T extends UncertaintyBand>(band: T, delta: number, min = -Infinity, max = Infinity): T => {
+  const clamp = (value: number) => Math.min(max, Math.max(min, value + delta));
+  return { ...band, p10: clamp(band.p10), p50: clamp(band.p50), p90: clamp(band.p90) };
+};
+
+// Order-preserving bootstrap of a history window: earlier readings are drawn
+// with replacement and re-sorted by time, so trends and rates survive, and the
+// latest reading is always kept as the one being assessed.
+export const resampleHistory = (history: SensorReading[], random: RandomSource): SensorReading[] => {
+  if (history.length < 2) return [...history];
+  const earlier = history.length - 1;
+  const indices = Array.from({ length: earlier }, () => Math.floor(random() * earlier)).sort((a, b) => a - b);
+  return [...indices.map(index => history[index]), history[history.length - 1]];
+};
+
+export const formatRiskBand = (band: UncertaintyBand): string =>
+  `${Math.round(band.p10)}–${Math.round(band.p90)}`;
+
+export const formatTimeToEventBand = (band: TimeToEventBand): string => {
+  const range = `${band.p10.toFixed(1)}–${band.p90.toFixed(1)} h (median ${band.p50.toFixed(1)} h)`;
+  return band.forecastShare < 0.9
+    ? `${range}, forecast in ${Math.round(band.forecastShare * 100)}% of resamples`
+    : range;
+};
+
+// One-line summary for alert messages, e.g. "risk 62 (p10–p90 48–71), failure in 8.2–20.5 h (median 12.0 h)"
+export const describeBands = (
+  riskScore: number,
+  riskScoreBand: UncertaintyBand,
+  timeToEventBand: TimeToEventBand | null
+): string =>
+  `risk ${riskScore} (p10–p90 ${formatRiskBand(riskScoreBand)})` +
+  (timeToEventBand ? `, failure in ${formatTimeToEventBand(timeToEventBand)}` : '');
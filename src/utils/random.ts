@@ -0,0 +1,33 @@
+// Small seeded PRNG (mulberry32) for reproducible resampling and simulation.
+// Not suitable for anything security related.
+export type RandomSource = () => number; // Uniform in [0, 1), like Math.random
+
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Folds strings and numbers into a 32-bit seed, e.g. hashSeed(zoneId, timestamp)
+export const hashSeed = (...parts: Array<string | number>): number => {
+  let hash = 2166136261;
+  parts.join('|').split('').forEach(char => {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 16777619);
+  });
+  return hash >>> 0;
+};
+
+// Fresh seed for a new run; the run itself only uses the seeded source
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Standard normal sample (Box-Muller) from a uniform source
+export const gaussian = (random: RandomSource): number => {
+  const u = 1 - random(); // (0, 1], keeps the log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
@@ -0,0 +1,279 @@
+// Scripted scenario timelines for training drills. A script is plain JSON:
+//
+//   {
+//     "name": "Storm, blast and collapse",
+//     "events": [
+//       { "at": "10m", "type": "rainstorm", "zones": ["zone-2", "zone-3"], "intensity": 40, "duration": "2h" },
+//       { "at": "3h", "type": "blast", "zones": ["zone-4"], "magnitude": 15 },
+//       { "at": "5h", "type": "creep", "zones": ["zone-2"], "stage": "tertiary", "failureIn": "6h" },
+//       { "at": "6h", "type": "fault", "zones": ["zone-2"], "mode": "stuck", "parameter": "porePressure", "duration": "1h" }
+//     ]
+//   }
+//
+// Times are offsets from the start of the script, as minutes or strings such
+// as "90s", "10m", "3h", "1h30m" or "t+2d".
+
+import { MS_PER_HOUR } from './timeWindows';
+import { CREEP_STAGES } from './creepModel';
+import type { CreepStage } from './creepModel';
+import { SENSOR_FAULT_MODES, SENSOR_FAULT_MODE_KEYS, describeFault, isSensorFaultMode, validateFault } from './sensorFaults';
+import type { SensorFaultMode } from './sensorFaults';
+import { SENSOR_PARAMETERS, isSensorParameter } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+
+interface ScenarioEventBase {
+  atMs: number; // Offset from the start of the script
+  zones: string[];
+  label?: string; // Shown in the event log instead of the generated description
+}
+
+export interface RainstormEvent extends ScenarioEventBase {
+  type: 'rainstorm';
+  intensity: number; // mm/hr
+  durationMs: number;
+}
+
+export interface BlastEvent extends ScenarioEventBase {
+  type: 'blast';
+  magnitude: number; // Peak vibration added at the zone, Hz
+}
+
+export interface CreepEvent extends ScenarioEventBase {
+  type: 'creep';
+  stage: CreepStage;
+  rate: number | null; // mm/hr at the start of the stage; null uses the zone's creep parameters
+  failureInMs: number | null; // Tertiary only: time from onset to failure; null uses the zone's
+}
+
+export interface FaultEvent extends ScenarioEventBase {
+  type: 'fault';
+  mode: SensorFaultMode;
+  parameter: SensorParameter | null; // null: every parameter
+  magnitude: number; // In the mode's unit
+  durationMs: number | null; // null: lasts to the end of the run
+}
+
+export type ScenarioEvent = RainstormEvent | BlastEvent | CreepEvent | FaultEvent;
+
+export interface ScenarioScript {
+  name: string;
+  description?: string;
+  events: ScenarioEvent[]; // Sorted by atMs
+}
+
+export interface ScenarioLogEntry {
+  eventIndex: number | null; // null for what the simulation itself produced, e.g. a slope failing
+  phase: 'start' | 'end';
+  elapsedMs: number; // Script time at which the generator applied it
+  timestamp: number; // Reading timestamp of that frame
+  zones: string[];
+  message: string;
+}
+
+export const SCENARIO_EVENT_TYPES: ScenarioEvent['type'][] = ['rainstorm', 'blast', 'creep', 'fault'];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  sec: 1000,
+  m: 60 * 1000,
+  min: 60 * 1000,
+  h: MS_PER_HOUR,
+  hr: MS_PER_HOUR,
+  d: 24 * MS_PER_HOUR
+};
+
+// Bare numbers are minutes
+export const parseScenarioDuration = (value: unknown): number => {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+    return value * 60 * 1000;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Expected a duration such as "10m" or "2h", got ${JSON.stringify(value)}`);
+  }
+
+  const text = value.trim().toLowerCase().replace(/^t\s*\+\s*/, '');
+  const part = /(\d+(?:\.\d+)?)\s*(sec|min|hr|s|m|h|d)/g;
+  let total = 0;
+  let consumed = '';
+  let match: RegExpExecArray | null;
+  while ((match = part.exec(text)) !== null) {
+    total += Number(match[1]) * DURATION_UNITS[match[2]];
+    consumed += match[0];
+  }
+  if (!consumed || consumed.replace(/\s/g, '') !== text.replace(/\s/g, '')) {
+    throw new Error(`Unrecognised duration "${value}"`);
+  }
+  return total;
+};
+
+export const formatScenarioTime = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const seconds = Math.floor((ms % 60000) / 1000);
+  if (hours > 0) return `t+${hours}h${minutes > 0 ? ` ${minutes}m` : ''}`;
+  if (minutes > 0) return `t+${minutes}m${seconds > 0 ? ` ${seconds}s` : ''}`;
+  return `t+${seconds}s`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const positiveNumber = (value: unknown, field: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${field} must be a positive number`);
+  }
+  return value;
+};
+
+const parseEvent = (raw: unknown, index: number): ScenarioEvent => {
+  const where = `Event ${index + 1}`;
+  if (!isRecord(raw)) throw new Error(`${where} is not an object`);
+
+  try {
+    const zones = raw.zones;
+    if (!Array.isArray(zones) || zones.length === 0 || !zones.every(zone => typeof zone === 'string')) {
+      throw new Error('zones must be a non-empty list of zone ids');
+    }
+    const base: ScenarioEventBase = {
+      atMs: parseScenarioDuration(raw.at),
+      zones: [...zones] as string[],
+      ...(typeof raw.label === 'string' && raw.label.trim() ? { label: raw.label.trim() } : {})
+    };
+
+    switch (raw.type) {
+      case 'rainstorm':
+        return {
+          ...base,
+          type: 'rainstorm',
+          intensity: positiveNumber(raw.intensity, 'intensity'),
+          durationMs: positiveNumber(parseScenarioDuration(raw.duration), 'duration')
+        };
+      case 'blast':
+        return { ...base, type: 'blast', magnitude: positiveNumber(raw.magnitude, 'magnitude') };
+      case 'creep': {
+        if (!CREEP_STAGES.includes(raw.stage as CreepStage)) {
+          throw new Error(`stage must be one of ${CREEP_STAGES.join(', ')}`);
+        }
+        const stage = raw.stage as CreepStage;
+        return {
+          ...base,
+          type: 'creep',
+          stage,
+          rate: raw.rate === undefined ? null : positiveNumber(raw.rate, 'rate'),
+          failureInMs: stage === 'tertiary' && raw.failureIn !== undefined
+            ? positiveNumber(parseScenarioDuration(raw.failureIn), 'failureIn')
+            : null
+        };
+      }
+      case 'fault': {
+        if (!isSensorFaultMode(raw.mode)) {
+          throw new Error(`mode must be one of ${SENSOR_FAULT_MODE_KEYS.join(', ')}`);
+        }
+        if (raw.parameter !== undefined && (typeof raw.parameter !== 'string' || !isSensorParameter(raw.parameter))) {
+          throw new Error(`parameter must be one of ${SENSOR_PARAMETERS.join(', ')}`);
+        }
+        const magnitude = raw.magnitude === undefined ? SENSOR_FAULT_MODES[raw.mode].defaultMagnitude : raw.magnitude;
+        if (typeof magnitude !== 'number') throw new Error('magnitude must be a number');
+        const parameter = raw.parameter ?? null;
+        validateFault(raw.mode, parameter, magnitude);
+        return {
+          ...base,
+          type: 'fault',
+          mode: raw.mode,
+          parameter,
+          magnitude,
+          durationMs: raw.duration === undefined ? null : positiveNumber(parseScenarioDuration(raw.duration), 'duration')
+        };
+      }
+      default:
+        throw new Error(`type must be one of ${SCENARIO_EVENT_TYPES.join(', ')}`);
+    }
+  } catch (error) {
+    throw new Error(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+// Validates a script from JSON text or an already parsed value
+export const parseScenarioScript = (input: unknown): ScenarioScript => {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new Error('Scenario script is not valid JSON');
+    }
+  }
+
+  if (!isRecord(raw)) throw new Error('Scenario script must be a JSON object');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('Scenario script needs a name');
+  if (!Array.isArray(raw.events)) throw new Error('Scenario script needs an events list');
+
+  return {
+    name: raw.name.trim(),
+    ...(typeof raw.description === 'string' ? { description: raw.description } : {}),
+    events: raw.events.map(parseEvent).sort((a, b) => a.atMs - b.atMs)
+  };
+};
+
+// When a storm stops, a fault clears or a scripted tertiary stage is due to
+// fail; other events are instantaneous and end when they start
+export const scenarioEventEnd = (event: ScenarioEvent): number => {
+  if (event.type === 'rainstorm') return event.atMs + event.durationMs;
+  if (event.type === 'fault' && event.durationMs !== null) return event.atMs + event.durationMs;
+  if (event.type === 'creep' && event.failureInMs !== null) return event.atMs + event.failureInMs;
+  return event.atMs;
+};
+
+// Length of the timeline: the last event plus an hour to watch the response
+export const scenarioDuration = (script: ScenarioScript): number =>
+  script.events.reduce((end, event) => Math.max(end, scenarioEventEnd(event)), 0) + MS_PER_HOUR;
+
+export const describeScenarioEvent = (event: ScenarioEvent, phase: ScenarioLogEntry['phase']): string => {
+  if (event.label) return phase === 'start' ? event.label : `${event.label} ended`;
+  const zones = event.zones.join(', ');
+  switch (event.type) {
+    case 'rainstorm':
+      return phase === 'start'
+        ? `${event.intensity} mm/hr rain storm over ${zones} for ${formatScenarioTime(event.durationMs).slice(2)}`
+        : `Rain storm over ${zones} ended`;
+    case 'blast':
+      return `Blast near ${zones} (+${event.magnitude} Hz vibration)`;
+    case 'creep':
+      if (event.stage === 'tertiary' && event.failureInMs !== null) {
+        return `${zones} entered tertiary creep, failure expected in ${formatScenarioTime(event.failureInMs).slice(2)}`;
+      }
+      return `${zones} entered ${event.stage} creep${event.rate !== null ? ` at ${event.rate} mm/hr` : ''}`;
+    case 'fault': {
+      const description = describeFault({ ...event, zoneId: zones });
+      return phase === 'start' ? description : `${description} cleared`;
+    }
+  }
+};
+
+export const SCENARIO_SCRIPT_EXAMPLES: Array<{ name: string; json: string }> = [
+  {
+    name: 'Storm, blast and collapse',
+    json: JSON.stringify({
+      name: 'Storm, blast and collapse',
+      description: 'Heavy rain over the south and east benches, a production blast, then zone-2 heads to failure',
+      events: [
+        { at: '10m', type: 'rainstorm', zones: ['zone-2', 'zone-3'], intensity: 40, duration: '2h' },
+        { at: '3h', type: 'blast', zones: ['zone-4'], magnitude: 15 },
+        { at: '5h', type: 'creep', zones: ['zone-2'], stage: 'tertiary', failureIn: '6h' },
+        { at: '7h', type: 'fault', zones: ['zone-2'], mode: 'stuck', parameter: 'porePressure', duration: '90m' }
+      ]
+    }, null, 2)
+  },
+  {
+    name: 'Slow creep drill',
+    json: JSON.stringify({
+      name: 'Slow creep drill',
+      events: [
+        { at: '0m', type: 'creep', zones: ['zone-1'], stage: 'primary', rate: 0.5 },
+        { at: '4h', type: 'creep', zones: ['zone-1'], stage: 'secondary', rate: 0.3 },
+        { at: '12h', type: 'creep', zones: ['zone-1'], stage: 'tertiary', failureIn: '8h' }
+      ]
+    }, null, 2)
+  }
+];
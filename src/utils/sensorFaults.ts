@@ -0,0 +1,152 @@
+// Instrument malfunctions the simulator can inject, for exercising the
+// dashboard's fault handling. Every fault is recorded with the readings it
+// touched so downstream detection can be scored against the ground truth.
+
+import { SENSOR_PARAMETER_REGISTRY } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+import { MS_PER_HOUR } from './timeWindows';
+import type { RandomSource } from './random';
+
+export type SensorFaultMode = 'dropout' | 'stuck' | 'drift' | 'spikes' | 'clock_skew' | 'delayed';
+
+export interface SensorFaultModeDefinition {
+  label: string;
+  description: string;
+  magnitudeLabel: string | null; // null where the mode takes no magnitude
+  unit: string;
+  defaultMagnitude: number;
+  zoneWide: boolean; // Affects the zone's logger as a whole rather than one parameter
+}
+
+export const SENSOR_FAULT_MODES: Record<SensorFaultMode, SensorFaultModeDefinition> = {
+  dropout: {
+    label: 'Dropout',
+    description: 'Readings go missing',
+    magnitudeLabel: 'Readings lost',
+    unit: '%',
+    defaultMagnitude: 100,
+    zoneWide: false
+  },
+  stuck: {
+    label: 'Stuck value',
+    description: 'The sensor keeps reporting the value it had when the fault began',
+    magnitudeLabel: null,
+    unit: '',
+    defaultMagnitude: 0,
+    zoneWide: false
+  },
+  drift: {
+    label: 'Calibration drift',
+    description: 'A growing offset, as a share of the typical range per hour',
+    magnitudeLabel: 'Drift rate',
+    unit: '%/hr',
+    defaultMagnitude: 10,
+    zoneWide: false
+  },
+  spikes: {
+    label: 'Spikes',
+    description: 'Occasional isolated outliers',
+    magnitudeLabel: 'Spike size',
+    unit: '× typical range',
+    defaultMagnitude: 5,
+    zoneWide: false
+  },
+  clock_skew: {
+    label: 'Clock skew',
+    description: 'The logger clock is offset from true time',
+    magnitudeLabel: 'Offset',
+    unit: 's',
+    defaultMagnitude: 300,
+    zoneWide: true
+  },
+  delayed: {
+    label: 'Delayed delivery',
+    description: 'Readings arrive late; nothing arrives until the first delayed reading is due',
+    magnitudeLabel: 'Delay',
+    unit: 's',
+    defaultMagnitude: 120,
+    zoneWide: true
+  }
+};
+
+export const SENSOR_FAULT_MODE_KEYS = Object.keys(SENSOR_FAULT_MODES) as SensorFaultMode[];
+
+export const SPIKE_PROBABILITY = 0.05; // Share of readings hit while a spikes fault is active
+
+export interface InjectedFault {
+  faultId: string;
+  zoneId: string;
+  parameter: SensorParameter | null; // null: every parameter; always null for zone-wide modes
+  mode: SensorFaultMode;
+  magnitude: number; // In the mode's unit
+  startMs: number; // Simulated clock time the fault began
+  endMs: number | null; // null while it lasts
+  source: 'control' | 'script';
+}
+
+// Ground truth attached to a reading: which faults shaped it
+export interface InjectedFaultTag {
+  faultId: string;
+  mode: SensorFaultMode;
+  parameter: SensorParameter | null;
+}
+
+export const isSensorFaultMode = (value: unknown): value is SensorFaultMode =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SENSOR_FAULT_MODES, value);
+
+export const validateFault = (mode: SensorFaultMode, parameter: SensorParameter | null, magnitude: number): void => {
+  const definition = SENSOR_FAULT_MODES[mode];
+  if (definition.zoneWide && parameter !== null) {
+    throw new Error(`${definition.label} affects the whole logger and cannot target one parameter`);
+  }
+  if (!Number.isFinite(magnitude)) {
+    throw new Error(`${definition.magnitudeLabel ?? 'Magnitude'} must be a number`);
+  }
+  if (mode === 'dropout' && (magnitude <= 0 || magnitude > 100)) {
+    throw new Error('Readings lost must be above 0% and at most 100%');
+  }
+  if ((mode === 'spikes' || mode === 'delayed') && magnitude <= 0) {
+    throw new Error(`${definition.magnitudeLabel} must be positive`);
+  }
+};
+
+export const isFaultActive = (fault: InjectedFault, atMs: number): boolean =>
+  fault.startMs <= atMs && (fault.endMs === null || atMs < fault.endMs);
+
+export const faultAffects = (fault: InjectedFault, parameter: SensorParameter): boolean =>
+  !SENSOR_FAULT_MODES[fault.mode].zoneWide && (fault.parameter === null || fault.parameter === parameter);
+
+export const describeFault = (fault: Pick<InjectedFault, 'zoneId' | 'parameter' | 'mode' | 'magnitude'>): string => {
+  const definition = SENSOR_FAULT_MODES[fault.mode];
+  const target = fault.parameter ? SENSOR_PARAMETER_REGISTRY[fault.parameter].label.toLowerCase() : 'all parameters';
+  const size = definition.magnitudeLabel ? ` (${fault.magnitude}${definition.unit === '%' ? '' : ' '}${definition.unit})` : '';
+  return definition.zoneWide
+    ? `${definition.label} on ${fault.zoneId}${size}`
+    : `${definition.label} on ${fault.zoneId} ${target}${size}`;
+};
+
+// Distorts one value under a parameter-level fault. `held` is the value a
+// stuck sensor froze at.
+export const distortValue = (
+  fault: InjectedFault,
+  parameter: SensorParameter,
+  value: number,
+  atMs: number,
+  held: number,
+  random: RandomSource
+): number => {
+  const { min, max } = SENSOR_PARAMETER_REGISTRY[parameter].typicalRange;
+  switch (fault.mode) {
+    case 'dropout':
+      return random() * 100 < fault.magnitude ? NaN : value;
+    case 'stuck':
+      return held;
+    case 'drift':
+      return value + (fault.magnitude / 100) * (max - min) * (atMs - fault.startMs) / MS_PER_HOUR;
+    case 'spikes':
+      if (random() >= SPIKE_PROBABILITY) return value;
+      return value + (random() < 0.5 ? -1 : 1) * fault.magnitude * (max - min);
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,194 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import { SAMPLING_GAP_FACTOR } from './timeWindows';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+
+// 'absent' is a channel the data source does not carry at all, which is not a fault
+export type SensorStatus = 'valid' | 'suspect' | 'stuck' | 'spike' | 'out_of_range' | 'missing' | 'absent';
+
+export interface SensorFault {
+  parameter: SensorParameter;
+  sensorId?: string; // Instrument the fault came from, for zones aggregated from several
+  status: Exclude<SensorStatus, 'valid' | 'absent'>;
+  value: number;
+  message: string;
+}
+
+export interface SensorHealthReport {
+  timestamp: number;
+  status: Record<SensorParameter, SensorStatus>;
+  faults: SensorFault[];
+  score: number; // 0-1, share of usable instrument data in this reading
+}
+
+// One reading after the health check: the raw values as received, the values
+// the models may see (faulty ones replaced), and the per-parameter verdict.
+export interface AssessedReading {
+  raw: SensorReading;
+  cleaned: SensorReading;
+  report: SensorHealthReport;
+}
+
+export interface SensorHealthOptions {
+  stuckCount: number; // Identical consecutive values before a sensor counts as stuck
+  spikeWindow: number; // Recent usable values forming the robust baseline
+  minBaseline: number; // Baseline size needed before spike checks start
+  suspectZ: number; // Robust z-score at which a value becomes suspect
+  spikeZ: number; // Robust z-score at which a value is rejected as a spike
+  channels: SensorParameter[] | null; // Channels the source carries; null for all of them
+}
+
+const DEFAULT_OPTIONS: SensorHealthOptions = {
+  stuckCount: 8,
+  spikeWindow: 20,
+  minBaseline: 8,
+  suspectZ: 4,
+  spikeZ: 8,
+  channels: null
+};
+
+const STATUS_LABELS: Record<SensorFault['status'], string> = {
+  suspect: 'unusual value',
+  stuck: 'sensor stuck',
+  spike: 'isolated spike',
+  out_of_range: 'outside measuring range',
+  missing: 'no data'
+};
+
+// Statuses whose values are withheld from the detection models
+export const isExcludedStatus = (status: SensorStatus): boolean =>
+  status !== 'valid' && status !== 'suspect';
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// The part of `recent` after its latest sampling gap (including a gap before
+// `timestamp`). Levels may legitimately move while a logger is offline, so
+// readings from before a gap are no baseline for spike checks.
+const sinceLastGap = (recent: AssessedReading[], timestamp: number): AssessedReading[] => {
+  const times = [...recent.map(entry => entry.raw.timestamp), timestamp];
+  const intervals = times.slice(1).map((time, i) => time - times[i]);
+  if (intervals.length < 2) return recent;
+
+  const limit = SAMPLING_GAP_FACTOR * median(intervals);
+  for (let i = intervals.length - 1; i >= 0; i--) {
+    if (intervals[i] > limit) return recent.slice(i + 1);
+  }
+  return recent;
+};
+
+const classify = (
+  parameter: SensorParameter,
+  value: number,
+  recent: AssessedReading[],
+  continuous: AssessedReading[],
+  options: SensorHealthOptions
+): SensorStatus => {
+  const { physicalRange, dropoutFloor } = SENSOR_PARAMETER_REGISTRY[parameter];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return 'missing';
+  if (value < physicalRange.min || value > physicalRange.max) return 'out_of_range';
+
+  const usable = recent.filter(entry => !isExcludedStatus(entry.report.status[parameter]));
+  const lastGood = usable[usable.length - 1]?.raw[parameter];
+
+  if (value === 0 && dropoutFloor !== null && lastGood !== undefined && Math.abs(lastGood) >= dropoutFloor) {
+    return 'missing';
+  }
+
+  // A sensor resting at zero is left to the dropout check above
+  const tail = recent.slice(-(options.stuckCount - 1));
+  if (value !== 0 && tail.length === options.stuckCount - 1 && tail.every(entry => entry.raw[parameter] === value)) {
+    return 'stuck';
+  }
+
+  const baseline = continuous
+    .filter(entry => !isExcludedStatus(entry.report.status[parameter]))
+    .slice(-options.spikeWindow)
+    .map(entry => entry.raw[parameter]);
+  if (baseline.length < options.minBaseline) return 'valid';
+
+  const center = median(baseline);
+  const mad = median(baseline.map(v => Math.abs(v - center)));
+  // Floor the scale so near-constant but healthy signals don't flag on noise
+  const scale = Math.max(1.4826 * mad, 0.01 * Math.abs(center), 1e-6);
+  const z = (value - center) / scale;
+
+  if (Math.abs(z) >= options.spikeZ) {
+    // A jump confirmed by the following reading is a real level shift, not a
+    // spike: pass it on as suspect until the baseline catches up.
+    const previous = continuous[continuous.length - 1];
+    const previousStatus = previous?.report.status[parameter];
+    const previousZ = previous ? (previous.raw[parameter] - center) / scale : 0;
+    const confirmed = (previousStatus === 'spike' || previousStatus === 'suspect') &&
+      Math.sign(previousZ) === Math.sign(z) && Math.abs(previousZ) >= options.spikeZ;
+    return confirmed ? 'suspect' : 'spike';
+  }
+  return Math.abs(z) >= options.suspectZ ? 'suspect' : 'valid';
+};
+
+// Classifies every parameter of a reading against the zone's recent assessed
+// readings (oldest first). Faulty values are replaced in `cleaned` by the last
+// usable value, or by the nearest in-range value when there is none yet.
+// Channels outside `channels` are absent: replaced the same way, but neither
+// reported as faults nor counted against the score.
+export const assessReading = (
+  reading: SensorReading,
+  recent: AssessedReading[],
+  options: Partial<SensorHealthOptions> = {}
+): AssessedReading => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const cleaned: SensorReading = { ...reading };
+  const status = {} as Record<SensorParameter, SensorStatus>;
+  const faults: SensorFault[] = [];
+  let penalty = 0;
+  const continuous = sinceLastGap(recent, reading.timestamp);
+  const carried = opts.channels ?? SENSOR_PARAMETERS;
+
+  SENSOR_PARAMETERS.forEach(parameter => {
+    const value = reading[parameter];
+    const verdict = carried.includes(parameter) ? classify(parameter, value, recent, continuous, opts) : 'absent';
+    status[parameter] = verdict;
+    if (verdict === 'valid') return;
+
+    if (verdict !== 'absent') {
+      faults.push({
+        parameter,
+        status: verdict,
+        value,
+        message: `${parameter}: ${STATUS_LABELS[verdict]}${Number.isFinite(value) ? ` (${value.toFixed(2)})` : ''}`
+      });
+      if (verdict === 'suspect') {
+        penalty += 0.5;
+        return;
+      }
+      penalty += 1;
+    }
+
+    const lastUsable = [...recent].reverse()
+      .find(entry => !isExcludedStatus(entry.report.status[parameter]))?.cleaned[parameter];
+    const { min, max } = SENSOR_PARAMETER_REGISTRY[parameter].physicalRange;
+    cleaned[parameter] = lastUsable ??
+      (Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : Math.max(min, 0));
+  });
+
+  return {
+    raw: reading,
+    cleaned,
+    report: {
+      timestamp: reading.timestamp,
+      status,
+      faults,
+      score: carried.length > 0 ? 1 - penalty / carried.length : 0
+    }
+  };
+};
+
+// True when the report withheld this parameter, so threshold alerts on it
+// should not fire. Unknown parameters are never considered faulty.
+export const isParameterFaulty = (report: SensorHealthReport | undefined, parameter: string): boolean => {
+  const status = report?.status[parameter as SensorParameter];
+  return status !== undefined && isExcludedStatus(status);
+};
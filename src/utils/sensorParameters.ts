@@ -0,0 +1,138 @@
+// Single registry of the numeric channels a SensorReading carries. The
+// reading type, the detector, health checks, simulator, importer, charts and
+// alert rules all take their parameter list from here, so a new channel
+// (GNSS, InSAR line-of-sight, crack-meter width) is one new entry.
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export interface SensorParameterDefinition {
+  label: string;
+  unit: string;
+  physicalRange: ValueRange; // Instrument measuring range; anything outside is a fault
+  typicalRange: ValueRange; // Normal operating values on a stable slope
+  hazard: boolean; // Direct indicator of slope instability, rather than a driver or context
+  // Smallest last good magnitude for which a sudden exact zero is read as a
+  // logger dropout; null where zero is a normal value (calm wind, no rain).
+  dropoutFloor: number | null;
+  aliases: string[]; // Other names seen in data files, matched case- and punctuation-insensitively
+}
+
+export const SENSOR_PARAMETER_REGISTRY = {
+  displacement: {
+    label: 'Displacement',
+    unit: 'mm',
+    physicalRange: { min: -100, max: 1000 },
+    typicalRange: { min: 0, max: 5 },
+    hazard: true,
+    dropoutFloor: 1,
+    aliases: ['disp', 'movement', 'prism displacement']
+  },
+  strain: {
+    label: 'Strain',
+    unit: 'µε',
+    physicalRange: { min: -5000, max: 5000 },
+    typicalRange: { min: 50, max: 200 },
+    hazard: true,
+    dropoutFloor: 10,
+    aliases: ['microstrain', 'strain gauge']
+  },
+  porePressure: {
+    label: 'Pore pressure',
+    unit: 'kPa',
+    physicalRange: { min: 0, max: 2000 },
+    typicalRange: { min: 100, max: 300 },
+    hazard: true,
+    dropoutFloor: 10,
+    aliases: ['pore_pressure', 'piezometer', 'water pressure']
+  },
+  temperature: {
+    label: 'Temperature',
+    unit: '°C',
+    physicalRange: { min: -50, max: 70 },
+    typicalRange: { min: 15, max: 25 },
+    hazard: false,
+    dropoutFloor: 5,
+    aliases: ['temp', 'air temperature']
+  },
+  vibration: {
+    label: 'Vibration',
+    unit: 'Hz',
+    physicalRange: { min: 0, max: 200 },
+    typicalRange: { min: 0.1, max: 2 },
+    hazard: true,
+    dropoutFloor: null,
+    aliases: ['seismic', 'ppv']
+  },
+  rainfall: {
+    label: 'Rainfall',
+    unit: 'mm/hr',
+    physicalRange: { min: 0, max: 300 },
+    typicalRange: { min: 0, max: 10 },
+    hazard: false,
+    dropoutFloor: null,
+    aliases: ['rain', 'precipitation']
+  },
+  windSpeed: {
+    label: 'Wind speed',
+    unit: 'm/s',
+    physicalRange: { min: 0, max: 120 },
+    typicalRange: { min: 0, max: 15 },
+    hazard: false,
+    dropoutFloor: null,
+    aliases: ['wind', 'wind_speed']
+  },
+  soilMoisture: {
+    label: 'Soil moisture',
+    unit: '%',
+    physicalRange: { min: 0, max: 100 },
+    typicalRange: { min: 20, max: 40 },
+    hazard: false,
+    dropoutFloor: 2,
+    aliases: ['moisture', 'soil_moisture', 'water content']
+  },
+  tiltAngle: {
+    label: 'Tilt angle',
+    unit: '°',
+    physicalRange: { min: -90, max: 90 },
+    typicalRange: { min: -2, max: 2 },
+    hazard: true,
+    dropoutFloor: null,
+    aliases: ['tilt', 'inclination', 'tiltmeter']
+  }
+} satisfies Record<string, SensorParameterDefinition>;
+
+export type SensorParameter = keyof typeof SENSOR_PARAMETER_REGISTRY;
+
+export const SENSOR_PARAMETERS = Object.keys(SENSOR_PARAMETER_REGISTRY) as SensorParameter[];
+
+export const HAZARD_PARAMETERS = SENSOR_PARAMETERS.filter(key => SENSOR_PARAMETER_REGISTRY[key].hazard);
+
+export const getSensorParameter = (key: SensorParameter): SensorParameterDefinition & { key: SensorParameter } => ({
+  key,
+  ...SENSOR_PARAMETER_REGISTRY[key]
+});
+
+export const isSensorParameter = (value: string): value is SensorParameter =>
+  Object.prototype.hasOwnProperty.call(SENSOR_PARAMETER_REGISTRY, value);
+
+// Builds a value for every registered parameter, e.g. a simulated reading
+export const mapSensorParameters = (value: (key: SensorParameter) => number): Record<SensorParameter, number> =>
+  Object.fromEntries(SENSOR_PARAMETERS.map(key => [key, value(key)])) as Record<SensorParameter, number>;
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Resolves a column or channel name to a parameter by key, label or alias
+export const findSensorParameter = (name: string): SensorParameter | null => {
+  const wanted = normalizeName(name);
+  if (!wanted) return null;
+  return SENSOR_PARAMETERS.find(key => {
+    const { label, aliases } = SENSOR_PARAMETER_REGISTRY[key];
+    return [key, label, ...aliases].some(candidate => normalizeName(candidate) === wanted);
+  }) ?? null;
+};
+
+export const formatParameterValue = (key: SensorParameter, value: number, digits: number = 2): string =>
+  `${value.toFixed(digits)} ${SENSOR_PARAMETER_REGISTRY[key].unit}`;
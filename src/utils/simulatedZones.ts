@@ -0,0 +1,123 @@
+// Which zones the simulator generates data for. Zones come from the terrain
+// sections drawn on the map and any saved custom risk zones, so what is on the
+// map is what gets simulated; the six demo zones stand in until there are any.
+
+import { DEFAULT_CREEP_PARAMETERS } from './creepModel';
+import type { CreepParameters } from './creepModel';
+import type { SensorParameter } from './sensorParameters';
+
+// Ground conditions that shape a zone's simulated behaviour
+export interface ZoneProfile {
+  slopeAngle: number; // degrees
+  fractureDensity: number; // 0-1
+  waterContent: number; // 0-1
+}
+
+export interface SimulatedZone {
+  zoneId: string;
+  zoneName: string;
+  profile: ZoneProfile;
+}
+
+// Structural shapes of the map data, so callers can pass terrain maps and
+// custom zones straight through
+interface TerrainMapLike {
+  name: string;
+  sections: Array<{
+    id: string;
+    name: string;
+    properties: Pick<ZoneProfile, 'slopeAngle' | 'fractureDensity' | 'waterContent'>;
+  }>;
+}
+
+interface CustomZoneLike {
+  id: string;
+  name: string;
+  metadata?: { slopeAngle?: number };
+}
+
+const DEFAULT_PROFILE: ZoneProfile = { slopeAngle: 52.5, fractureDensity: 0.5, waterContent: 0.5 };
+
+export const DEFAULT_SIMULATED_ZONES: SimulatedZone[] = [
+  { zoneId: 'zone-1', zoneName: 'North Face Alpha', profile: { slopeAngle: 70, fractureDensity: 0.6, waterContent: 0.3 } },
+  { zoneId: 'zone-2', zoneName: 'South Wall Beta', profile: { slopeAngle: 60, fractureDensity: 0.7, waterContent: 0.6 } },
+  { zoneId: 'zone-3', zoneName: 'East Slope Gamma', profile: { slopeAngle: 45, fractureDensity: 0.4, waterContent: 0.7 } },
+  { zoneId: 'zone-4', zoneName: 'West Ridge Delta', profile: { slopeAngle: 55, fractureDensity: 0.5, waterContent: 0.4 } },
+  { zoneId: 'zone-5', zoneName: 'Central Pit Epsilon', profile: { slopeAngle: 40, fractureDensity: 0.3, waterContent: 0.5 } },
+  { zoneId: 'zone-6', zoneName: 'Access Road Zeta', profile: { slopeAngle: 30, fractureDensity: 0.2, waterContent: 0.4 } }
+];
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, Number.isFinite(value) ? value : 0.5));
+
+// Terrain generation draws slope angles between 15° and 90°
+const steepness = (profile: ZoneProfile): number => clamp01((profile.slopeAngle - 15) / 75);
+
+export const simulatedZonesFrom = (
+  terrainMaps: TerrainMapLike[],
+  customZones: CustomZoneLike[] = []
+): SimulatedZone[] => {
+  const zones: SimulatedZone[] = [
+    ...terrainMaps.flatMap(map => map.sections.map(section => ({
+      zoneId: section.id,
+      zoneName: terrainMaps.length > 1 ? `${map.name} · ${section.name}` : section.name,
+      profile: {
+        slopeAngle: section.properties.slopeAngle,
+        fractureDensity: clamp01(section.properties.fractureDensity),
+        waterContent: clamp01(section.properties.waterContent)
+      }
+    }))),
+    ...customZones.map(zone => ({
+      zoneId: zone.id,
+      zoneName: zone.name,
+      profile: { ...DEFAULT_PROFILE, slopeAngle: zone.metadata?.slopeAngle ?? DEFAULT_PROFILE.slopeAngle }
+    }))
+  ];
+  return zones.length > 0 ? zones : DEFAULT_SIMULATED_ZONES;
+};
+
+// Custom risk zones saved by the risk map editor
+export const loadSavedCustomZones = (): CustomZoneLike[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem('customRiskZones') ?? '[]');
+    return Array.isArray(saved)
+      ? saved.filter(zone => typeof zone?.id === 'string' && typeof zone?.name === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const sameZoneProfile = (a: ZoneProfile, b: ZoneProfile): boolean =>
+  a.slopeAngle === b.slopeAngle && a.fractureDensity === b.fractureDensity && a.waterContent === b.waterContent;
+
+// Where in its typical range a parameter's resting level sits (0-1), or null
+// where ground conditions have no bearing on it
+export const profileBaselinePosition = (key: SensorParameter, profile: ZoneProfile): number | null => {
+  switch (key) {
+    case 'porePressure':
+    case 'soilMoisture':
+      return profile.waterContent;
+    case 'strain':
+    case 'vibration':
+      return profile.fractureDensity;
+    case 'displacement':
+    case 'tiltAngle':
+      return steepness(profile);
+    default:
+      return null;
+  }
+};
+
+// Steep, fractured ground creeps faster; wet ground builds pore pressure more
+// readily and fractures let rain reach depth sooner
+export const profileCreepParameters = (profile: ZoneProfile): CreepParameters => {
+  const movement = (0.5 + steepness(profile)) * (0.5 + profile.fractureDensity);
+  return {
+    ...DEFAULT_CREEP_PARAMETERS,
+    primaryRate: DEFAULT_CREEP_PARAMETERS.primaryRate * movement,
+    secondaryRate: DEFAULT_CREEP_PARAMETERS.secondaryRate * movement,
+    tertiaryRate: DEFAULT_CREEP_PARAMETERS.tertiaryRate * movement,
+    rechargeGain: DEFAULT_CREEP_PARAMETERS.rechargeGain * (0.5 + profile.waterContent),
+    infiltrationLagHours: DEFAULT_CREEP_PARAMETERS.infiltrationLagHours * (1.5 - profile.fractureDensity)
+  };
+};
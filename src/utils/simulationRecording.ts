@@ -0,0 +1,151 @@
+// Labeled datasets from simulation runs. The generator knows the ground truth
+// (creep stage, when each zone fails, which faults were injected), so a
+// recorded run becomes a training and calibration set and a regression corpus.
+// The JSON export carries a `sequences` list that the calibration panel loads
+// as-is.
+
+import type { SensorReading, ZoneData } from '../hooks/useRockfallDataGenerator';
+import type { PredictionResult } from '../hooks/useEnhancedRockfallDetector';
+import type { LabeledSequence } from './calibrationMetrics';
+import type { ScenarioLogEntry } from './scenarioScript';
+import type { InjectedFault } from './sensorFaults';
+import { SENSOR_PARAMETERS, SENSOR_PARAMETER_REGISTRY } from './sensorParameters';
+import { MS_PER_HOUR } from './timeWindows';
+
+// A reading counts as a positive example when its zone fails within this time
+export const LABEL_HORIZON_HOURS = 24;
+
+export type RecordedPrediction = Pick<PredictionResult, 'riskScore' | 'riskLevel' | 'confidence' | 'timeToEvent'>;
+
+export interface RecordedTick {
+  elapsedMs: number; // Simulated clock when the frame was generated
+  data: ZoneData;
+  prediction: RecordedPrediction | null; // The detector's verdict on this tick, once it has run
+}
+
+export interface SimulationRecording {
+  seed: number;
+  scenario: string | null; // Name of the loaded script
+  ticks: RecordedTick[];
+  events: ScenarioLogEntry[];
+  faults: InjectedFault[];
+  truncated: boolean; // Recording stopped taking ticks at its size limit
+}
+
+export interface TickLabels {
+  creepStage: string | null;
+  failed: boolean;
+  failureAt: number | null;
+  hoursToFailure: number | null;
+  eventWithinHorizon: boolean;
+  faults: string[]; // `${mode}:${parameter}` for each injected fault
+}
+
+export const labelTick = ({ data }: RecordedTick): TickLabels => {
+  const failureAt = data.creep?.failureAt ?? null;
+  const hoursToFailure = failureAt === null ? null : (failureAt - data.lastReading.timestamp) / MS_PER_HOUR;
+  const failed = data.creep?.failed ?? false;
+  return {
+    creepStage: data.creep?.stage ?? null,
+    failed,
+    failureAt,
+    hoursToFailure,
+    eventWithinHorizon: failed || (hoursToFailure !== null && hoursToFailure <= LABEL_HORIZON_HOURS),
+    faults: (data.injectedFaults ?? []).map(fault => `${fault.mode}:${fault.parameter ?? 'all'}`)
+  };
+};
+
+// One sequence per zone. A zone is a positive, with its failure time, only
+// when some tick has the failure within LABEL_HORIZON_HOURS; a failure the
+// generator scheduled for long after the recording stopped is a negative.
+export const recordingSequences = (recording: SimulationRecording): LabeledSequence[] => {
+  const byZone = new Map<string, RecordedTick[]>();
+  recording.ticks.forEach(tick => {
+    const ticks = byZone.get(tick.data.zoneId);
+    if (ticks) ticks.push(tick);
+    else byZone.set(tick.data.zoneId, [tick]);
+  });
+
+  return Array.from(byZone.entries()).map(([zoneId, ticks]) => {
+    const last = ticks[ticks.length - 1].data;
+    const eventTime = ticks.some(tick => labelTick(tick).eventWithinHorizon) ? last.creep?.failureAt ?? null : null;
+    return {
+      readings: ticks.map(tick => tick.data.lastReading),
+      outcome: eventTime !== null,
+      ...(eventTime !== null ? { eventTime } : {}),
+      label: `${last.zoneName} (${zoneId})`
+    };
+  });
+};
+
+export const recordingToJson = (recording: SimulationRecording): string => JSON.stringify({
+  format: 'rockfall-simulation-recording',
+  version: 1,
+  seed: recording.seed,
+  scenario: recording.scenario,
+  labelHorizonHours: LABEL_HORIZON_HOURS,
+  truncated: recording.truncated,
+  sequences: recordingSequences(recording),
+  ticks: recording.ticks.map(tick => ({
+    elapsedMs: tick.elapsedMs,
+    zoneId: tick.data.zoneId,
+    zoneName: tick.data.zoneName,
+    reading: tick.data.lastReading,
+    sensors: Object.fromEntries(Object.entries(tick.data.sensors ?? {}).map(
+      ([sensorId, sensorData]) => [sensorId, sensorData.lastReading]
+    )),
+    riskLevel: tick.data.riskLevel,
+    labels: labelTick(tick),
+    prediction: tick.prediction
+  })),
+  events: recording.events,
+  faults: recording.faults
+}, null, 2);
+
+const csvCell = (value: string | number | boolean | null): string => {
+  if (value === null || (typeof value === 'number' && !Number.isFinite(value))) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const readingCells = (reading: SensorReading): Array<number | null> =>
+  SENSOR_PARAMETERS.map(key => reading[key]);
+
+// One row per zone per tick, zone-level readings only; missing values are
+// empty cells
+export const recordingToCsv = (recording: SimulationRecording): string => {
+  const header = [
+    'elapsed_ms',
+    'timestamp',
+    'zone_id',
+    'zone_name',
+    ...SENSOR_PARAMETERS.map(key => `${key} (${SENSOR_PARAMETER_REGISTRY[key].unit})`),
+    'creep_stage',
+    'failed',
+    'hours_to_failure',
+    `event_within_${LABEL_HORIZON_HOURS}h`,
+    'injected_faults',
+    'predicted_risk_score',
+    'predicted_risk_level',
+    'predicted_time_to_event_h'
+  ];
+  const rows = recording.ticks.map(tick => {
+    const labels = labelTick(tick);
+    return [
+      tick.elapsedMs,
+      new Date(tick.data.lastReading.timestamp).toISOString(),
+      tick.data.zoneId,
+      tick.data.zoneName,
+      ...readingCells(tick.data.lastReading),
+      labels.creepStage,
+      labels.failed,
+      labels.hoursToFailure === null ? null : Number(labels.hoursToFailure.toFixed(3)),
+      labels.eventWithinHorizon,
+      labels.faults.join(';'),
+      tick.prediction?.riskScore ?? null,
+      tick.prediction?.riskLevel ?? null,
+      tick.prediction?.timeToEvent ?? null
+    ];
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
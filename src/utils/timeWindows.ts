@@ -0,0 +1,131 @@
+import type { SensorReading } from '../hooks/useRockfallDataGenerator';
+import type { SensorParameter } from './sensorParameters';
+
+export const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface SamplingGap {
+  start: number; // epoch ms of the last reading before the gap
+  end: number; // epoch ms of the first reading after it
+  hours: number;
+}
+
+export interface SamplingReport {
+  intervalMinutes: number | null; // Median spacing of the analysed series
+  spanHours: number;
+  gaps: SamplingGap[];
+  coverage: number; // 0-1, share of the span not lost to gaps
+}
+
+// A gap is a spacing this many times the usual one (and, on a time grid,
+// never less than two steps)
+export const SAMPLING_GAP_FACTOR = 3;
+
+// Readings in the half-open window (end - hours, end]; `end` defaults to the latest reading
+export const readingsWithin = (
+  history: SensorReading[],
+  hours: number,
+  end: number = history[history.length - 1]?.timestamp ?? 0
+): SensorReading[] => {
+  const start = end - hours * MS_PER_HOUR;
+  return history.filter(reading => reading.timestamp > start && reading.timestamp <= end);
+};
+
+export const spanHours = (history: SensorReading[]): number =>
+  history.length < 2 ? 0 : (history[history.length - 1].timestamp - history[0].timestamp) / MS_PER_HOUR;
+
+// Trapezoidal time integral in value·hours, e.g. mm of rain from mm/hr
+export const timeIntegral = (readings: SensorReading[], parameter: SensorParameter): number | null => {
+  if (readings.length < 2) return null;
+  let total = 0;
+  for (let i = 1; i < readings.length; i++) {
+    const hours = (readings[i].timestamp - readings[i - 1].timestamp) / MS_PER_HOUR;
+    total += (readings[i][parameter] + readings[i - 1][parameter]) / 2 * hours;
+  }
+  return total;
+};
+
+// Least-squares slope in units per hour; null without two distinct timestamps
+export const ratePerHour = (readings: SensorReading[], parameter: SensorParameter): number | null => {
+  if (readings.length < 2) return null;
+  const t0 = readings[0].timestamp;
+  const ts = readings.map(r => (r.timestamp - t0) / MS_PER_HOUR);
+  const ys = readings.map(r => r[parameter]);
+  const meanT = ts.reduce((sum, t) => sum + t, 0) / ts.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const sxx = ts.reduce((sum, t) => sum + (t - meanT) ** 2, 0);
+  if (sxx === 0) return null;
+  return ts.reduce((sum, t, i) => sum + (t - meanT) * (ys[i] - meanY), 0) / sxx;
+};
+
+// Folds a reading into a series of fixed time steps. Readings that fall in an
+// existing step are averaged into it (timestamp included), so a logger that
+// reports every 10 seconds and one that reports every 15 minutes end up with
+// the same one-value-per-step series. Empty steps are left out, never filled.
+// `counts` runs parallel to `series` and holds the readings behind each step.
+export const addToTimeGrid = (
+  series: SensorReading[],
+  counts: number[],
+  reading: SensorReading,
+  stepMs: number
+): SensorReading => {
+  const step = Math.floor(reading.timestamp / stepMs);
+
+  // Usually the latest step; late readings search back
+  let index = series.length - 1;
+  while (index >= 0 && Math.floor(series[index].timestamp / stepMs) > step) index--;
+
+  if (index >= 0 && Math.floor(series[index].timestamp / stepMs) === step) {
+    const count = counts[index] + 1;
+    const merged = { ...series[index] };
+    (Object.keys(reading) as Array<keyof SensorReading>).forEach(key => {
+      merged[key] = series[index][key] + (reading[key] - series[index][key]) / count;
+    });
+    series[index] = merged;
+    counts[index] = count;
+    return merged;
+  }
+
+  series.splice(index + 1, 0, { ...reading });
+  counts.splice(index + 1, 0, 1);
+  return series[index + 1];
+};
+
+// Drops steps older than `hours` before the latest one
+export const trimTimeGrid = (series: SensorReading[], counts: number[], hours: number): void => {
+  const latest = series[series.length - 1]?.timestamp;
+  if (latest === undefined) return;
+  const start = latest - hours * MS_PER_HOUR;
+  const expired = series.findIndex(reading => reading.timestamp >= start);
+  if (expired > 0) {
+    series.splice(0, expired);
+    counts.splice(0, expired);
+  }
+};
+
+export const profileSampling = (series: SensorReading[], stepMs: number): SamplingReport => {
+  const span = spanHours(series);
+  if (series.length < 2) {
+    return { intervalMinutes: null, spanHours: span, gaps: [], coverage: 1 };
+  }
+
+  const intervals = series.slice(1).map((reading, i) => reading.timestamp - series[i].timestamp);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  const limit = Math.max(SAMPLING_GAP_FACTOR * median, 2 * stepMs);
+
+  const gaps: SamplingGap[] = [];
+  intervals.forEach((interval, i) => {
+    if (interval > limit) {
+      gaps.push({ start: series[i].timestamp, end: series[i + 1].timestamp, hours: interval / MS_PER_HOUR });
+    }
+  });
+  const lost = gaps.reduce((sum, gap) => sum + gap.hours, 0);
+
+  return {
+    intervalMinutes: median / 60000,
+    spanHours: span,
+    gaps,
+    coverage: span > 0 ? Math.max(0, 1 - lost / span) : 1
+  };
+};
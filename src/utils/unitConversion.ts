@@ -0,0 +1,109 @@
+// Imported readings arrive in whatever units the logger or contractor used.
+// Everything past the importer works in the registry unit of each parameter
+// (mm, kPa, °C, mm/hr, ...), so values are converted once, on import.
+
+import { SENSOR_PARAMETER_REGISTRY } from './sensorParameters';
+import type { SensorParameter } from './sensorParameters';
+
+export interface UnitDefinition {
+  symbol: string;
+  scale: number; // canonical = value * scale + offset
+  offset: number;
+  aliases: string[]; // Spellings seen in headers and unit rows, matched after normalizeUnit
+}
+
+const unit = (symbol: string, scale: number, aliases: string[] = [], offset = 0): UnitDefinition =>
+  ({ symbol, scale, offset, aliases });
+
+// The first unit of each parameter is its registry unit
+export const PARAMETER_UNITS: Record<SensorParameter, UnitDefinition[]> = {
+  displacement: [
+    unit('mm', 1, ['millimeter', 'millimeters', 'millimetre', 'millimetres']),
+    unit('µm', 0.001, ['um', 'micron', 'microns', 'micrometer', 'micrometre']),
+    unit('cm', 10, ['centimeter', 'centimetre']),
+    unit('m', 1000, ['meter', 'meters', 'metre', 'metres']),
+    unit('in', 25.4, ['inch', 'inches', '"']),
+    unit('ft', 304.8, ['foot', 'feet', '\''])
+  ],
+  strain: [
+    unit('µε', 1, ['ue', 'µstrain', 'ustrain', 'microstrain']),
+    unit('ε', 1e6, ['strain', 'mm/mm', 'm/m'])
+  ],
+  porePressure: [
+    unit('kPa', 1, ['kilopascal', 'kilopascals']),
+    unit('Pa', 0.001, ['pascal', 'pascals']),
+    unit('MPa', 1000),
+    unit('bar', 100),
+    unit('mbar', 0.1, ['hpa', 'millibar']),
+    unit('psi', 6.894757, ['lb/in2', 'lbf/in2']),
+    unit('mH₂O', 9.80665, ['mh2o', 'mwc', 'mwater']),
+    unit('ftH₂O', 2.98907, ['fth2o', 'ftwater'])
+  ],
+  temperature: [
+    unit('°C', 1, ['c', 'degc', 'celsius']),
+    unit('°F', 5 / 9, ['f', 'degf', 'fahrenheit'], -160 / 9),
+    unit('K', 1, ['kelvin'], -273.15)
+  ],
+  vibration: [
+    unit('Hz', 1, ['cps', '1/s']),
+    unit('kHz', 1000),
+    unit('cpm', 1 / 60, ['rpm', '1/min'])
+  ],
+  rainfall: [
+    unit('mm/hr', 1, ['mm/h', 'mmh', 'mmhr', 'mm/hour', 'mmph']),
+    unit('mm/min', 60),
+    unit('mm/day', 1 / 24, ['mm/d', 'mmd', 'mmday', 'mm/24h']),
+    unit('in/hr', 25.4, ['in/h', 'inh', 'inhr', 'iph']),
+    unit('in/day', 25.4 / 24, ['in/d', 'ind', 'inday'])
+  ],
+  windSpeed: [
+    unit('m/s', 1, ['ms', 'mps', 'ms-1']),
+    unit('km/h', 1 / 3.6, ['kmh', 'km/hr', 'kph']),
+    unit('mph', 0.44704, ['mi/h']),
+    unit('kn', 0.514444, ['kt', 'kts', 'knot', 'knots']),
+    unit('ft/s', 0.3048, ['fps'])
+  ],
+  soilMoisture: [
+    unit('%', 1, ['percent', 'pct', '%vwc', 'vwc%']),
+    unit('m³/m³', 100, ['m3/m3', 'cm3/cm3', 'v/v', 'fraction'])
+  ],
+  tiltAngle: [
+    unit('°', 1, ['deg', 'degree', 'degrees']),
+    unit('rad', 180 / Math.PI, ['radian', 'radians']),
+    unit('mrad', 0.18 / Math.PI, ['milliradian', 'milliradians']),
+    unit('arcsec', 1 / 3600, ['arcseconds', 'arcsecond'])
+  ]
+};
+
+// Case, spacing, superscripts and look-alike symbols differ between files
+const normalizeUnit = (text: string): string =>
+  text.toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'µ')
+    .replace(/º/g, '°')
+    .replace(/²/g, '2')
+    .replace(/³/g, '3')
+    .replace(/₂/g, '2')
+    .replace(/\^/g, '');
+
+export const canonicalUnit = (parameter: SensorParameter): string => SENSOR_PARAMETER_REGISTRY[parameter].unit;
+
+// The unit a piece of text names for this parameter, or null
+export const findUnit = (parameter: SensorParameter, text: string): UnitDefinition | null => {
+  const wanted = normalizeUnit(text);
+  if (!wanted) return null;
+  return PARAMETER_UNITS[parameter].find(({ symbol, aliases }) =>
+    [symbol, ...aliases].some(candidate => normalizeUnit(candidate) === wanted)
+  ) ?? null;
+};
+
+// A function taking values in `symbol` to the registry unit. Throws when the
+// unit is not one the parameter can be measured in.
+export const unitConverter = (parameter: SensorParameter, symbol: string): ((value: number) => number) => {
+  const definition = findUnit(parameter, symbol);
+  if (!definition) {
+    throw new Error(`${symbol} is not a known unit for ${SENSOR_PARAMETER_REGISTRY[parameter].label.toLowerCase()}`);
+  }
+  const { scale, offset } = definition;
+  return scale === 1 && offset === 0 ? value => value : value => value * scale + offset;
+};
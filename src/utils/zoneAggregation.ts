@@ -0,0 +1,84 @@
+import type { SensorInstance } from '../hooks/useRockfallDataGenerator';
+import type { UncertaintyBand } from './predictionUncertainty';
+
+// worst_case: the highest-scoring sensor sets the zone's risk.
+// crest_weighted: mean of sensor scores weighted by proximity to the crest.
+// quorum: the zone reaches the score that at least `quorum` sensors reach.
+export type ZoneAggregationMethod = 'worst_case' | 'crest_weighted' | 'quorum';
+
+export interface ZoneAggregation {
+  method: ZoneAggregationMethod;
+  quorum: number; // Sensors that must agree, for 'quorum'
+  crestScale: number; // metres below the crest at which a sensor's weight halves, for 'crest_weighted'
+}
+
+export const DEFAULT_ZONE_AGGREGATION: ZoneAggregation = {
+  method: 'worst_case',
+  quorum: 2,
+  crestScale: 20
+};
+
+export const ZONE_AGGREGATION_LABELS: Record<ZoneAggregationMethod, string> = {
+  worst_case: 'Worst case',
+  crest_weighted: 'Crest-weighted',
+  quorum: 'Quorum'
+};
+
+export interface ZoneSelection {
+  riskScore: number;
+  driverIndex: number; // Sensor that drove the zone's risk
+  weights: number[]; // Normalised contribution of each sensor to the zone score
+}
+
+// Detector history and health are kept per sensor under this id
+export const sensorSeriesId = (zoneId: string, sensorId: string): string => `${zoneId}/${sensorId}`;
+
+// Sensors at or behind the crest (tension cracks) get full weight
+export const crestWeight = (sensor: SensorInstance, crestScale: number): number =>
+  1 / (1 + Math.max(0, sensor.crestDistance) / Math.max(crestScale, 1e-6));
+
+export const selectZoneRisk = (
+  entries: Array<{ sensor: SensorInstance; riskScore: number }>,
+  aggregation: ZoneAggregation
+): ZoneSelection => {
+  if (entries.length === 0) {
+    throw new Error('Zone aggregation needs at least one sensor result');
+  }
+
+  const byScore = entries
+    .map((entry, index) => ({ index, riskScore: entry.riskScore }))
+    .sort((a, b) => b.riskScore - a.riskScore);
+  const only = (index: number) => entries.map((_, i) => (i === index ? 1 : 0));
+
+  switch (aggregation.method) {
+    case 'worst_case':
+      return { riskScore: byScore[0].riskScore, driverIndex: byScore[0].index, weights: only(byScore[0].index) };
+
+    case 'quorum': {
+      // The k-th highest score is the highest that k sensors all reach; the
+      // sensor holding it is the one that completes the quorum
+      const k = Math.max(1, Math.min(Math.round(aggregation.quorum), entries.length));
+      const deciding = byScore[k - 1];
+      return { riskScore: deciding.riskScore, driverIndex: deciding.index, weights: only(deciding.index) };
+    }
+
+    case 'crest_weighted': {
+      const raw = entries.map(entry => crestWeight(entry.sensor, aggregation.crestScale));
+      const total = raw.reduce((sum, weight) => sum + weight, 0);
+      const weights = raw.map(weight => weight / total);
+      const contributions = entries.map((entry, i) => weights[i] * entry.riskScore);
+      const driverIndex = contributions.indexOf(Math.max(...contributions));
+      return {
+        riskScore: contributions.reduce((sum, value) => sum + value, 0),
+        driverIndex,
+        weights
+      };
+    }
+  }
+};
+
+// Quantile-wise weighted mean; an approximation, as quantiles do not add
+export const weightedBand = (bands: UncertaintyBand[], weights: number[]): UncertaintyBand => {
+  const mix = (key: keyof UncertaintyBand) => bands.reduce((sum, band, i) => sum + band[key] * weights[i], 0);
+  return { p10: mix('p10'), p50: mix('p50'), p90: mix('p90') };
+};
@@ -0,0 +1,20 @@
+// Replays a backtest off the main thread, so a season of imported data does
+// not freeze the page
+import { EnhancedRockfallDetector } from '../hooks/useEnhancedRockfallDetector';
+import { runBacktest } from '../utils/backtest';
+import type { BacktestRequest, BacktestResponse } from '../utils/backtest';
+
+const reply = (message: BacktestResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<BacktestRequest>) => {
+  const { input, detectorSnapshot } = event.data;
+  try {
+    const detector = new EnhancedRockfallDetector({ ...input.detectorOptions, uncertaintyResamples: 0 });
+    if (detectorSnapshot) {
+      detector.restore({ ...detectorSnapshot, historicalData: {} });
+    }
+    reply({ type: 'result', result: runBacktest(input, detector) });
+  } catch (err) {
+    reply({ type: 'error', message: err instanceof Error ? err.message : 'Backtest failed' });
+  }
+};
@@ -0,0 +1,15 @@
+// Runs a share of a Monte Carlo evaluation off the main thread
+import { runMonteCarloTrial } from '../utils/monteCarlo';
+import type { MonteCarloRequest, MonteCarloResponse } from '../utils/monteCarlo';
+
+const reply = (message: MonteCarloResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  const { config, runs } = event.data;
+  try {
+    runs.forEach(run => reply({ type: 'result', result: runMonteCarloTrial(config, run) }));
+    reply({ type: 'done' });
+  } catch (err) {
+    reply({ type: 'error', message: err instanceof Error ? err.message : 'Monte Carlo run failed' });
+  }
+};